@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { mockDb } from '@/services/mockDb';
+import { toPublicApiKey } from '@/services/auth';
+import { PERMISSIONS } from '@/middleware/rbac';
+import { apiHandler } from '@/lib/apiHandler';
+import { ConflictError, NotFoundError } from '@/lib/errors';
+
+// Revoke: the key stops working at once but stays listed for the audit trail
+export const DELETE = apiHandler({ permission: PERMISSIONS.APIKEY_MANAGE }, ({ params }) => {
+    const apiKey = mockDb.getApiKeyById(params.id);
+    if (!apiKey) {
+        throw new NotFoundError('API key', params.id);
+    }
+    if (apiKey.revokedAt) {
+        throw new ConflictError(`API key "${apiKey.name}" was already revoked`, { revokedAt: apiKey.revokedAt });
+    }
+
+    const revokedKey = mockDb.revokeApiKey(apiKey.id)!;
+    return NextResponse.json(toPublicApiKey(revokedKey));
+});
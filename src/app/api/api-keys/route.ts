@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { mockDb } from '@/services/mockDb';
+import { createApiKey, hashSecretToken, toPublicApiKey } from '@/services/auth';
+import { getActingUserId, PERMISSIONS } from '@/middleware/rbac';
+import { apiHandler } from '@/lib/apiHandler';
+import { ForbiddenError, ValidationError } from '@/lib/errors';
+import { apiKeyCreateSchema } from '@/lib/schemas';
+
+// Newest first, revoked keys included so their last use stays visible
+export const GET = apiHandler({ permission: PERMISSIONS.APIKEY_MANAGE }, () => {
+    const apiKeys = mockDb.getApiKeys().sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    return NextResponse.json(apiKeys.map(toPublicApiKey));
+});
+
+export const POST = apiHandler({ permission: PERMISSIONS.APIKEY_MANAGE, body: apiKeyCreateSchema }, ({ body, auth }) => {
+    // Nobody hands out more than they hold themselves
+    const permissions = [...new Set(body.permissions)];
+    const notHeld = permissions.filter((permission) => !auth.permissions.includes(permission));
+    if (notHeld.length > 0) {
+        throw new ForbiddenError(`You cannot grant permissions you do not hold: ${notHeld.join(', ')}`);
+    }
+
+    const now = new Date();
+    const expiresAt = body.expiresAt && new Date(body.expiresAt).toISOString();
+    if (expiresAt && Date.parse(expiresAt) <= now.getTime()) {
+        throw new ValidationError([{ path: 'expiresAt', message: 'Must be in the future' }]);
+    }
+
+    // Only the hash is stored, so the key can be shown this once
+    const { key, prefix } = createApiKey();
+    const createdKey = mockDb.addApiKey({
+        id: mockDb.generateId('apiKeys'),
+        name: body.name,
+        prefix,
+        tokenHash: hashSecretToken(key),
+        permissions,
+        createdBy: getActingUserId(auth),
+        createdAt: now.toISOString(),
+        expiresAt,
+    });
+    return NextResponse.json({ ...toPublicApiKey(createdKey), key }, { status: 201 });
+});
@@ -0,0 +1,11 @@
+import { NextResponse } from 'next/server';
+import { mockDb } from '@/services/mockDb';
+import { getExhibitionScope, PERMISSIONS } from '@/middleware/rbac';
+import { apiHandler } from '@/lib/apiHandler';
+import { auditListQuerySchema } from '@/lib/schemas';
+import { toQuery } from '@/services/query';
+
+export const GET = apiHandler({ permission: PERMISSIONS.AUDIT_READ, query: auditListQuerySchema }, ({ query, auth }) => {
+    // Entries of exhibitions the caller is not on are left out
+    return NextResponse.json(mockDb.queryAuditLog(toQuery(query), getExhibitionScope(auth)));
+});
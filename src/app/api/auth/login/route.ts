@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { mockDb } from '@/services/mockDb';
+import { createSessionToken, sessionCookie, verifyPassword } from '@/services/auth';
+import { toAuthUser } from '@/middleware/rbac';
+import { apiHandler } from '@/lib/apiHandler';
+import { UnauthorizedError } from '@/lib/errors';
+import { loginSchema } from '@/lib/schemas';
+
+export const POST = apiHandler({ permission: 'public', body: loginSchema }, ({ body }) => {
+    const user = mockDb.locateUserByUsername(body.username)?.record;
+
+    // Same answer for an unknown user and a wrong password
+    if (!user || !verifyPassword(body.password, user.passwordHash)) {
+        throw new UnauthorizedError('Invalid username or password');
+    }
+    if (!user.active) {
+        throw new UnauthorizedError('This account has been deactivated');
+    }
+
+    const { token, expiresAt } = createSessionToken(user.id);
+    const response = NextResponse.json({ user: toAuthUser(user), expiresAt: expiresAt.toISOString() });
+    response.headers.set('Set-Cookie', sessionCookie(token));
+    return response;
+});
@@ -0,0 +1,10 @@
+import { NextResponse } from 'next/server';
+import { sessionCookie } from '@/services/auth';
+import { apiHandler } from '@/lib/apiHandler';
+
+// Public so that a browser with an expired session can still clear its cookie
+export const POST = apiHandler({ permission: 'public' }, () => {
+    const response = new NextResponse(null, { status: 204 });
+    response.headers.set('Set-Cookie', sessionCookie(null));
+    return response;
+});
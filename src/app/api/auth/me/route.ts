@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server';
+import { mockDb } from '@/services/mockDb';
+import { toDisplaySettings } from '@/services/settings';
+import { apiHandler } from '@/lib/apiHandler';
+
+export const GET = apiHandler({ permission: 'authenticated' }, ({ auth }) => {
+    const organization = mockDb.getOrganizationById(auth.organizationId);
+    // Pages render prices and units with the company settings
+    return NextResponse.json({
+        ...auth.user,
+        permissions: auth.permissions,
+        organization: organization && { id: organization.id, name: organization.name, slug: organization.slug },
+        settings: toDisplaySettings(mockDb.getSettings()),
+    });
+});
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { mockDb } from '@/services/mockDb';
+import { authorizeExhibition, PERMISSIONS } from '@/middleware/rbac';
+import { apiHandler } from '@/lib/apiHandler';
+import { NotFoundError } from '@/lib/errors';
+
+// Revoking an invitation also ends the supplier's right to submit; its users stay on the team
+export const DELETE = apiHandler({ permission: PERMISSIONS.EXHIBITION_UPDATE }, ({ params, auth }) => {
+    const exhibition = mockDb.findExhibition(params.id);
+    if (!exhibition) {
+        throw new NotFoundError('Exhibition', params.id);
+    }
+    authorizeExhibition(auth, exhibition.id, 'manage');
+
+    const invitation = mockDb.getInvitationById(params.invitationId);
+    if (!invitation || invitation.exhibitionId !== exhibition.id) {
+        throw new NotFoundError('Invitation', params.invitationId);
+    }
+
+    mockDb.removeSupplierInvitation(invitation.id);
+    return NextResponse.json({ message: 'Invitation revoked' });
+});
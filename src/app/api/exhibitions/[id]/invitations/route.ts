@@ -0,0 +1,80 @@
+import { NextResponse } from 'next/server';
+import { mockDb } from '@/services/mockDb';
+import { createSecretToken, hashSecretToken } from '@/services/auth';
+import { INVITATION_TTL_DAYS, toDeadline, toInvitationView } from '@/services/invitations';
+import { authorizeExhibition, getActingUserId, getSupplierScope, PERMISSIONS } from '@/middleware/rbac';
+import { apiHandler } from '@/lib/apiHandler';
+import { ConflictError, NotFoundError, ValidationError } from '@/lib/errors';
+import { invitationCreateSchema } from '@/lib/schemas';
+
+export const GET = apiHandler({ permission: PERMISSIONS.EXHIBITION_READ }, ({ params, auth }) => {
+    const exhibition = mockDb.findExhibition(params.id);
+    if (!exhibition) {
+        throw new NotFoundError('Exhibition', params.id);
+    }
+    authorizeExhibition(auth, exhibition.id, 'view');
+
+    // Supplier users do not get to see which other suppliers were invited
+    const supplierId = getSupplierScope(auth);
+    const invitations = mockDb
+        .getInvitationsByExhibitionId(exhibition.id)
+        .filter((invitation) => !supplierId || invitation.supplierId === supplierId);
+
+    const now = new Date();
+    return NextResponse.json(invitations.map((invitation) => toInvitationView(invitation, now)));
+});
+
+export const POST = apiHandler(
+    { permission: PERMISSIONS.EXHIBITION_UPDATE, body: invitationCreateSchema },
+    ({ params, body, auth }) => {
+        const exhibition = mockDb.findExhibition(params.id);
+        if (!exhibition) {
+            throw new NotFoundError('Exhibition', params.id);
+        }
+        authorizeExhibition(auth, exhibition.id, 'manage');
+
+        const supplier = mockDb.getSupplierById(body.supplierId);
+        if (!supplier) {
+            throw new ValidationError([{ path: 'supplierId', message: `Unknown supplier "${body.supplierId}"` }]);
+        }
+        const existing = mockDb.getSupplierInvitation(exhibition.id, supplier.id);
+        if (existing) {
+            throw new ConflictError(`${supplier.companyName} has already been invited to this exhibition`, {
+                field: 'supplierId',
+                id: existing.id,
+            });
+        }
+
+        const now = new Date();
+        const deadline = toDeadline(body.deadline);
+        if (Date.parse(deadline) <= now.getTime()) {
+            throw new ValidationError([{ path: 'deadline', message: 'Must be in the future' }]);
+        }
+        // The link lasts INVITATION_TTL_DAYS by default, but never beyond the deadline
+        const defaultExpiry = new Date(now.getTime() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString();
+        const expiresAt = body.expiresAt
+            ? toDeadline(body.expiresAt)
+            : new Date(Math.min(Date.parse(defaultExpiry), Date.parse(deadline))).toISOString();
+        if (Date.parse(expiresAt) <= now.getTime()) {
+            throw new ValidationError([{ path: 'expiresAt', message: 'Must be in the future' }]);
+        }
+        if (Date.parse(expiresAt) > Date.parse(deadline)) {
+            throw new ValidationError([{ path: 'expiresAt', message: 'Must not be after the deadline' }]);
+        }
+
+        // Only the hash is stored, so the link can be shown this once
+        const token = createSecretToken();
+        const createdInvitation = mockDb.addSupplierInvitation({
+            id: mockDb.generateId('supplierInvitations'),
+            exhibitionId: exhibition.id,
+            supplierId: supplier.id,
+            email: body.email,
+            tokenHash: hashSecretToken(token),
+            expiresAt,
+            deadline,
+            invitedBy: getActingUserId(auth),
+            createdAt: now.toISOString(),
+        });
+        return NextResponse.json({ ...toInvitationView(createdInvitation, now), token }, { status: 201 });
+    }
+);
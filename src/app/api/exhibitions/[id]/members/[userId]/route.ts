@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import { mockDb, ExhibitionMember } from '@/services/mockDb';
+import { AuthContext, authorizeExhibition, PERMISSIONS } from '@/middleware/rbac';
+import { apiHandler } from '@/lib/apiHandler';
+import { BusinessRuleError, NotFoundError } from '@/lib/errors';
+import { exhibitionMemberUpdateSchema } from '@/lib/schemas';
+
+/**
+ * The membership addressed by the route, once the caller may manage the team
+ */
+function findManagedMember(params: Record<string, string>, auth: AuthContext): ExhibitionMember {
+    const exhibition = mockDb.findExhibition(params.id);
+    if (!exhibition) {
+        throw new NotFoundError('Exhibition', params.id);
+    }
+    authorizeExhibition(auth, exhibition.id, 'manage');
+
+    const member = mockDb.getExhibitionMember(exhibition.id, params.userId);
+    if (!member) {
+        throw new NotFoundError('Exhibition member', params.userId);
+    }
+    return member;
+}
+
+/**
+ * Refuse changes that would leave the team without a lead
+ */
+function assertLeadRemains(member: ExhibitionMember) {
+    const otherLeads = mockDb
+        .getExhibitionMembers(member.exhibitionId)
+        .filter((m) => m.role === 'LEAD' && m.id !== member.id);
+    if (member.role === 'LEAD' && otherLeads.length === 0) {
+        throw new BusinessRuleError('An exhibition team needs at least one lead', { userId: member.userId });
+    }
+}
+
+export const PUT = apiHandler(
+    { permission: PERMISSIONS.EXHIBITION_UPDATE, body: exhibitionMemberUpdateSchema },
+    ({ params, body, auth }) => {
+        const member = findManagedMember(params, auth);
+        if (body.role !== 'LEAD') {
+            assertLeadRemains(member);
+        }
+
+        const updatedMember = mockDb.updateExhibitionMember(member.id, { role: body.role });
+        return NextResponse.json(updatedMember);
+    }
+);
+
+export const DELETE = apiHandler({ permission: PERMISSIONS.EXHIBITION_UPDATE }, ({ params, auth }) => {
+    const member = findManagedMember(params, auth);
+    assertLeadRemains(member);
+
+    mockDb.removeExhibitionMember(member.id);
+    return NextResponse.json({ message: 'Member removed' });
+});
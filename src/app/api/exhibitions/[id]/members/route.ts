@@ -0,0 +1,55 @@
+import { NextResponse } from 'next/server';
+import { mockDb } from '@/services/mockDb';
+import { authorizeExhibition, PERMISSIONS } from '@/middleware/rbac';
+import { apiHandler } from '@/lib/apiHandler';
+import { ConflictError, NotFoundError, ValidationError } from '@/lib/errors';
+import { exhibitionMemberCreateSchema } from '@/lib/schemas';
+
+export const GET = apiHandler({ permission: PERMISSIONS.EXHIBITION_READ }, ({ params, auth }) => {
+    const exhibition = mockDb.findExhibition(params.id);
+    if (!exhibition) {
+        throw new NotFoundError('Exhibition', params.id);
+    }
+    authorizeExhibition(auth, exhibition.id, 'view');
+
+    // Enrich with user details
+    const members = mockDb.getExhibitionMembers(exhibition.id).map((member) => {
+        const user = mockDb.getUserById(member.userId);
+        return {
+            ...member,
+            username: user?.username,
+            fullName: user?.fullName,
+        };
+    });
+
+    return NextResponse.json(members);
+});
+
+export const POST = apiHandler(
+    { permission: PERMISSIONS.EXHIBITION_UPDATE, body: exhibitionMemberCreateSchema, idempotent: true },
+    ({ params, body, auth }) => {
+        const exhibition = mockDb.findExhibition(params.id);
+        if (!exhibition) {
+            throw new NotFoundError('Exhibition', params.id);
+        }
+        authorizeExhibition(auth, exhibition.id, 'manage');
+
+        // Accepts the user id or username
+        const user = mockDb.getUserById(body.userId) ?? mockDb.getUserByUsername(body.userId);
+        if (!user) {
+            throw new ValidationError([{ path: 'userId', message: `Unknown user "${body.userId}"` }]);
+        }
+        if (mockDb.getExhibitionMember(exhibition.id, user.id)) {
+            throw new ConflictError(`${user.username} is already on this exhibition team`, { field: 'userId' });
+        }
+
+        const createdMember = mockDb.addExhibitionMember({
+            id: mockDb.generateId('exhibitionMembers'),
+            exhibitionId: exhibition.id,
+            userId: user.id,
+            role: body.role,
+            createdAt: new Date().toISOString(),
+        });
+        return NextResponse.json(createdMember, { status: 201 });
+    }
+);
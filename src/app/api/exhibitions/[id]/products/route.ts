@@ -1,20 +1,20 @@
 import { NextResponse } from 'next/server';
 import { mockDb, ExhibitionProduct } from '@/services/mockDb';
-import { requireRoles, PERMISSIONS } from '@/middleware/rbac';
-
-export async function GET(
-    request: Request,
-    { params }: { params: Promise<{ id: string }> }
-) {
-    const authResult = requireRoles(request, PERMISSIONS.EXHIBITION_READ);
-    if (!authResult.authorized) {
-        return authResult.response;
+import { initialReviewStatus } from '@/services/settings';
+import { authorizeExhibition, getSupplierScope, PERMISSIONS } from '@/middleware/rbac';
+import { apiHandler } from '@/lib/apiHandler';
+import { NotFoundError } from '@/lib/errors';
+import { exhibitionProductsAddSchema } from '@/lib/schemas';
+
+export const GET = apiHandler({ permission: PERMISSIONS.EXHIBITION_READ }, ({ params, auth }) => {
+    const exhibition = mockDb.findExhibition(params.id);
+    if (!exhibition) {
+        throw new NotFoundError('Exhibition', params.id);
     }
-
-    const { id: exhibitionId } = await params;
+    authorizeExhibition(auth, exhibition.id, 'view');
 
     // Get all products for this exhibition
-    const exhibitionProducts = mockDb.getExhibitionProductsByExhibitionId(exhibitionId);
+    const exhibitionProducts = mockDb.getExhibitionProductsByExhibitionId(exhibition.id);
 
     // Enrich with product details
     const enrichedProducts = exhibitionProducts.map(ep => {
@@ -28,40 +28,33 @@ export async function GET(
     });
 
     return NextResponse.json(enrichedProducts);
-}
-
-export async function POST(
-    request: Request,
-    { params }: { params: Promise<{ id: string }> }
-) {
-    const authResult = requireRoles(request, PERMISSIONS.EXHIBITION_CREATE);
-    if (!authResult.authorized) {
-        return authResult.response;
-    }
-
-    try {
-        const { id: exhibitionId } = await params;
-        const body = await request.json();
-        const { products } = body;
+});
+
+export const POST = apiHandler(
+    { permission: PERMISSIONS.EXHIBITION_CREATE, body: exhibitionProductsAddSchema, idempotent: true },
+    ({ params, body, auth }) => {
+        const exhibition = mockDb.findExhibition(params.id);
+        if (!exhibition) {
+            throw new NotFoundError('Exhibition', params.id);
+        }
+        authorizeExhibition(auth, exhibition.id, 'edit');
 
-        if (products && Array.isArray(products)) {
-            products.forEach((p: any) => {
+        mockDb.transaction((tx) => {
+            body.products.forEach((p) => {
                 const newExhibitionProduct: ExhibitionProduct = {
-                    id: Math.random().toString(36).substr(2, 9),
-                    exhibitionId: exhibitionId,
+                    id: tx.generateId('exhibitionProducts'),
+                    exhibitionId: exhibition.id,
                     productId: p.productId,
                     quantity: p.quantity,
                     price: p.price,
-                    status: 'pending',
-                    supplierId: 'current-user',
+                    status: initialReviewStatus(mockDb.getSettings().approvalPolicy.exhibitionProducts),
+                    // Set when a supplier user offers the product
+                    supplierId: getSupplierScope(auth),
                 };
-                mockDb.addExhibitionProduct(newExhibitionProduct);
+                tx.addExhibitionProduct(newExhibitionProduct);
             });
-        }
+        });
 
         return NextResponse.json({ success: true }, { status: 201 });
-    } catch (error) {
-        console.error('Error adding exhibition products:', error);
-        return NextResponse.json({ error: 'Failed to add products' }, { status: 500 });
     }
-}
+);
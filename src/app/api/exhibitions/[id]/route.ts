@@ -0,0 +1,15 @@
+import { mockDb } from '@/services/mockDb';
+import { authorizeExhibition, PERMISSIONS } from '@/middleware/rbac';
+import { jsonWithETag } from '@/lib/etag';
+import { apiHandler } from '@/lib/apiHandler';
+import { NotFoundError } from '@/lib/errors';
+
+export const GET = apiHandler({ permission: PERMISSIONS.EXHIBITION_READ }, ({ params, auth }) => {
+    // Accepts the exhibition id or its code
+    const exhibition = mockDb.findExhibition(params.id);
+    if (!exhibition) {
+        throw new NotFoundError('Exhibition', params.id);
+    }
+    authorizeExhibition(auth, exhibition.id, 'view');
+    return jsonWithETag(exhibition, exhibition);
+});
@@ -1,19 +1,19 @@
 import { NextResponse } from 'next/server';
 import { mockDb } from '@/services/mockDb';
-import { requireRoles, PERMISSIONS } from '@/middleware/rbac';
+import { authorizeExhibition, canAccessExhibition, PERMISSIONS } from '@/middleware/rbac';
+import { apiHandler } from '@/lib/apiHandler';
+import { NotFoundError } from '@/lib/errors';
+import { exhibitionProductReviewSchema } from '@/lib/schemas';
 
-export async function GET(request: Request) {
-    const authResult = requireRoles(request, PERMISSIONS.APPROVAL_READ);
-    if (!authResult.authorized) {
-        return authResult.response;
-    }
-
-    // Get all pending exhibition products
-    const pendingProducts = mockDb.getPendingExhibitionProducts();
+export const GET = apiHandler({ permission: PERMISSIONS.APPROVAL_READ }, ({ auth }) => {
+    // Pending exhibition products of the exhibitions the caller can see
+    const pendingProducts = mockDb
+        .getPendingExhibitionProducts()
+        .filter((ep) => canAccessExhibition(auth, ep.exhibitionId, 'view'));
 
     // Enrich with exhibition and product details
     const enrichedPendingProducts = pendingProducts.map(ep => {
-        const exhibition = mockDb.getExhibitionByExhibitionId(ep.exhibitionId);
+        const exhibition = mockDb.getExhibitionById(ep.exhibitionId);
         const product = mockDb.getProductById(ep.productId);
         return {
             ...ep,
@@ -24,31 +24,25 @@ export async function GET(request: Request) {
     });
 
     return NextResponse.json(enrichedPendingProducts);
-}
+});
 
-export async function POST(request: Request) {
-    const authResult = requireRoles(request, PERMISSIONS.APPROVAL_APPROVE);
-    if (!authResult.authorized) {
-        return authResult.response;
-    }
-
-    try {
-        const body = await request.json();
+export const POST = apiHandler(
+    { permission: PERMISSIONS.APPROVAL_APPROVE, body: exhibitionProductReviewSchema },
+    ({ body, auth }) => {
         const { id, status } = body;
 
-        if (!['approved', 'rejected'].includes(status)) {
-            return NextResponse.json({ error: 'Invalid status' }, { status: 400 });
+        const exhibitionProduct = mockDb.getExhibitionProductById(id);
+        if (!exhibitionProduct) {
+            throw new NotFoundError('Exhibition product', id);
         }
+        // Reviewing needs the approver role on this exhibition's team
+        authorizeExhibition(auth, exhibitionProduct.exhibitionId, 'approve');
 
         const updatedProduct = mockDb.updateExhibitionProduct(id, { status });
-
         if (!updatedProduct) {
-            return NextResponse.json({ error: 'Product not found' }, { status: 404 });
+            throw new NotFoundError('Exhibition product', id);
         }
 
         return NextResponse.json(updatedProduct);
-    } catch (error) {
-        console.error('Error updating exhibition product status:', error);
-        return NextResponse.json({ error: 'Failed to update status' }, { status: 500 });
     }
-}
+);
@@ -1,59 +1,65 @@
 import { NextResponse } from 'next/server';
-import { mockDb, Exhibition, ExhibitionProduct } from '@/services/mockDb';
-import { requireRoles, PERMISSIONS } from '@/middleware/rbac';
+import { mockDb, Exhibition, ExhibitionProduct, NewRecord } from '@/services/mockDb';
+import { initialReviewStatus } from '@/services/settings';
+import { getActingUserId, getExhibitionScope, getSupplierScope, PERMISSIONS } from '@/middleware/rbac';
+import { apiHandler } from '@/lib/apiHandler';
+import { exhibitionCreateSchema, exhibitionListQuerySchema } from '@/lib/schemas';
+import { toQuery } from '@/services/query';
 
-export async function GET(request: Request) {
-    const authResult = requireRoles(request, PERMISSIONS.EXHIBITION_READ);
-    if (!authResult.authorized) {
-        return authResult.response;
-    }
-
-    const exhibitions = mockDb.getExhibitions();
-    return NextResponse.json(exhibitions);
-}
-
-export async function POST(request: Request) {
-    const authResult = requireRoles(request, PERMISSIONS.EXHIBITION_CREATE);
-    if (!authResult.authorized) {
-        return authResult.response;
-    }
+export const GET = apiHandler({ permission: PERMISSIONS.EXHIBITION_READ, query: exhibitionListQuerySchema }, ({ query, auth }) => {
+    // Only exhibitions whose team the caller is on
+    return NextResponse.json(mockDb.queryExhibitions(toQuery(query), getExhibitionScope(auth)));
+});
 
-    try {
-        const body = await request.json();
+export const POST = apiHandler(
+    { permission: PERMISSIONS.EXHIBITION_CREATE, body: exhibitionCreateSchema, idempotent: true },
+    ({ body, auth }) => {
         const { name, description, startDate, endDate, products } = body;
 
-        const exhibitionId = `EX-${Math.floor(Math.random() * 10000).toString().padStart(4, '0')}`;
+        // Exhibition, its first team member and its products are written as one unit
+        const createdExhibition = mockDb.transaction((tx) => {
+            const newExhibition: NewRecord<Exhibition> = {
+                id: tx.generateId('exhibitions'),
+                exhibitionId: tx.nextDocumentNumber('exhibition'),
+                name,
+                description,
+                startDate,
+                endDate,
+                status: 'PLANNING',
+            };
+            const created = tx.addExhibition(newExhibition);
 
-        const newExhibition: Exhibition = {
-            id: Math.random().toString(36).substr(2, 9),
-            exhibitionId,
-            name,
-            description,
-            startDate,
-            endDate,
-            status: 'PLANNING',
-        };
+            // The creator leads the new exhibition's team (API keys are not users and lead nothing)
+            const creatorId = getActingUserId(auth);
+            if (creatorId) {
+                tx.addExhibitionMember({
+                    id: tx.generateId('exhibitionMembers'),
+                    exhibitionId: created.id,
+                    userId: creatorId,
+                    role: 'LEAD',
+                    createdAt: new Date().toISOString(),
+                });
+            }
 
-        mockDb.addExhibition(newExhibition);
+            if (products) {
+                products.forEach((p) => {
+                    const newExhibitionProduct: ExhibitionProduct = {
+                        id: tx.generateId('exhibitionProducts'),
+                        exhibitionId: created.id,
+                        productId: p.productId,
+                        quantity: p.quantity,
+                        price: p.price,
+                        status: initialReviewStatus(mockDb.getSettings().approvalPolicy.exhibitionProducts),
+                        // Set when a supplier user offers the product
+                        supplierId: getSupplierScope(auth),
+                    };
+                    tx.addExhibitionProduct(newExhibitionProduct);
+                });
+            }
 
-        if (products && Array.isArray(products)) {
-            products.forEach((p: any) => {
-                const newExhibitionProduct: ExhibitionProduct = {
-                    id: Math.random().toString(36).substr(2, 9),
-                    exhibitionId: newExhibition.exhibitionId,
-                    productId: p.productId,
-                    quantity: p.quantity,
-                    price: p.price,
-                    status: 'pending',
-                    supplierId: 'current-user',
-                };
-                mockDb.addExhibitionProduct(newExhibitionProduct);
-            });
-        }
+            return created;
+        });
 
-        return NextResponse.json(newExhibition, { status: 201 });
-    } catch (error) {
-        console.error('Error creating exhibition:', error);
-        return NextResponse.json({ error: 'Failed to create exhibition' }, { status: 500 });
+        return NextResponse.json(createdExhibition, { status: 201 });
     }
-}
+);
@@ -0,0 +1,90 @@
+import { NextResponse } from 'next/server';
+import { mockDb } from '@/services/mockDb';
+import { createSessionToken, hashPassword, hashSecretToken, sessionCookie } from '@/services/auth';
+import { toInvitationView } from '@/services/invitations';
+import { setRequestActor, setRequestOrganization } from '@/services/requestContext';
+import { toAuthUser } from '@/middleware/rbac';
+import { apiHandler } from '@/lib/apiHandler';
+import { BusinessRuleError, ConflictError, NotFoundError, ValidationError } from '@/lib/errors';
+import { invitationAcceptSchema } from '@/lib/schemas';
+
+/**
+ * Accept an invitation: a signed-in user of the invited supplier accepts as
+ * themselves, anyone else creates the supplier's account and is signed in as it.
+ * Either way the user joins the exhibition team and may submit product lists.
+ */
+export const POST = apiHandler({ permission: 'public', body: invitationAcceptSchema }, ({ params, body, auth }) => {
+    const located = mockDb.locateInvitationByTokenHash(hashSecretToken(params.token));
+    if (!located) {
+        throw new NotFoundError('Invitation');
+    }
+    // The supplier account and team membership are created in the inviting organization
+    setRequestOrganization(located.organizationId);
+    const invitation = located.record;
+    if (invitation.acceptedAt) {
+        throw new ConflictError('This invitation has already been accepted', { acceptedAt: invitation.acceptedAt });
+    }
+    const now = new Date();
+    if (Date.parse(invitation.expiresAt) < now.getTime()) {
+        throw new BusinessRuleError('This invitation has expired; ask the exhibition team for a new one', {
+            expiresAt: invitation.expiresAt,
+        });
+    }
+
+    const signedInUser =
+        auth?.organizationId === located.organizationId && auth.user.supplierId === invitation.supplierId
+            ? mockDb.getUserById(auth.user.id)
+            : undefined;
+    const { account } = body;
+    if (!signedInUser) {
+        if (!account) {
+            throw new ValidationError([
+                { path: 'account', message: 'Required unless signed in as a user of the invited supplier' },
+            ]);
+        }
+        if (mockDb.locateUserByUsername(account.username)) {
+            throw new ConflictError(`Username "${account.username}" is already taken`, { field: 'account.username' });
+        }
+    }
+
+    // Attribute the acceptance (and the new account) to the supplier user
+    const userId = signedInUser?.id ?? mockDb.generateId('users');
+    setRequestActor({ id: userId, username: signedInUser?.username ?? account!.username });
+
+    const user = mockDb.transaction((tx) => {
+        const acceptingUser =
+            signedInUser ??
+            tx.addUser({
+                id: userId,
+                username: account!.username,
+                fullName: account!.fullName,
+                role: 'SUPPLIER',
+                active: true,
+                supplierId: invitation.supplierId,
+                passwordHash: hashPassword(account!.password),
+                passwordChangedAt: now.toISOString(),
+            });
+
+        if (!tx.getExhibitionMember(invitation.exhibitionId, acceptingUser.id)) {
+            tx.addExhibitionMember({
+                id: tx.generateId('exhibitionMembers'),
+                exhibitionId: invitation.exhibitionId,
+                userId: acceptingUser.id,
+                role: 'MEMBER',
+                createdAt: now.toISOString(),
+            });
+        }
+        tx.updateSupplierInvitation(invitation.id, { acceptedAt: now.toISOString(), acceptedBy: acceptingUser.id });
+        return acceptingUser;
+    });
+
+    const accepted = mockDb.getInvitationById(invitation.id)!;
+    const response = NextResponse.json(
+        { user: toAuthUser(user), invitation: toInvitationView(accepted, now) },
+        { status: signedInUser ? 200 : 201 }
+    );
+    if (!signedInUser) {
+        response.headers.set('Set-Cookie', sessionCookie(createSessionToken(user.id).token));
+    }
+    return response;
+});
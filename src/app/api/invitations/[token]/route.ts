@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { mockDb } from '@/services/mockDb';
+import { hashSecretToken } from '@/services/auth';
+import { setRequestOrganization } from '@/services/requestContext';
+import { apiHandler } from '@/lib/apiHandler';
+import { NotFoundError } from '@/lib/errors';
+
+// Public: the token in the link is the credential, so only its holder learns what it is for
+export const GET = apiHandler({ permission: 'public' }, ({ params, auth }) => {
+    const located = mockDb.locateInvitationByTokenHash(hashSecretToken(params.token));
+    if (!located) {
+        throw new NotFoundError('Invitation');
+    }
+    // The exhibition and supplier belong to the inviting organization, whoever the caller is
+    setRequestOrganization(located.organizationId);
+    const invitation = located.record;
+    const exhibition = mockDb.getExhibitionById(invitation.exhibitionId);
+    const supplier = mockDb.getSupplierById(invitation.supplierId);
+
+    return NextResponse.json({
+        id: invitation.id,
+        exhibition: exhibition && {
+            name: exhibition.name,
+            exhibitionId: exhibition.exhibitionId,
+            startDate: exhibition.startDate,
+            endDate: exhibition.endDate,
+        },
+        supplier: supplier && { companyName: supplier.companyName },
+        email: invitation.email,
+        expiresAt: invitation.expiresAt,
+        deadline: invitation.deadline,
+        status: mockDb.getInvitationStatus(invitation),
+        // Set when the caller can accept as themselves instead of creating an account
+        signedInAs:
+            auth?.organizationId === located.organizationId && auth.user.supplierId === invitation.supplierId
+                ? auth.user.username
+                : null,
+    });
+});
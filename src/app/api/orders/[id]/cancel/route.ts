@@ -0,0 +1,3 @@
+import { orderTransitionHandler } from '@/lib/orderTransitions';
+
+export const POST = orderTransitionHandler('cancel');
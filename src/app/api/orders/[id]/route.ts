@@ -0,0 +1,95 @@
+import { mockDb, Order } from '@/services/mockDb';
+import { availableTransitions, orderForSupplier, orderLineStatus } from '@/services/orderWorkflow';
+import { isHeld } from '@/services/reservations';
+import { AuthContext, authorizeExhibition, getSupplierScope, PERMISSIONS } from '@/middleware/rbac';
+import { jsonWithETag } from '@/lib/etag';
+import { apiHandler } from '@/lib/apiHandler';
+import { BusinessRuleError, ForbiddenError, NotFoundError, ValidationError } from '@/lib/errors';
+import { orderUpdateSchema } from '@/lib/schemas';
+
+function findOrder(id: string, auth: AuthContext, access: 'view' | 'edit'): Order {
+    const order = mockDb.getOrderById(id);
+    if (!order) {
+        throw new NotFoundError('Order', id);
+    }
+    if (order.exhibitionId) {
+        authorizeExhibition(auth, order.exhibitionId, access);
+    }
+    return order;
+}
+
+export const GET = apiHandler({ permission: PERMISSIONS.ORDER_READ }, ({ params, auth }) => {
+    const order = findOrder(params.id, auth, 'view');
+
+    // Supplier users only see the lines of their own product lists
+    const supplierId = getSupplierScope(auth);
+    const visible = supplierId ? orderForSupplier(order, supplierId, mockDb) : order;
+    if (!visible) {
+        throw new ForbiddenError('This order holds no lines of your supplier');
+    }
+
+    // Enrich lines with product details, where they stand and the stock held for them
+    const reservations = mockDb.getReservationsByOrderId(order.id).filter(isHeld);
+    const items = (visible.items ?? []).map((line) => {
+        const product = mockDb.getProductById(line.productId);
+        const reservation = reservations.find((r) => r.orderLineId === line.id);
+        return {
+            ...line,
+            status: orderLineStatus(line),
+            reserved: reservation?.quantity ?? 0,
+            shortfall: reservation?.shortfall ?? 0,
+            productName: product?.name,
+            productSKU: product?.sku ?? product?.id,
+            productUnit: product?.unit,
+            productImage: product?.image,
+            supplierName: line.supplierId && mockDb.getSupplierById(line.supplierId)?.companyName,
+        };
+    });
+
+    return jsonWithETag({ ...visible, items, availableTransitions: availableTransitions(order.status) }, order);
+});
+
+export const PUT = apiHandler(
+    { permission: PERMISSIONS.ORDER_UPDATE, body: orderUpdateSchema },
+    ({ params, body, auth, expectedVersion }) => {
+        const { items, version, ...fields } = body;
+        const order = findOrder(params.id, auth, 'edit');
+        // Orders are kept by staff; suppliers work on their product lists
+        if (getSupplierScope(auth)) {
+            throw new ForbiddenError('Supplier users cannot change orders');
+        }
+
+        const lineChanges = items && mockDb.orderLineChanges(order, items);
+        if (items) {
+            if (order.status !== 'DRAFT') {
+                throw new BusinessRuleError(`Order ${order.id} is ${order.status}; only draft orders can change their lines`, {
+                    id: order.id,
+                    status: order.status,
+                });
+            }
+            const unknown = items.findIndex((item) => item.id && !order.items?.some((line) => line.id === item.id));
+            if (unknown !== -1) {
+                throw new ValidationError([{ path: `items[${unknown}].id`, message: `Unknown line "${items[unknown].id}"` }]);
+            }
+            // Same rule as creating an order: only products approved for the exhibition,
+            // or kept on a line that came from an approved product list
+            const unapproved = order.exhibitionId
+                ? lineChanges?.items?.find((line) => !mockDb.isOrderLineApproved(order.exhibitionId!, line))
+                : undefined;
+            if (unapproved) {
+                const product = mockDb.getProductById(unapproved.productId);
+                throw new BusinessRuleError(
+                    `Product "${product?.name}" (ID: ${unapproved.productId}) is not approved for this exhibition`,
+                    { productId: unapproved.productId, exhibitionId: order.exhibitionId }
+                );
+            }
+        }
+
+        const updatedOrder = mockDb.updateOrder(
+            order.id,
+            { ...fields, ...lineChanges },
+            expectedVersion({ version })
+        )!;
+        return jsonWithETag(updatedOrder, updatedOrder);
+    }
+);
@@ -1,99 +1,98 @@
-
 import { NextResponse } from 'next/server';
-import { mockDb, Order } from '@/services/mockDb';
-import { requireRoles, PERMISSIONS } from '@/middleware/rbac';
-
-export async function GET(request: Request) {
-    const authResult = requireRoles(request, PERMISSIONS.ORDER_READ);
-    if (!authResult.authorized) {
-        return authResult.response;
-    }
-
-    // Get all exhibitions
-    const exhibitions = mockDb.getExhibitions();
+import { mockDb, Exhibition, NewOrder, Order } from '@/services/mockDb';
+import { orderForSupplier } from '@/services/orderWorkflow';
+import { authorizeExhibition, getExhibitionScope, getSupplierScope, PERMISSIONS } from '@/middleware/rbac';
+import { apiHandler } from '@/lib/apiHandler';
+import { BusinessRuleError, NotFoundError } from '@/lib/errors';
+import { exhibitionListQuerySchema, orderCreateSchema } from '@/lib/schemas';
+import { toQuery } from '@/services/query';
 
-    // Get all approved product lists
-    const allProductLists = mockDb.getProductLists();
-    const approvedLists = allProductLists.filter(pl => pl.status === 'approved');
+export const GET = apiHandler({ permission: PERMISSIONS.ORDER_READ, query: exhibitionListQuerySchema }, ({ query, auth }) => {
+    // One page of the caller's exhibitions (filtered and sorted like GET /api/exhibitions)
+    const page = mockDb.queryExhibitions(toQuery(query), getExhibitionScope(auth));
 
-    // Map approved lists to exhibitions
-    const exhibitionsWithOrders = exhibitions.map(exhibition => {
-        const exhibitionLists = approvedLists.filter(pl => pl.exhibitionId === exhibition.exhibitionId);
+    // Orders of the exhibitions on the page (supplier users only their own lines)
+    const supplierId = getSupplierScope(auth);
+    const exhibitionIds = new Set(page.items.map((exhibition) => exhibition.id));
+    const orders = mockDb
+        .getOrders()
+        .filter((order) => order.exhibitionId && exhibitionIds.has(order.exhibitionId))
+        .map((order) => (supplierId ? orderForSupplier(order, supplierId, mockDb) : order))
+        .filter((order): order is Order => order !== null);
 
-        // Calculate totals from all lists for this exhibition
-        let totalValue = 0;
-        let totalQuantity = 0;
-        const allItems: any[] = [];
-
-        exhibitionLists.forEach(list => {
-            totalQuantity += list.totalQuantity;
-            const items = mockDb.getProductListItemsByProductListId(list.id);
-            items.forEach(item => {
-                totalValue += (item.price || 0) * item.quantity;
-
-                // Enrich item details
-                const product = mockDb.getProductById(item.productId);
-                allItems.push({
-                    ...item,
-                    productName: product?.name,
-                    productImage: product?.image,
-                    productUnit: product?.unit,
-                    supplierId: list.supplierId,
-                });
-            });
-        });
+    const exhibitionsWithOrders = page.items.map(exhibition => {
+        const exhibitionOrders = orders.filter(order => order.exhibitionId === exhibition.id);
+        // Cancelled orders are listed but not counted
+        const counted = exhibitionOrders.filter(order => order.status !== 'CANCELLED');
+        // When the goods last left: the latest ship transition of any of its orders
+        const exportDate = exhibitionOrders
+            .flatMap(order => order.statusHistory.filter(change => change.transition === 'ship').map(change => change.at))
+            .sort()
+            .at(-1);
 
         return {
             ...exhibition,
-            orders: allItems,
-            totalValue,
-            totalQuantity,
-            status: exhibitionLists.length > 0 ? 'Active' : 'Pending',
+            orders: exhibitionOrders.map(({ id, orderNumber, status, quantity, orderValue, unit, expectedDelivery, createdAt }) => ({
+                id,
+                orderNumber,
+                status,
+                quantity,
+                orderValue,
+                unit,
+                expectedDelivery,
+                createdAt,
+            })),
+            totalValue: counted.reduce((sum, order) => sum + (order.orderValue ?? 0), 0),
+            totalQuantity: counted.reduce((sum, order) => sum + order.quantity, 0),
+            exportDate,
+            status: counted.length > 0 ? 'Active' : 'Pending',
         };
     });
 
-    return NextResponse.json(exhibitionsWithOrders);
-}
+    return NextResponse.json({ ...page, items: exhibitionsWithOrders });
+});
 
-export async function POST(request: Request) {
-    const authResult = requireRoles(request, PERMISSIONS.ORDER_CREATE);
-    if (!authResult.authorized) {
-        return authResult.response;
-    }
+export const POST = apiHandler({ permission: PERMISSIONS.ORDER_CREATE, body: orderCreateSchema, idempotent: true }, ({ body, auth }) => {
+    const { items } = body;
 
-    try {
-        const body = await request.json();
-        const { exhibitionId, items } = body;
+    // Accept either the exhibition id or its code, store the canonical id
+    let exhibition: Exhibition | undefined;
+    if (body.exhibitionId) {
+        exhibition = mockDb.findExhibition(body.exhibitionId);
+        if (!exhibition) {
+            throw new NotFoundError('Exhibition', body.exhibitionId);
+        }
+        authorizeExhibition(auth, exhibition.id, 'edit');
+    }
+    const exhibitionId = exhibition?.id;
 
-        // CRITICAL BUSINESS LOGIC: Validate that all products are approved for this exhibition
-        if (exhibitionId && items && Array.isArray(items)) {
-            for (const item of items) {
-                const isApproved = mockDb.isProductApprovedForExhibition(exhibitionId, item.productId);
-                if (!isApproved) {
-                    const product = mockDb.getProductById(item.productId);
-                    return NextResponse.json(
-                        { 
-                            error: 'Cannot create order with unapproved products',
-                            details: `Product "${product?.name}" (ID: ${item.productId}) is not approved for this exhibition`
-                        },
-                        { status: 400 }
-                    );
-                }
+    // CRITICAL BUSINESS LOGIC: Validate that all products are approved for this exhibition
+    if (exhibitionId && items) {
+        for (const item of items) {
+            const isApproved = mockDb.isProductApprovedForExhibition(exhibitionId, item.productId);
+            if (!isApproved) {
+                const product = mockDb.getProductById(item.productId);
+                throw new BusinessRuleError(
+                    `Product "${product?.name}" (ID: ${item.productId}) is not approved for this exhibition`,
+                    { productId: item.productId, exhibitionId }
+                );
             }
         }
+    }
 
-        const newOrder: Order = {
-            id: Math.floor(Math.random() * 10000).toString(),
+    // The order number is only consumed when the order is actually stored
+    const createdOrder = mockDb.transaction((tx) => {
+        // Lines and totals are built as when a draft's lines are replaced, never taken from the caller
+        const newOrder: NewOrder = {
+            id: tx.generateId('orders'),
+            orderNumber: tx.nextDocumentNumber('order'),
+            exhibition: exhibition?.name,
             exhibitionId,
+            expectedDelivery: body.expectedDelivery,
+            ...tx.orderLineChanges({ exhibitionId }, items ?? []),
             createdAt: new Date().toISOString(),
-            status: 'DRAFT',
-            ...body,
         };
-
-        const createdOrder = mockDb.addOrder(newOrder);
-        return NextResponse.json(createdOrder, { status: 201 });
-    } catch (error) {
-        console.error('Error creating order:', error);
-        return NextResponse.json({ error: 'Failed to create order' }, { status: 500 });
-    }
-}
+        return tx.addOrder(newOrder);
+    });
+    return NextResponse.json(createdOrder, { status: 201 });
+});
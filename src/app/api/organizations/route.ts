@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server';
+import { mockDb, User } from '@/services/mockDb';
+import { hashPassword, toPublicUser } from '@/services/auth';
+import { isOperatorOrganization, seedOrganizationData } from '@/services/organizations';
+import { ADMIN_ROLE } from '@/services/permissions';
+import { AuthContext, PERMISSIONS } from '@/middleware/rbac';
+import { apiHandler } from '@/lib/apiHandler';
+import { ConflictError, ForbiddenError } from '@/lib/errors';
+import { organizationCreateSchema } from '@/lib/schemas';
+
+// Every ADMIN holds organization:manage, but only the operator's admins onboard clients
+function assertOperator(auth: AuthContext) {
+    if (!isOperatorOrganization(auth.organizationId)) {
+        throw new ForbiddenError('Only the operator organization manages organizations');
+    }
+}
+
+export const GET = apiHandler({ permission: PERMISSIONS.ORGANIZATION_MANAGE }, ({ auth }) => {
+    assertOperator(auth);
+    return NextResponse.json(mockDb.getOrganizations());
+});
+
+export const POST = apiHandler(
+    { permission: PERMISSIONS.ORGANIZATION_MANAGE, body: organizationCreateSchema, idempotent: true },
+    ({ body, auth }) => {
+        assertOperator(auth);
+        const { admin: account, ...fields } = body;
+
+        if (mockDb.getOrganizationBySlug(fields.slug)) {
+            throw new ConflictError(`Organization "${fields.slug}" already exists`, { field: 'slug' });
+        }
+        if (mockDb.locateUserByUsername(account.username)) {
+            throw new ConflictError(`Username "${account.username}" is already taken`, { field: 'admin.username' });
+        }
+
+        const now = new Date().toISOString();
+        const admin: User = {
+            id: mockDb.generateId('users'),
+            username: account.username,
+            fullName: account.fullName,
+            role: ADMIN_ROLE,
+            active: true,
+            passwordHash: hashPassword(account.password),
+            passwordChangedAt: now,
+            version: 1,
+        };
+        const createdOrganization = mockDb.addOrganization(
+            { ...fields, id: mockDb.generateId('organizations'), createdAt: now },
+            seedOrganizationData(fields.name, admin)
+        );
+        return NextResponse.json({ ...createdOrganization, admin: toPublicUser(admin) }, { status: 201 });
+    }
+);
@@ -0,0 +1,11 @@
+import { NextResponse } from 'next/server';
+import { ALL_PERMISSIONS, PERMISSION_DESCRIPTIONS } from '@/services/permissions';
+import { PERMISSIONS } from '@/middleware/rbac';
+import { apiHandler } from '@/lib/apiHandler';
+
+// Every permission a role can be granted
+export const GET = apiHandler({ permission: PERMISSIONS.ROLE_READ }, () => {
+    return NextResponse.json(
+        ALL_PERMISSIONS.map((name) => ({ name, description: PERMISSION_DESCRIPTIONS[name] }))
+    );
+});
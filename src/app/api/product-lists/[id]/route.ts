@@ -1,21 +1,17 @@
-import { NextResponse } from 'next/server';
 import { mockDb, ProductList, ProductListItem } from '@/services/mockDb';
-import { requireRoles, PERMISSIONS } from '@/middleware/rbac';
+import { authorizeExhibition, authorizeSubmission, authorizeSupplier, getSupplierScope, PERMISSIONS } from '@/middleware/rbac';
+import { jsonWithETag } from '@/lib/etag';
+import { apiHandler } from '@/lib/apiHandler';
+import { BusinessRuleError, NotFoundError, ValidationError } from '@/lib/errors';
+import { productListUpdateSchema } from '@/lib/schemas';
 
-export async function GET(
-    request: Request,
-    props: { params: Promise<{ id: string }> }
-) {
-    const authResult = requireRoles(request, PERMISSIONS.ORDER_READ);
-    if (!authResult.authorized) {
-        return authResult.response;
-    }
-
-    const params = await props.params;
+export const GET = apiHandler({ permission: PERMISSIONS.ORDER_READ }, ({ params, auth }) => {
     const list = mockDb.getProductListById(params.id);
     if (!list) {
-        return NextResponse.json({ error: 'Product list not found' }, { status: 404 });
+        throw new NotFoundError('Product list', params.id);
     }
+    authorizeExhibition(auth, list.exhibitionId, 'view');
+    authorizeSupplier(auth, list.supplierId);
 
     const items = mockDb.getProductListItemsByProductListId(list.id);
 
@@ -25,64 +21,106 @@ export async function GET(
         return {
             ...item,
             productName: product?.name,
-            productSKU: product?.id,
+            productSKU: product?.sku ?? product?.id,
             productUnit: product?.unit,
             productImage: product?.image,
         };
     });
 
-    return NextResponse.json({ ...list, items: enrichedItems });
-}
-
-export async function PUT(
-    request: Request,
-    props: { params: Promise<{ id: string }> }
-) {
-    const authResult = requireRoles(request, PERMISSIONS.ORDER_UPDATE);
-    if (!authResult.authorized) {
-        return authResult.response;
-    }
+    return jsonWithETag({ ...list, items: enrichedItems }, list);
+});
 
-    const params = await props.params;
-    try {
-        const body = await request.json();
-        const { status, items } = body;
+export const PUT = apiHandler(
+    { permission: PERMISSIONS.ORDER_UPDATE, body: productListUpdateSchema },
+    ({ params, body, auth, expectedVersion }) => {
+        const { status, items, orderMode, version } = body;
+        const expected = expectedVersion({ version });
 
         const list = mockDb.getProductListById(params.id);
         if (!list) {
-            return NextResponse.json({ error: 'Product list not found' }, { status: 404 });
+            throw new NotFoundError('Product list', params.id);
         }
-
-        // Update status
+        // Reviewing (status) needs the approver role on the exhibition, changing items membership
         if (status) {
-            mockDb.updateProductList(list.id, { status });
+            authorizeExhibition(auth, list.exhibitionId, 'approve');
+        }
+        if (items || !status) {
+            authorizeExhibition(auth, list.exhibitionId, 'edit');
+        }
+        // Suppliers edit their own lists until they have been reviewed
+        authorizeSupplier(auth, list.supplierId);
+        if (getSupplierScope(auth) && list.status !== 'pending') {
+            throw new BusinessRuleError(`Product list ${list.id} has been ${list.status} and can no longer be changed`, {
+                id: list.id,
+                status: list.status,
+            });
+        }
+        authorizeSubmission(auth, list.exhibitionId);
+        if (items) {
+            // Items name products of the catalogue
+            const unknownProducts = items.flatMap((item, index) =>
+                mockDb.getProductById(item.productId)
+                    ? []
+                    : [{ path: `items[${index}].productId`, message: `Unknown product "${item.productId}"` }]
+            );
+            if (unknownProducts.length > 0) {
+                throw new ValidationError(unknownProducts);
+            }
+        }
+        // An ordered list stays as it was approved; its order is where lines change
+        const order = mockDb.getOrderByProductListId(list.id);
+        if (order && (items || (status && status !== list.status))) {
+            throw new BusinessRuleError(
+                `Product list ${list.id} has been ordered (${order.orderNumber}) and can no longer be changed`,
+                { id: list.id, orderId: order.id, orderStatus: order.status }
+            );
         }
 
-        // Update items if provided
-        if (items && Array.isArray(items)) {
-            // Calculate new total quantity
-            const totalQuantity = items.reduce((sum: number, item: any) => sum + item.quantity, 0);
-            mockDb.updateProductList(list.id, { totalQuantity });
+        // Status, total, item replacement and the order of an approved list are applied as one unit
+        const { updatedList, createdOrder } = mockDb.transaction((tx) => {
+            const updates: Partial<ProductList> = {};
 
-            // Remove old items
-            mockDb.deleteProductListItemsByProductListId(list.id);
+            // Update status
+            if (status) {
+                updates.status = status;
+            }
 
-            // Add new items
-            items.forEach((item: any) => {
-                const newItem: ProductListItem = {
-                    id: Math.random().toString(36).substr(2, 9),
-                    productListId: list.id,
-                    productId: item.productId,
-                    quantity: item.quantity,
-                    price: item.price || 0,
-                };
-                mockDb.addProductListItem(newItem);
-            });
-        }
+            // Update items if provided
+            if (items) {
+                // Calculate new total quantity
+                updates.totalQuantity = items.reduce((sum, item) => sum + item.quantity, 0);
+
+                // Remove old items
+                tx.deleteProductListItemsByProductListId(list.id);
+
+                // Add new items
+                items.forEach((item) => {
+                    const newItem: ProductListItem = {
+                        id: tx.generateId('productListItems'),
+                        productListId: list.id,
+                        productId: item.productId,
+                        quantity: item.quantity,
+                        price: item.price || 0,
+                    };
+                    tx.addProductListItem(newItem);
+                });
+            }
+
+            // A single versioned write covers the list and its items
+            const updated = tx.updateProductList(list.id, updates, expected)!;
+
+            // Approving orders the list's items at their approved prices
+            const approved = status === 'approved' && list.status !== 'approved';
+            return { updatedList: updated, createdOrder: approved ? tx.orderProductList(list.id, orderMode) : null };
+        });
 
-        return NextResponse.json({ success: true });
-    } catch (error) {
-        console.error('Error updating product list:', error);
-        return NextResponse.json({ error: 'Failed to update product list' }, { status: 500 });
+        return jsonWithETag(
+            {
+                success: true,
+                version: updatedList.version,
+                ...(createdOrder && { orderId: createdOrder.id, orderNumber: createdOrder.orderNumber }),
+            },
+            updatedList
+        );
     }
-}
+);
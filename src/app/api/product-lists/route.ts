@@ -1,66 +1,98 @@
 import { NextResponse } from 'next/server';
-import { mockDb, ProductList, ProductListItem } from '@/services/mockDb';
-import { requireRoles, PERMISSIONS } from '@/middleware/rbac';
-
-export async function GET(request: Request) {
-    const authResult = requireRoles(request, PERMISSIONS.ORDER_READ);
-    if (!authResult.authorized) {
-        return authResult.response;
-    }
-
-    const { searchParams } = new URL(request.url);
-    const exhibitionId = searchParams.get('exhibitionId');
-
-    let lists = mockDb.getProductLists();
+import { mockDb, NewRecord, ProductList, ProductListItem } from '@/services/mockDb';
+import { initialReviewStatus } from '@/services/settings';
+import {
+    authorizeExhibition,
+    authorizeSubmission,
+    authorizeSupplier,
+    getExhibitionScope,
+    getSupplierScope,
+    PERMISSIONS,
+} from '@/middleware/rbac';
+import { apiHandler } from '@/lib/apiHandler';
+import { NotFoundError, ValidationError } from '@/lib/errors';
+import { productListCreateSchema, productListListQuerySchema } from '@/lib/schemas';
+import { toQuery } from '@/services/query';
 
+export const GET = apiHandler({ permission: PERMISSIONS.ORDER_READ, query: productListListQuerySchema }, ({ query, auth }) => {
+    // exhibitionId accepts the exhibition id or its code; asking for a foreign exhibition is refused
+    const exhibitionId = query.exhibitionId && mockDb.resolveExhibitionId(query.exhibitionId);
     if (exhibitionId) {
-        lists = lists.filter(l => l.exhibitionId === exhibitionId);
+        authorizeExhibition(auth, exhibitionId, 'view');
     }
+    // Supplier users only ever see their own supplier's lists
+    const supplierId = getSupplierScope(auth);
+    const filter = supplierId ? { ...query, supplierId: [supplierId] } : query;
+    // Without a filter, lists of exhibitions the caller is not on are left out
+    return NextResponse.json(mockDb.queryProductLists(toQuery(filter), getExhibitionScope(auth)));
+});
 
-    return NextResponse.json(lists);
-}
-
-export async function POST(request: Request) {
-    const authResult = requireRoles(request, PERMISSIONS.ORDER_CREATE);
-    if (!authResult.authorized) {
-        return authResult.response;
-    }
+export const POST = apiHandler(
+    { permission: PERMISSIONS.ORDER_CREATE, body: productListCreateSchema, idempotent: true },
+    ({ body, auth }) => {
+        const { items } = body;
 
-    try {
-        const body = await request.json();
-        const { exhibitionId, supplierId, items } = body;
+        // Supplier users submit for their own supplier, staff name the supplier
+        const supplierId = body.supplierId ?? getSupplierScope(auth);
+        if (!supplierId) {
+            throw new ValidationError([{ path: 'supplierId', message: 'Required' }]);
+        }
+        authorizeSupplier(auth, supplierId);
+        if (!mockDb.getSupplierById(supplierId)) {
+            throw new ValidationError([{ path: 'supplierId', message: `Unknown supplier "${supplierId}"` }]);
+        }
 
-        if (!exhibitionId || !supplierId || !items || !Array.isArray(items)) {
-            return NextResponse.json({ error: 'Invalid input' }, { status: 400 });
+        // Accept either the exhibition id or its code, store the canonical id
+        const exhibitionId = mockDb.resolveExhibitionId(body.exhibitionId);
+        if (!exhibitionId) {
+            throw new NotFoundError('Exhibition', body.exhibitionId);
+        }
+        authorizeExhibition(auth, exhibitionId, 'edit');
+        // Supplier users need an accepted invitation whose deadline has not passed
+        authorizeSubmission(auth, exhibitionId);
+        // Items name products of the catalogue
+        const unknownProducts = items.flatMap((item, index) =>
+            mockDb.getProductById(item.productId)
+                ? []
+                : [{ path: `items[${index}].productId`, message: `Unknown product "${item.productId}"` }]
+        );
+        if (unknownProducts.length > 0) {
+            throw new ValidationError(unknownProducts);
         }
 
-        const totalQuantity = items.reduce((sum: number, item: any) => sum + item.quantity, 0);
+        const totalQuantity = items.reduce((sum, item) => sum + item.quantity, 0);
 
-        const newProductList: ProductList = {
-            id: Math.random().toString(36).substr(2, 9),
+        const newProductList: NewRecord<ProductList> = {
+            id: mockDb.generateId('productLists'),
             exhibitionId,
             supplierId,
-            status: 'pending',
+            status: initialReviewStatus(mockDb.getSettings().approvalPolicy.productLists),
             createdAt: new Date().toISOString(),
             totalQuantity,
         };
 
-        mockDb.addProductList(newProductList);
+        // List and items are written as one unit so a failure leaves nothing behind
+        const createdList = mockDb.transaction((tx) => {
+            const created = tx.addProductList(newProductList);
+
+            items.forEach((item) => {
+                const newItem: ProductListItem = {
+                    id: tx.generateId('productListItems'),
+                    productListId: newProductList.id,
+                    productId: item.productId,
+                    quantity: item.quantity,
+                    price: item.price || 0,
+                };
+                tx.addProductListItem(newItem);
+            });
 
-        items.forEach((item: any) => {
-            const newItem: ProductListItem = {
-                id: Math.random().toString(36).substr(2, 9),
-                productListId: newProductList.id,
-                productId: item.productId,
-                quantity: item.quantity,
-                price: item.price || 0,
-            };
-            mockDb.addProductListItem(newItem);
+            // Lists approved on submission (approval policy 'auto') are ordered right away
+            if (created.status === 'approved') {
+                tx.orderProductList(created.id);
+            }
+            return created;
         });
 
-        return NextResponse.json(newProductList, { status: 201 });
-    } catch (error) {
-        console.error('Error creating product list:', error);
-        return NextResponse.json({ error: 'Failed to create product list' }, { status: 500 });
+        return NextResponse.json(createdList, { status: 201 });
     }
-}
+);
@@ -1,59 +1,50 @@
 import { NextResponse } from 'next/server';
 import { mockDb } from '@/services/mockDb';
-import { requireRoles, PERMISSIONS } from '@/middleware/rbac';
+import { PERMISSIONS } from '@/middleware/rbac';
+import { jsonWithETag } from '@/lib/etag';
+import { apiHandler } from '@/lib/apiHandler';
+import { ConflictError, NotFoundError, ValidationError } from '@/lib/errors';
+import { productUpdateSchema } from '@/lib/schemas';
 
-export async function GET(
-    request: Request,
-    { params }: { params: Promise<{ id: string }> }
-) {
-    const authResult = requireRoles(request, PERMISSIONS.PRODUCT_READ);
-    if (!authResult.authorized) {
-        return authResult.response;
-    }
-
-    const id = (await params).id;
-    const product = mockDb.getProductById(id);
+export const GET = apiHandler({ permission: PERMISSIONS.PRODUCT_READ }, ({ params }) => {
+    const product = mockDb.getProductById(params.id);
     if (!product) {
-        return NextResponse.json({ error: 'Product not found' }, { status: 404 });
+        throw new NotFoundError('Product', params.id);
     }
-    return NextResponse.json(product);
-}
+    return jsonWithETag(product, product);
+});
 
-export async function PUT(
-    request: Request,
-    { params }: { params: Promise<{ id: string }> }
-) {
-    const authResult = requireRoles(request, PERMISSIONS.PRODUCT_UPDATE);
-    if (!authResult.authorized) {
-        return authResult.response;
-    }
+export const PUT = apiHandler(
+    { permission: PERMISSIONS.PRODUCT_UPDATE, body: productUpdateSchema },
+    ({ params, body, expectedVersion }) => {
+        const { version, ...updates } = body;
+        const expected = expectedVersion({ version });
 
-    try {
-        const id = (await params).id;
-        const body = await request.json();
-        const updatedProduct = mockDb.updateProduct(id, body);
-        if (!updatedProduct) {
-            return NextResponse.json({ error: 'Product not found' }, { status: 404 });
+        if (updates.sku) {
+            const owner = mockDb.getProductBySku(updates.sku);
+            if (owner && owner.id !== params.id) {
+                throw new ConflictError(`SKU "${updates.sku}" is already in use`, { field: 'sku' });
+            }
+        }
+        const { unitsOfMeasure } = mockDb.getSettings();
+        // A product keeps a unit that was since removed from the settings until it is changed
+        const unitChanged = updates.unit !== undefined && updates.unit !== mockDb.getProductById(params.id)?.unit;
+        if (unitChanged && !unitsOfMeasure.includes(updates.unit as string)) {
+            throw new ValidationError([{ path: 'unit', message: `Must be one of: ${unitsOfMeasure.join(', ')}` }]);
         }
-        return NextResponse.json(updatedProduct);
-    } catch (error) {
-        return NextResponse.json({ error: 'Failed to update product' }, { status: 500 });
-    }
-}
 
-export async function DELETE(
-    request: Request,
-    { params }: { params: Promise<{ id: string }> }
-) {
-    const authResult = requireRoles(request, PERMISSIONS.PRODUCT_DELETE);
-    if (!authResult.authorized) {
-        return authResult.response;
+        const updatedProduct = mockDb.updateProduct(params.id, updates, expected);
+        if (!updatedProduct) {
+            throw new NotFoundError('Product', params.id);
+        }
+        return jsonWithETag(updatedProduct, updatedProduct);
     }
+);
 
-    const id = (await params).id;
-    const success = mockDb.deleteProduct(id);
+export const DELETE = apiHandler({ permission: PERMISSIONS.PRODUCT_DELETE }, ({ params, expectedVersion }) => {
+    const success = mockDb.deleteProduct(params.id, expectedVersion());
     if (!success) {
-        return NextResponse.json({ error: 'Product not found' }, { status: 404 });
+        throw new NotFoundError('Product', params.id);
     }
     return NextResponse.json({ message: 'Product deleted' });
-}
+});
@@ -1,34 +1,48 @@
 import { NextResponse } from 'next/server';
-import { mockDb, Product } from '@/services/mockDb';
-import { requireRoles, PERMISSIONS } from '@/middleware/rbac';
+import { mockDb, NewRecord, Product } from '@/services/mockDb';
+import { PERMISSIONS } from '@/middleware/rbac';
+import { apiHandler } from '@/lib/apiHandler';
+import { ConflictError, ValidationError } from '@/lib/errors';
+import { productCreateSchema, productListQuerySchema } from '@/lib/schemas';
+import { toQuery } from '@/services/query';
+import { imageFileName, imageUploadProblem } from '@/services/uploads';
 import { writeFile, mkdir } from 'fs/promises';
 import path from 'path';
 
-export async function GET(request: Request) {
-    // Check read permission
-    const authResult = requireRoles(request, PERMISSIONS.PRODUCT_READ);
-    if (!authResult.authorized) {
-        return authResult.response;
-    }
+export const GET = apiHandler({ permission: PERMISSIONS.PRODUCT_READ, query: productListQuerySchema }, ({ query }) => {
+    const page = mockDb.queryProducts(toQuery(query));
 
-    const products = mockDb.getProducts();
-    return NextResponse.json(products);
-}
+    // Stock reserved for confirmed orders and what is left of it
+    const items = page.items.map((product) => {
+        const { allocated, available } = mockDb.getStockAllocation(product.id);
+        return { ...product, allocated, available };
+    });
+    return NextResponse.json({ ...page, items });
+});
 
-export async function POST(request: Request) {
-    // Check create permission
-    const authResult = requireRoles(request, PERMISSIONS.PRODUCT_CREATE);
-    if (!authResult.authorized) {
-        return authResult.response;
-    }
+export const POST = apiHandler(
+    { permission: PERMISSIONS.PRODUCT_CREATE, form: productCreateSchema, idempotent: true },
+    async ({ body: fields, formData }) => {
+        const image = formData?.get('image') as File | null;
 
-    try {
-        const formData = await request.formData();
-        const image = formData.get('image') as File | null;
+        // The free-text code from the form is the SKU; the record id is always generated
+        const sku = fields.sku?.trim() || undefined;
+        if (sku && mockDb.getProductBySku(sku)) {
+            throw new ConflictError(`SKU "${sku}" is already in use`, { field: 'sku' });
+        }
+        const settings = mockDb.getSettings();
+        if (!settings.unitsOfMeasure.includes(fields.unit)) {
+            throw new ValidationError([{ path: 'unit', message: `Must be one of: ${settings.unitsOfMeasure.join(', ')}` }]);
+        }
 
         let imagePath = '/placeholder.png';
 
         if (image) {
+            // Only images within the size limit, stored under a generated name
+            const problem = imageUploadProblem(image);
+            if (problem) {
+                throw new ValidationError([{ path: 'image', message: problem }]);
+            }
             const bytes = await image.arrayBuffer();
             const buffer = Buffer.from(bytes);
 
@@ -40,33 +54,29 @@ export async function POST(request: Request) {
                 // Ignore error if directory exists
             }
 
-            // Create unique filename
-            const filename = `${Date.now()}-${image.name.replace(/\s/g, '-')}`;
+            const filename = imageFileName(image.type);
             const filepath = path.join(uploadDir, filename);
 
             await writeFile(filepath, buffer);
             imagePath = `/uploads/${filename}`;
         }
 
-        const newProduct: Product = {
-            id: formData.get('id') as string || Math.floor(Math.random() * 1000000).toString(),
-            name: formData.get('name') as string,
-            category: formData.get('category') as string,
-            buyingPrice: Number(formData.get('buyingPrice')),
-            quantity: Number(formData.get('quantity')),
-            unit: formData.get('unit') as string,
-            thresholdValue: Number(formData.get('thresholdValue')),
-            expiryDate: formData.get('expiryDate') as string,
-            availability: formData.get('availability') as 'In-stock' | 'Out of stock' | 'Low stock',
+        const newProduct: NewRecord<Product> = {
+            id: mockDb.generateId('products'),
+            name: fields.name,
+            category: fields.category,
+            buyingPrice: fields.buyingPrice,
+            quantity: fields.quantity,
+            unit: fields.unit,
+            thresholdValue: fields.thresholdValue ?? settings.lowStockThreshold,
+            expiryDate: fields.expiryDate,
+            availability: fields.availability,
             image: imagePath,
-            sku: `SKU-${formData.get('id') || Math.floor(Math.random() * 1000000)}`,
+            sku,
             isApproved: false, // New products default to not approved
         };
 
         const createdProduct = mockDb.addProduct(newProduct);
         return NextResponse.json(createdProduct, { status: 201 });
-    } catch (error) {
-        console.error('Error creating product:', error);
-        return NextResponse.json({ error: 'Failed to create product' }, { status: 500 });
     }
-}
+);
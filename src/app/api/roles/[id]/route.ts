@@ -0,0 +1,55 @@
+import { NextResponse } from 'next/server';
+import { mockDb } from '@/services/mockDb';
+import { ADMIN_ROLE } from '@/services/permissions';
+import { PERMISSIONS } from '@/middleware/rbac';
+import { jsonWithETag } from '@/lib/etag';
+import { apiHandler } from '@/lib/apiHandler';
+import { BusinessRuleError, NotFoundError } from '@/lib/errors';
+import { roleUpdateSchema } from '@/lib/schemas';
+
+export const GET = apiHandler({ permission: PERMISSIONS.ROLE_READ }, ({ params }) => {
+    const role = mockDb.getRoleById(params.id);
+    if (!role) {
+        throw new NotFoundError('Role', params.id);
+    }
+    return jsonWithETag(role, role);
+});
+
+export const PUT = apiHandler(
+    { permission: PERMISSIONS.ROLE_MANAGE, body: roleUpdateSchema },
+    ({ params, body, expectedVersion }) => {
+        const { version, ...updates } = body;
+        const expected = expectedVersion({ version });
+
+        const role = mockDb.getRoleById(params.id);
+        if (!role) {
+            throw new NotFoundError('Role', params.id);
+        }
+        // ADMIN always holds every permission (see getRolePermissions)
+        if (role.name === ADMIN_ROLE && updates.permissions) {
+            throw new BusinessRuleError(`The ${ADMIN_ROLE} role always has every permission`, { id: role.id });
+        }
+        if (updates.permissions) {
+            updates.permissions = [...new Set(updates.permissions)];
+        }
+
+        const updatedRole = mockDb.updateRole(params.id, updates, expected);
+        if (!updatedRole) {
+            throw new NotFoundError('Role', params.id);
+        }
+        return jsonWithETag(updatedRole, updatedRole);
+    }
+);
+
+export const DELETE = apiHandler({ permission: PERMISSIONS.ROLE_MANAGE }, ({ params, expectedVersion }) => {
+    const role = mockDb.getRoleById(params.id);
+    if (!role) {
+        throw new NotFoundError('Role', params.id);
+    }
+    if (role.builtIn) {
+        throw new BusinessRuleError(`Built-in role ${role.name} cannot be deleted`, { id: role.id });
+    }
+
+    mockDb.deleteRole(params.id, expectedVersion());
+    return NextResponse.json({ message: 'Role deleted' });
+});
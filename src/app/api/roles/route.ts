@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { mockDb } from '@/services/mockDb';
+import { PERMISSIONS } from '@/middleware/rbac';
+import { apiHandler } from '@/lib/apiHandler';
+import { ConflictError } from '@/lib/errors';
+import { roleCreateSchema } from '@/lib/schemas';
+
+export const GET = apiHandler({ permission: PERMISSIONS.ROLE_READ }, () => {
+    return NextResponse.json(mockDb.getRoles());
+});
+
+export const POST = apiHandler({ permission: PERMISSIONS.ROLE_MANAGE, body: roleCreateSchema, idempotent: true }, ({ body }) => {
+    if (mockDb.getRoleByName(body.name)) {
+        throw new ConflictError(`Role "${body.name}" already exists`, { field: 'name' });
+    }
+
+    const createdRole = mockDb.addRole({
+        id: mockDb.generateId('roles'),
+        name: body.name,
+        description: body.description ?? '',
+        permissions: [...new Set(body.permissions)],
+        builtIn: false,
+    });
+    return NextResponse.json(createdRole, { status: 201 });
+});
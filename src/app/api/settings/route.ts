@@ -0,0 +1,30 @@
+import { mockDb } from '@/services/mockDb';
+import { PERMISSIONS } from '@/middleware/rbac';
+import { jsonWithETag } from '@/lib/etag';
+import { apiHandler } from '@/lib/apiHandler';
+import { settingsUpdateSchema } from '@/lib/schemas';
+
+export const GET = apiHandler({ permission: PERMISSIONS.SETTINGS_MANAGE }, () => {
+    const settings = mockDb.getSettings();
+    return jsonWithETag(settings, settings);
+});
+
+export const PUT = apiHandler(
+    { permission: PERMISSIONS.SETTINGS_MANAGE, body: settingsUpdateSchema },
+    ({ body, expectedVersion }) => {
+        const { version, approvalPolicy, notifications, ...updates } = body;
+        const expected = expectedVersion({ version });
+        const current = mockDb.getSettings();
+
+        const updatedSettings = mockDb.updateSettings(
+            {
+                ...updates,
+                ...(updates.unitsOfMeasure && { unitsOfMeasure: [...new Set(updates.unitsOfMeasure)] }),
+                ...(approvalPolicy && { approvalPolicy: { ...current.approvalPolicy, ...approvalPolicy } }),
+                ...(notifications && { notifications: { ...current.notifications, ...notifications } }),
+            },
+            expected
+        );
+        return jsonWithETag(updatedSettings, updatedSettings);
+    }
+);
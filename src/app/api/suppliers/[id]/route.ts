@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { mockDb } from '@/services/mockDb';
+import { authorizeSupplier, PERMISSIONS } from '@/middleware/rbac';
+import { jsonWithETag } from '@/lib/etag';
+import { apiHandler } from '@/lib/apiHandler';
+import { ConflictError, NotFoundError } from '@/lib/errors';
+import { supplierUpdateSchema } from '@/lib/schemas';
+
+export const GET = apiHandler({ permission: PERMISSIONS.SUPPLIER_READ }, ({ params, auth }) => {
+    const supplier = mockDb.getSupplierById(params.id);
+    if (!supplier) {
+        throw new NotFoundError('Supplier', params.id);
+    }
+    authorizeSupplier(auth, supplier.id);
+    return jsonWithETag(supplier, supplier);
+});
+
+export const PUT = apiHandler(
+    { permission: PERMISSIONS.SUPPLIER_MANAGE, body: supplierUpdateSchema },
+    ({ params, body, expectedVersion }) => {
+        const { version, ...updates } = body;
+        const expected = expectedVersion({ version });
+
+        const supplier = mockDb.getSupplierById(params.id);
+        if (!supplier) {
+            throw new NotFoundError('Supplier', params.id);
+        }
+        const taxIdOwner = updates.taxId && mockDb.getSupplierByTaxId(updates.taxId);
+        if (taxIdOwner && taxIdOwner.id !== supplier.id) {
+            throw new ConflictError(`A supplier with tax id "${updates.taxId}" already exists`, { field: 'taxId' });
+        }
+
+        const updatedSupplier = mockDb.updateSupplier(params.id, updates, expected);
+        if (!updatedSupplier) {
+            throw new NotFoundError('Supplier', params.id);
+        }
+        return jsonWithETag(updatedSupplier, updatedSupplier);
+    }
+);
+
+// Refused with 409 while users or product lists still belong to the supplier
+export const DELETE = apiHandler({ permission: PERMISSIONS.SUPPLIER_MANAGE }, ({ params, expectedVersion }) => {
+    if (!mockDb.getSupplierById(params.id)) {
+        throw new NotFoundError('Supplier', params.id);
+    }
+
+    mockDb.deleteSupplier(params.id, expectedVersion());
+    return NextResponse.json({ message: 'Supplier deleted' });
+});
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { mockDb } from '@/services/mockDb';
+import { toQuery } from '@/services/query';
+import { getSupplierScope, PERMISSIONS } from '@/middleware/rbac';
+import { apiHandler } from '@/lib/apiHandler';
+import { ConflictError } from '@/lib/errors';
+import { supplierCreateSchema, supplierListQuerySchema } from '@/lib/schemas';
+
+export const GET = apiHandler({ permission: PERMISSIONS.SUPPLIER_READ, query: supplierListQuerySchema }, ({ query, auth }) => {
+    // Supplier users only see their own supplier
+    const supplierId = getSupplierScope(auth);
+    return NextResponse.json(mockDb.querySuppliers(toQuery(query), supplierId ? new Set([supplierId]) : undefined));
+});
+
+export const POST = apiHandler({ permission: PERMISSIONS.SUPPLIER_MANAGE, body: supplierCreateSchema, idempotent: true }, ({ body }) => {
+    if (body.taxId && mockDb.getSupplierByTaxId(body.taxId)) {
+        throw new ConflictError(`A supplier with tax id "${body.taxId}" already exists`, { field: 'taxId' });
+    }
+
+    const createdSupplier = mockDb.addSupplier({
+        id: mockDb.generateId('suppliers'),
+        companyName: body.companyName,
+        taxId: body.taxId,
+        contacts: body.contacts ?? [],
+        addresses: body.addresses ?? [],
+        createdAt: new Date().toISOString(),
+    });
+    return NextResponse.json(createdSupplier, { status: 201 });
+});
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { mockDb } from '@/services/mockDb';
+import { hashPassword } from '@/services/auth';
+import { PERMISSIONS } from '@/middleware/rbac';
+import { apiHandler } from '@/lib/apiHandler';
+import { NotFoundError } from '@/lib/errors';
+import { passwordResetSchema } from '@/lib/schemas';
+
+// Sets a new password; the user's existing sessions stop working
+export const POST = apiHandler({ permission: PERMISSIONS.USER_MANAGE, body: passwordResetSchema }, ({ params, body }) => {
+    const updatedUser = mockDb.updateUser(params.id, {
+        passwordHash: hashPassword(body.password),
+        passwordChangedAt: new Date().toISOString(),
+    });
+    if (!updatedUser) {
+        throw new NotFoundError('User', params.id);
+    }
+    return NextResponse.json({ message: 'Password updated' });
+});
@@ -0,0 +1,71 @@
+import { NextResponse } from 'next/server';
+import { mockDb, User } from '@/services/mockDb';
+import { toPublicUser } from '@/services/auth';
+import { PERMISSIONS } from '@/middleware/rbac';
+import { jsonWithETag } from '@/lib/etag';
+import { apiHandler } from '@/lib/apiHandler';
+import { BusinessRuleError, NotFoundError, ValidationError } from '@/lib/errors';
+import { userUpdateSchema } from '@/lib/schemas';
+
+/**
+ * Refuse changes that would leave nobody able to administer users
+ */
+function assertAdminRemains(user: User, actorId: string, change: 'deactivate' | 'demote' | 'delete') {
+    if (user.id === actorId) {
+        throw new BusinessRuleError(`You cannot ${change} your own account`, { id: user.id });
+    }
+    const otherAdmins = mockDb.getUsers().filter((u) => u.role === 'ADMIN' && u.active && u.id !== user.id);
+    if (user.role === 'ADMIN' && user.active && otherAdmins.length === 0) {
+        throw new BusinessRuleError(`Cannot ${change} the last active administrator`, { id: user.id });
+    }
+}
+
+export const GET = apiHandler({ permission: PERMISSIONS.USER_MANAGE }, ({ params }) => {
+    const user = mockDb.getUserById(params.id);
+    if (!user) {
+        throw new NotFoundError('User', params.id);
+    }
+    return jsonWithETag(toPublicUser(user), user);
+});
+
+export const PUT = apiHandler(
+    { permission: PERMISSIONS.USER_MANAGE, body: userUpdateSchema },
+    ({ params, body, auth, expectedVersion }) => {
+        const { version, ...updates } = body;
+        const expected = expectedVersion({ version });
+
+        const user = mockDb.getUserById(params.id);
+        if (!user) {
+            throw new NotFoundError('User', params.id);
+        }
+        if (updates.role && !mockDb.getRoleByName(updates.role)) {
+            throw new ValidationError([{ path: 'role', message: `Unknown role "${updates.role}"` }]);
+        }
+        if (updates.supplierId && !mockDb.getSupplierById(updates.supplierId)) {
+            throw new ValidationError([{ path: 'supplierId', message: `Unknown supplier "${updates.supplierId}"` }]);
+        }
+        if (updates.active === false && user.active) {
+            assertAdminRemains(user, auth.user.id, 'deactivate');
+        }
+        if (updates.role && updates.role !== 'ADMIN' && user.role === 'ADMIN') {
+            assertAdminRemains(user, auth.user.id, 'demote');
+        }
+
+        const updatedUser = mockDb.updateUser(params.id, updates, expected);
+        if (!updatedUser) {
+            throw new NotFoundError('User', params.id);
+        }
+        return jsonWithETag(toPublicUser(updatedUser), updatedUser);
+    }
+);
+
+export const DELETE = apiHandler({ permission: PERMISSIONS.USER_MANAGE }, ({ params, auth, expectedVersion }) => {
+    const user = mockDb.getUserById(params.id);
+    if (!user) {
+        throw new NotFoundError('User', params.id);
+    }
+    assertAdminRemains(user, auth.user.id, 'delete');
+
+    mockDb.deleteUser(params.id, expectedVersion());
+    return NextResponse.json({ message: 'User deleted' });
+});
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { mockDb } from '@/services/mockDb';
+import { hashPassword, toPublicUser } from '@/services/auth';
+import { toQuery } from '@/services/query';
+import { PERMISSIONS } from '@/middleware/rbac';
+import { apiHandler } from '@/lib/apiHandler';
+import { ConflictError, ValidationError } from '@/lib/errors';
+import { userCreateSchema, userListQuerySchema } from '@/lib/schemas';
+
+export const GET = apiHandler({ permission: PERMISSIONS.USER_MANAGE, query: userListQuerySchema }, ({ query }) => {
+    const page = mockDb.queryUsers(toQuery(query));
+    return NextResponse.json({ ...page, items: page.items.map(toPublicUser) });
+});
+
+export const POST = apiHandler({ permission: PERMISSIONS.USER_MANAGE, body: userCreateSchema, idempotent: true }, ({ body }) => {
+    const { password, ...fields } = body;
+
+    // Usernames are unique across organizations: signing in only names the user
+    if (mockDb.locateUserByUsername(fields.username)) {
+        throw new ConflictError(`Username "${fields.username}" is already taken`, { field: 'username' });
+    }
+    if (!mockDb.getRoleByName(fields.role)) {
+        throw new ValidationError([{ path: 'role', message: `Unknown role "${fields.role}"` }]);
+    }
+    if (fields.supplierId && !mockDb.getSupplierById(fields.supplierId)) {
+        throw new ValidationError([{ path: 'supplierId', message: `Unknown supplier "${fields.supplierId}"` }]);
+    }
+
+    const createdUser = mockDb.addUser({
+        ...fields,
+        id: mockDb.generateId('users'),
+        active: true,
+        passwordHash: hashPassword(password),
+        passwordChangedAt: new Date().toISOString(),
+    });
+    return NextResponse.json(toPublicUser(createdUser), { status: 201 });
+});
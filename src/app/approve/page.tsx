@@ -1,45 +1,92 @@
 
 "use client";
 
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import { Button } from "@/components/ui/Button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/Card";
 import { Check, X, FileText, ChevronDown } from "lucide-react";
-import { Exhibition, ProductList } from "@/lib/db";
+import { Exhibition, ListOrderMode, ProductList, Supplier } from "@/lib/db";
 import { useRouter } from "next/navigation";
 import { cn } from "@/lib/utils";
+import { fetchAllPages, fetchPage } from "@/lib/pagination";
+import { describeProblem, readProblem } from "@/lib/problem";
+
+const PAGE_SIZE = 10;
+
+const STATUS_OPTIONS: ProductList["status"][] = ["pending", "approved", "rejected"];
+
+const ORDER_MODE_OPTIONS: { value: ListOrderMode; label: string }[] = [
+    { value: "new", label: "Approve into a new order" },
+    { value: "merge", label: "Approve into the draft order" },
+];
 
 export default function ApprovePage() {
     const router = useRouter();
     const [productLists, setProductLists] = useState<ProductList[]>([]);
     const [exhibitions, setExhibitions] = useState<Exhibition[]>([]);
+    const [suppliers, setSuppliers] = useState<Supplier[]>([]);
     const [selectedExhibitionId, setSelectedExhibitionId] = useState<string>("");
+    const [statusFilter, setStatusFilter] = useState<string>("");
+    const [orderMode, setOrderMode] = useState<ListOrderMode>("new");
+    const [orderedAs, setOrderedAs] = useState<string | null>(null);
     const [isLoading, setIsLoading] = useState(true);
+    const [page, setPage] = useState(1);
+    const [total, setTotal] = useState(0);
+    const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
 
     useEffect(() => {
-        fetchData();
+        fetchExhibitions();
+        fetchSuppliers();
     }, []);
 
-    const fetchData = async () => {
+    const fetchSuppliers = async () => {
         try {
-            const [listsRes, exhibitionsRes] = await Promise.all([
-                fetch("/api/product-lists"),
-                fetch("/api/exhibitions")
-            ]);
-            const listsData = await listsRes.json();
-            const exhibitionsData = await exhibitionsRes.json();
-
-            setProductLists(listsData);
+            setSuppliers(await fetchAllPages<Supplier>("/api/suppliers"));
+        } catch (error) {
+            console.error("Failed to fetch suppliers", error);
+        }
+    };
+
+    const fetchExhibitions = async () => {
+        try {
+            const exhibitionsData = await fetchAllPages<Exhibition>("/api/exhibitions");
             setExhibitions(exhibitionsData);
 
             if (exhibitionsData.length > 0) {
-                setSelectedExhibitionId(exhibitionsData[0].exhibitionId);
+                setSelectedExhibitionId(exhibitionsData[0].id);
             }
         } catch (error) {
-            console.error("Failed to fetch data", error);
+            console.error("Failed to fetch exhibitions", error);
+        }
+    };
+
+    // Filtered by the server: the selected exhibition and review status
+    const fetchLists = useCallback(async () => {
+        setIsLoading(true);
+        try {
+            const data = await fetchPage<ProductList>("/api/product-lists", {
+                exhibitionId: selectedExhibitionId,
+                status: statusFilter,
+                limit: PAGE_SIZE,
+                offset: (page - 1) * PAGE_SIZE,
+            });
+            setProductLists(data.items);
+            setTotal(data.total);
+        } catch (error) {
+            console.error("Failed to fetch product lists", error);
         } finally {
             setIsLoading(false);
         }
+    }, [page, selectedExhibitionId, statusFilter]);
+
+    useEffect(() => {
+        fetchLists();
+    }, [fetchLists]);
+
+    // Any filter change starts again from the first page
+    const updateFilter = (apply: () => void) => {
+        apply();
+        setPage(1);
     };
 
     const handleStatusUpdate = async (id: string, status: 'approved' | 'rejected') => {
@@ -47,39 +94,67 @@ export default function ApprovePage() {
             const res = await fetch(`/api/product-lists/${id}`, {
                 method: "PUT",
                 headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({ status }),
+                body: JSON.stringify(status === "approved" ? { status, orderMode } : { status }),
             });
-            if (res.ok) {
-                // Refresh data
-                const listsRes = await fetch("/api/product-lists");
-                const listsData = await listsRes.json();
-                setProductLists(listsData);
+            if (!res.ok) {
+                alert(describeProblem(await readProblem(res)));
+                return;
             }
+            // Approving orders the list (see orderMode)
+            const result = await res.json();
+            setOrderedAs(result.orderId ? `List ${id} ordered as ${result.orderNumber ?? result.orderId}` : null);
+            await fetchLists();
         } catch (error) {
             console.error("Failed to update status", error);
         }
     };
 
-    const filteredLists = selectedExhibitionId
-        ? productLists.filter(l => l.exhibitionId === selectedExhibitionId)
-        : productLists;
-
     return (
         <div className="space-y-6 animate-in fade-in duration-500">
             <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
-                <h1 className="text-2xl font-bold text-foreground">Approve Product Lists</h1>
-                <div className="relative w-full sm:w-64">
-                    <select
-                        className="w-full appearance-none rounded-lg border border-border bg-surface px-4 py-2.5 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary/20 focus:border-primary transition-all cursor-pointer"
-                        value={selectedExhibitionId}
-                        onChange={(e) => setSelectedExhibitionId(e.target.value)}
-                    >
-                        <option value="">Select Exhibition</option>
-                        {exhibitions.map(ex => (
-                            <option key={ex.id} value={ex.exhibitionId}>{ex.name}</option>
-                        ))}
-                    </select>
-                    <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-secondary pointer-events-none" />
+                <div>
+                    <h1 className="text-2xl font-bold text-foreground">Approve Product Lists</h1>
+                    {orderedAs && <p className="text-sm text-success">{orderedAs}</p>}
+                </div>
+                <div className="flex flex-col sm:flex-row gap-3 w-full sm:w-auto">
+                    <div className="relative w-full sm:w-60">
+                        <select
+                            className="w-full appearance-none rounded-lg border border-border bg-surface px-4 py-2.5 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary/20 focus:border-primary transition-all cursor-pointer"
+                            value={orderMode}
+                            onChange={(e) => setOrderMode(e.target.value as ListOrderMode)}
+                        >
+                            {ORDER_MODE_OPTIONS.map(option => (
+                                <option key={option.value} value={option.value}>{option.label}</option>
+                            ))}
+                        </select>
+                        <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-secondary pointer-events-none" />
+                    </div>
+                    <div className="relative w-full sm:w-44">
+                        <select
+                            className="w-full appearance-none rounded-lg border border-border bg-surface px-4 py-2.5 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary/20 focus:border-primary transition-all cursor-pointer capitalize"
+                            value={statusFilter}
+                            onChange={(e) => updateFilter(() => setStatusFilter(e.target.value))}
+                        >
+                            <option value="">All statuses</option>
+                            {STATUS_OPTIONS.map(status => (
+                                <option key={status} value={status}>{status}</option>
+                            ))}
+                        </select>
+                        <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-secondary pointer-events-none" />
+                    </div>
+                    <div className="relative w-full sm:w-64">
+                        <select
+                            className="w-full appearance-none rounded-lg border border-border bg-surface px-4 py-2.5 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary/20 focus:border-primary transition-all cursor-pointer"
+                            value={selectedExhibitionId}
+                            onChange={(e) => updateFilter(() => setSelectedExhibitionId(e.target.value))}
+                        >
+                            <option value="">All Exhibitions</option>
+                            {exhibitions.map(ex => (
+                                <option key={ex.id} value={ex.id}>{ex.name}</option>
+                            ))}
+                        </select>
+                        <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-secondary pointer-events-none" />
+                    </div>
                 </div>
             </div>
 
@@ -99,9 +174,9 @@ export default function ApprovePage() {
                         <tbody className="divide-y divide-border">
                             {isLoading ? (
                                 <tr><td colSpan={6} className="text-center py-12 text-secondary">Loading...</td></tr>
-                            ) : filteredLists.length === 0 ? (
-                                <tr><td colSpan={6} className="text-center py-12 text-secondary">No product lists found for this exhibition</td></tr>
-                            ) : filteredLists.map((list) => (
+                            ) : productLists.length === 0 ? (
+                                <tr><td colSpan={6} className="text-center py-12 text-secondary">No product lists match these filters</td></tr>
+                            ) : productLists.map((list) => (
                                 <tr
                                     key={list.id}
                                     className="hover:bg-surface-hover/50 transition-colors cursor-pointer group"
@@ -113,7 +188,9 @@ export default function ApprovePage() {
                                         </div>
                                         {list.id}
                                     </td>
-                                    <td className="py-4 px-6 text-secondary">{list.supplierId}</td>
+                                    <td className="py-4 px-6 text-secondary">
+                                        {suppliers.find((s) => s.id === list.supplierId)?.companyName ?? list.supplierId}
+                                    </td>
                                     <td className="py-4 px-6 text-secondary">{new Date(list.createdAt).toLocaleDateString()}</td>
                                     <td className="py-4 px-6 text-secondary">{list.totalQuantity}</td>
                                     <td className="py-4 px-6">
@@ -151,6 +228,16 @@ export default function ApprovePage() {
                         </tbody>
                     </table>
                 </div>
+
+                <div className="flex items-center justify-between p-4 border-t border-border bg-surface-hover/20 rounded-b-xl">
+                    <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                        Previous
+                    </Button>
+                    <span className="text-sm text-secondary">Page {page} of {pageCount}</span>
+                    <Button variant="outline" size="sm" disabled={page >= pageCount} onClick={() => setPage(page + 1)}>
+                        Next
+                    </Button>
+                </div>
             </Card>
         </div>
     );
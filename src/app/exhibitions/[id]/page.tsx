@@ -5,25 +5,52 @@ import { Button } from "@/components/ui/Button";
 import { Input } from "@/components/ui/Input";
 import { Modal } from "@/components/ui/Modal";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/Card";
-import { Exhibition, Product, ProductList } from "@/lib/db";
-import { Plus, Search, ArrowLeft, FileText, Check } from "lucide-react";
+import { Exhibition, ExhibitionMember, InvitationStatus, Product, ProductList, Supplier, SupplierInvitation } from "@/lib/db";
+import { Plus, Search, ArrowLeft, FileText, Check, Trash2, Copy } from "lucide-react";
 import Link from "next/link";
 import { useParams, useRouter } from "next/navigation";
-import { cn } from "@/lib/utils";
+import { cn, formatMoney } from "@/lib/utils";
+import { fetchAllPages } from "@/lib/pagination";
+import { describeProblem, readProblem } from "@/lib/problem";
+import { useSession } from "@/components/layout/SessionContext";
+
+type TeamMember = ExhibitionMember & { username?: string; fullName?: string };
+
+const TEAM_ROLES: ExhibitionMember["role"][] = ["LEAD", "APPROVER", "MEMBER", "VIEWER"];
+
+type Invitation = Omit<SupplierInvitation, "tokenHash"> & { status: InvitationStatus; supplierName?: string };
+
+const INVITATION_STATUS_STYLES: Record<InvitationStatus, string> = {
+    invited: "bg-primary/10 text-primary border-primary/20",
+    expired: "bg-surface-hover text-secondary border-border",
+    accepted: "bg-warning/10 text-warning border-warning/20",
+    submitted: "bg-success/10 text-success border-success/20",
+    overdue: "bg-danger/10 text-danger border-danger/20",
+};
 
 export default function ExhibitionDetailPage() {
     const params = useParams();
     const router = useRouter();
     const exhibitionId = params.id as string;
+    const { user, settings } = useSession();
 
     const [exhibition, setExhibition] = useState<Exhibition | null>(null);
     const [productLists, setProductLists] = useState<ProductList[]>([]);
     const [inventoryProducts, setInventoryProducts] = useState<Product[]>([]);
+    const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+    const [members, setMembers] = useState<TeamMember[]>([]);
+    const [newMember, setNewMember] = useState({ userId: "", role: "MEMBER" });
+    const [invitations, setInvitations] = useState<Invitation[]>([]);
+    const [newInvitation, setNewInvitation] = useState({ supplierId: "", email: "", deadline: "" });
+    // The link of the invitation just created; its token is not shown again
+    const [inviteLink, setInviteLink] = useState<string | null>(null);
+    const [loadError, setLoadError] = useState<string | null>(null);
 
     const [isCreateListModalOpen, setIsCreateListModalOpen] = useState(false);
     const [isLoading, setIsLoading] = useState(true);
 
-    // Selection state for modal
+    // Selection state for modal (supplier users always submit for their own supplier)
+    const [listSupplierId, setListSupplierId] = useState("");
     const [selectedProducts, setSelectedProducts] = useState<{ productId: string; quantity: number; price: number }[]>([]);
 
     useEffect(() => {
@@ -31,15 +58,21 @@ export default function ExhibitionDetailPage() {
             fetchExhibitionDetails();
             fetchProductLists();
             fetchInventoryProducts();
+            fetchSuppliers();
+            fetchMembers();
+            fetchInvitations();
         }
     }, [exhibitionId]);
 
     const fetchExhibitionDetails = async () => {
         try {
-            const res = await fetch(`/api/exhibitions`);
-            const data = await res.json();
-            const found = data.find((e: Exhibition) => e.exhibitionId === exhibitionId);
-            setExhibition(found);
+            const res = await fetch(`/api/exhibitions/${exhibitionId}`);
+            if (!res.ok) {
+                // e.g. 403 when the caller is not on the exhibition's team
+                setLoadError(describeProblem(await readProblem(res)));
+                return;
+            }
+            setExhibition(await res.json());
         } catch (error) {
             console.error("Failed to fetch exhibition details", error);
         }
@@ -47,9 +80,7 @@ export default function ExhibitionDetailPage() {
 
     const fetchProductLists = async () => {
         try {
-            const res = await fetch(`/api/product-lists?exhibitionId=${exhibitionId}`);
-            const data = await res.json();
-            setProductLists(data);
+            setProductLists(await fetchAllPages<ProductList>("/api/product-lists", { exhibitionId }));
         } catch (error) {
             console.error("Failed to fetch product lists", error);
         } finally {
@@ -59,22 +90,112 @@ export default function ExhibitionDetailPage() {
 
     const fetchInventoryProducts = async () => {
         try {
-            const res = await fetch("/api/products");
-            const data = await res.json();
-            setInventoryProducts(data);
+            setInventoryProducts(await fetchAllPages<Product>("/api/products"));
         } catch (error) {
             console.error("Failed to fetch inventory products", error);
         }
     };
 
+    const fetchSuppliers = async () => {
+        try {
+            setSuppliers(await fetchAllPages<Supplier>("/api/suppliers"));
+        } catch (error) {
+            console.error("Failed to fetch suppliers", error);
+        }
+    };
+
+    const supplierName = (supplierId: string) =>
+        suppliers.find((s) => s.id === supplierId)?.companyName ?? supplierId;
+
+    const fetchMembers = async () => {
+        try {
+            const res = await fetch(`/api/exhibitions/${exhibitionId}/members`);
+            if (res.ok) setMembers(await res.json());
+        } catch (error) {
+            console.error("Failed to fetch team members", error);
+        }
+    };
+
+    const fetchInvitations = async () => {
+        try {
+            const res = await fetch(`/api/exhibitions/${exhibitionId}/invitations`);
+            if (res.ok) setInvitations(await res.json());
+        } catch (error) {
+            console.error("Failed to fetch invitations", error);
+        }
+    };
+
+    // Leads manage the team; exhibition:all covers every exhibition
+    const myRole = members.find((m) => m.userId === user?.id)?.role;
+    const canManageTeam = Boolean(
+        user?.permissions.includes("exhibition:update") &&
+        (myRole === "LEAD" || user.permissions.includes("exhibition:all"))
+    );
+
+    const handleMemberRequest = async (url: string, init: RequestInit) => {
+        try {
+            const res = await fetch(url, { ...init, headers: { "Content-Type": "application/json" } });
+            if (!res.ok) {
+                alert(describeProblem(await readProblem(res)));
+                return false;
+            }
+            fetchMembers();
+            return true;
+        } catch (error) {
+            console.error("Failed to update team", error);
+            return false;
+        }
+    };
+
+    const handleAddMember = async () => {
+        const added = await handleMemberRequest(`/api/exhibitions/${exhibitionId}/members`, {
+            method: "POST",
+            body: JSON.stringify(newMember),
+        });
+        if (added) setNewMember({ userId: "", role: "MEMBER" });
+    };
+
+    const handleInvite = async () => {
+        try {
+            const res = await fetch(`/api/exhibitions/${exhibitionId}/invitations`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ ...newInvitation, email: newInvitation.email || undefined }),
+            });
+            if (!res.ok) {
+                alert(describeProblem(await readProblem(res)));
+                return;
+            }
+            const { token } = await res.json();
+            setInviteLink(`${window.location.origin}/invite/${token}`);
+            setNewInvitation({ supplierId: "", email: "", deadline: "" });
+            fetchInvitations();
+        } catch (error) {
+            console.error("Failed to invite supplier", error);
+        }
+    };
+
+    const handleRevokeInvitation = async (invitation: Invitation) => {
+        if (!confirm(`Revoke the invitation of ${invitation.supplierName ?? invitation.supplierId}?`)) return;
+        try {
+            const res = await fetch(`/api/exhibitions/${exhibitionId}/invitations/${invitation.id}`, { method: "DELETE" });
+            if (!res.ok) {
+                alert(describeProblem(await readProblem(res)));
+            }
+            fetchInvitations();
+        } catch (error) {
+            console.error("Failed to revoke invitation", error);
+        }
+    };
+
     const handleCreateList = async () => {
         try {
             const res = await fetch(`/api/product-lists`, {
                 method: "POST",
                 headers: { "Content-Type": "application/json" },
                 body: JSON.stringify({
-                    exhibitionId,
-                    supplierId: "current-user", // Placeholder
+                    exhibitionId: exhibition?.id ?? exhibitionId,
+                    supplierId: user?.supplierId ? undefined : listSupplierId,
                     items: selectedProducts
                 }),
             });
@@ -82,6 +203,8 @@ export default function ExhibitionDetailPage() {
                 setIsCreateListModalOpen(false);
                 fetchProductLists();
                 setSelectedProducts([]);
+            } else {
+                alert(describeProblem(await readProblem(res)));
             }
         } catch (error) {
             console.error("Failed to create product list", error);
@@ -103,6 +226,7 @@ export default function ExhibitionDetailPage() {
         setSelectedProducts(prev => prev.map(p => p.productId === productId ? { ...p, quantity } : p));
     };
 
+    if (loadError) return <div className="p-6 text-center text-danger">{loadError}</div>;
     if (!exhibition) return <div className="p-6 text-center text-secondary">Loading exhibition details...</div>;
 
     return (
@@ -155,7 +279,7 @@ export default function ExhibitionDetailPage() {
                                         </div>
                                         {list.id}
                                     </td>
-                                    <td className="py-4 px-6 text-secondary">{list.supplierId}</td>
+                                    <td className="py-4 px-6 text-secondary">{supplierName(list.supplierId)}</td>
                                     <td className="py-4 px-6 text-secondary">{new Date(list.createdAt).toLocaleDateString()}</td>
                                     <td className="py-4 px-6 text-secondary">{list.totalQuantity}</td>
                                     <td className="py-4 px-6">
@@ -178,6 +302,174 @@ export default function ExhibitionDetailPage() {
                 </div>
             </Card>
 
+            {!user?.supplierId && (
+                <Card className="border-border shadow-sm">
+                    <CardHeader className="pb-6 border-b border-border">
+                        <CardTitle className="text-xl font-semibold text-foreground">Supplier Invitations</CardTitle>
+                    </CardHeader>
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-sm text-left">
+                            <thead className="text-xs text-secondary uppercase bg-surface-hover/50 border-b border-border">
+                                <tr>
+                                    <th className="py-4 px-6 font-semibold">Supplier</th>
+                                    <th className="py-4 px-6 font-semibold">Email</th>
+                                    <th className="py-4 px-6 font-semibold">Deadline</th>
+                                    <th className="py-4 px-6 font-semibold">Status</th>
+                                    <th className="py-4 px-6 font-semibold"></th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-border">
+                                {invitations.length === 0 ? (
+                                    <tr><td colSpan={5} className="text-center py-12 text-secondary">No suppliers invited yet</td></tr>
+                                ) : invitations.map((invitation) => (
+                                    <tr key={invitation.id} className="hover:bg-surface-hover/50 transition-colors">
+                                        <td className="py-4 px-6 font-medium text-foreground">{invitation.supplierName ?? invitation.supplierId}</td>
+                                        <td className="py-4 px-6 text-secondary">{invitation.email ?? "-"}</td>
+                                        <td className="py-4 px-6 text-secondary">{new Date(invitation.deadline).toLocaleString()}</td>
+                                        <td className="py-4 px-6">
+                                            <span className={cn("px-2.5 py-1 rounded-full text-xs font-medium border", INVITATION_STATUS_STYLES[invitation.status])}>
+                                                {invitation.status.charAt(0).toUpperCase() + invitation.status.slice(1)}
+                                            </span>
+                                        </td>
+                                        <td className="py-4 px-6 text-right">
+                                            {canManageTeam && (
+                                                <Button
+                                                    size="sm"
+                                                    variant="outline"
+                                                    className="h-8 w-8 p-0 text-danger hover:text-danger hover:bg-danger/10 border-danger/20"
+                                                    title="Revoke invitation"
+                                                    onClick={() => handleRevokeInvitation(invitation)}
+                                                >
+                                                    <Trash2 className="w-4 h-4" />
+                                                </Button>
+                                            )}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                    {canManageTeam && (
+                        <CardContent className="pt-6 space-y-4 border-t border-border">
+                            <div className="flex flex-col sm:flex-row gap-3">
+                                <select
+                                    className="border border-border rounded-lg px-3 py-2 text-sm"
+                                    value={newInvitation.supplierId}
+                                    onChange={(e) => setNewInvitation({ ...newInvitation, supplierId: e.target.value })}
+                                >
+                                    <option value="">Select supplier...</option>
+                                    {suppliers
+                                        .filter((supplier) => !invitations.some((i) => i.supplierId === supplier.id))
+                                        .map((supplier) => (
+                                            <option key={supplier.id} value={supplier.id}>{supplier.companyName}</option>
+                                        ))}
+                                </select>
+                                <Input
+                                    type="email"
+                                    placeholder="Contact email (optional)"
+                                    value={newInvitation.email}
+                                    onChange={(e) => setNewInvitation({ ...newInvitation, email: e.target.value })}
+                                />
+                                <Input
+                                    type="date"
+                                    title="Submission deadline"
+                                    value={newInvitation.deadline}
+                                    onChange={(e) => setNewInvitation({ ...newInvitation, deadline: e.target.value })}
+                                />
+                                <Button onClick={handleInvite} disabled={!newInvitation.supplierId || !newInvitation.deadline} className="gap-2">
+                                    <Plus className="w-4 h-4" />
+                                    Invite
+                                </Button>
+                            </div>
+                            {inviteLink && (
+                                <div className="space-y-2">
+                                    <p className="text-xs text-secondary">Send this link to the supplier. It is only shown once.</p>
+                                    <div className="flex gap-3">
+                                        <Input readOnly value={inviteLink} onFocus={(e) => e.target.select()} />
+                                        <Button variant="outline" className="gap-2" onClick={() => navigator.clipboard.writeText(inviteLink)}>
+                                            <Copy className="w-4 h-4" />
+                                            Copy
+                                        </Button>
+                                    </div>
+                                </div>
+                            )}
+                        </CardContent>
+                    )}
+                </Card>
+            )}
+
+            <Card className="border-border shadow-sm">
+                <CardHeader className="pb-6 border-b border-border">
+                    <CardTitle className="text-xl font-semibold text-foreground">Team</CardTitle>
+                </CardHeader>
+                <CardContent className="pt-6 space-y-4">
+                    {members.length === 0 ? (
+                        <p className="text-sm text-secondary">No team members yet</p>
+                    ) : (
+                        <div className="divide-y divide-border">
+                            {members.map((member) => (
+                                <div key={member.id} className="flex items-center justify-between gap-4 py-3">
+                                    <div>
+                                        <p className="font-medium text-foreground">{member.fullName ?? member.userId}</p>
+                                        <p className="text-xs text-secondary">{member.username}</p>
+                                    </div>
+                                    <div className="flex items-center gap-2">
+                                        <select
+                                            className="border border-border rounded-lg px-2 py-1 text-sm disabled:opacity-60"
+                                            value={member.role}
+                                            disabled={!canManageTeam}
+                                            onChange={(e) => handleMemberRequest(`/api/exhibitions/${exhibitionId}/members/${member.userId}`, {
+                                                method: "PUT",
+                                                body: JSON.stringify({ role: e.target.value }),
+                                            })}
+                                        >
+                                            {TEAM_ROLES.map((role) => (
+                                                <option key={role} value={role}>{role}</option>
+                                            ))}
+                                        </select>
+                                        {canManageTeam && (
+                                            <Button
+                                                size="sm"
+                                                variant="outline"
+                                                className="h-8 w-8 p-0 text-danger hover:text-danger hover:bg-danger/10 border-danger/20"
+                                                title="Remove from team"
+                                                onClick={() => handleMemberRequest(`/api/exhibitions/${exhibitionId}/members/${member.userId}`, {
+                                                    method: "DELETE",
+                                                })}
+                                            >
+                                                <Trash2 className="w-4 h-4" />
+                                            </Button>
+                                        )}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                    {canManageTeam && (
+                        <div className="flex flex-col sm:flex-row gap-3 pt-4 border-t border-border">
+                            <Input
+                                placeholder="Username"
+                                value={newMember.userId}
+                                onChange={(e) => setNewMember({ ...newMember, userId: e.target.value })}
+                            />
+                            <select
+                                className="border border-border rounded-lg px-3 py-2 text-sm"
+                                value={newMember.role}
+                                onChange={(e) => setNewMember({ ...newMember, role: e.target.value })}
+                            >
+                                {TEAM_ROLES.map((role) => (
+                                    <option key={role} value={role}>{role}</option>
+                                ))}
+                            </select>
+                            <Button onClick={handleAddMember} disabled={!newMember.userId} className="gap-2">
+                                <Plus className="w-4 h-4" />
+                                Add Member
+                            </Button>
+                        </div>
+                    )}
+                </CardContent>
+            </Card>
+
             <Modal
                 isOpen={isCreateListModalOpen}
                 onClose={() => setIsCreateListModalOpen(false)}
@@ -185,6 +477,18 @@ export default function ExhibitionDetailPage() {
                 className="max-w-3xl"
             >
                 <div className="space-y-4">
+                    {!user?.supplierId && (
+                        <select
+                            className="w-full border border-border rounded-lg px-3 py-2 text-sm"
+                            value={listSupplierId}
+                            onChange={(e) => setListSupplierId(e.target.value)}
+                        >
+                            <option value="">Select supplier...</option>
+                            {suppliers.map((supplier) => (
+                                <option key={supplier.id} value={supplier.id}>{supplier.companyName}</option>
+                            ))}
+                        </select>
+                    )}
                     <div className="relative">
                         <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-secondary" />
                         <Input placeholder="Search inventory products..." className="pl-10" />
@@ -219,7 +523,7 @@ export default function ExhibitionDetailPage() {
                                                     <p className="font-medium text-foreground">{product.name}</p>
                                                     <p className="text-xs text-secondary mt-1">{product.availability} • {product.quantity} {product.unit}</p>
                                                 </div>
-                                                <p className="font-semibold text-foreground">{product.buyingPrice}฿</p>
+                                                <p className="font-semibold text-foreground">{formatMoney(product.buyingPrice, settings?.currency)}</p>
                                             </div>
 
                                             {isSelected && (
@@ -242,7 +546,7 @@ export default function ExhibitionDetailPage() {
                 </div>
                 <div className="flex justify-end gap-3 mt-8 pt-4 border-t border-border">
                     <Button variant="outline" onClick={() => setIsCreateListModalOpen(false)}>Cancel</Button>
-                    <Button onClick={handleCreateList} disabled={selectedProducts.length === 0}>Create List ({selectedProducts.length})</Button>
+                    <Button onClick={handleCreateList} disabled={selectedProducts.length === 0 || (!user?.supplierId && !listSupplierId)}>Create List ({selectedProducts.length})</Button>
                 </div>
             </Modal>
         </div>
@@ -6,6 +6,7 @@ import { Input } from "@/components/ui/Input";
 import { Modal } from "@/components/ui/Modal";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/Card";
 import { Exhibition } from "@/lib/db";
+import { fetchAllPages } from "@/lib/pagination";
 import { Plus, Calendar, ArrowRight } from "lucide-react";
 import Link from "next/link";
 
@@ -28,9 +29,7 @@ export default function ExhibitionsPage() {
 
     const fetchExhibitions = async () => {
         try {
-            const res = await fetch("/api/exhibitions");
-            const data = await res.json();
-            setExhibitions(data);
+            setExhibitions(await fetchAllPages<Exhibition>("/api/exhibitions"));
         } catch (error) {
             console.error("Failed to fetch exhibitions", error);
         } finally {
@@ -78,7 +77,7 @@ export default function ExhibitionsPage() {
                         <p className="text-secondary">No exhibitions found. Create one to get started.</p>
                     </div>
                 ) : exhibitions.map((exhibition) => (
-                    <Link href={`/exhibitions/${exhibition.exhibitionId}`} key={exhibition.id} className="block group h-full">
+                    <Link href={`/exhibitions/${exhibition.id}`} key={exhibition.id} className="block group h-full">
                         <Card className="h-full hover:border-primary/50 hover:shadow-md transition-all duration-200 group-hover:-translate-y-1">
                             <CardHeader className="pb-3">
                                 <div className="flex justify-between items-start mb-2">
@@ -3,11 +3,14 @@
 import { useEffect, useState } from "react";
 import { Button } from "@/components/ui/Button";
 import { Input } from "@/components/ui/Input";
+import { Modal } from "@/components/ui/Modal";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/Card";
 import { ProductList, ProductListItem } from "@/lib/db";
-import { ArrowLeft, Trash2, Save } from "lucide-react";
+import { ArrowLeft, Trash2, Save, AlertTriangle } from "lucide-react";
 import { useParams, useRouter } from "next/navigation";
-import { cn } from "@/lib/utils";
+import { cn, formatMoney } from "@/lib/utils";
+import { describeProblem, readProblem } from "@/lib/problem";
+import { useSession } from "@/components/layout/SessionContext";
 
 interface EnrichedProductListItem extends ProductListItem {
     productName?: string;
@@ -20,12 +23,40 @@ interface EnrichedProductList extends ProductList {
     items: EnrichedProductListItem[];
 }
 
+/**
+ * Re-apply the local edits (quantity changes and removals, matched by product)
+ * on top of the latest saved items
+ */
+function mergeItemChanges(
+    baseItems: EnrichedProductListItem[],
+    localItems: EnrichedProductListItem[],
+    latestItems: EnrichedProductListItem[]
+): EnrichedProductListItem[] {
+    const baseByProduct = new Map(baseItems.map(item => [item.productId, item]));
+    const localByProduct = new Map(localItems.map(item => [item.productId, item]));
+
+    return latestItems
+        .filter(item => !(baseByProduct.has(item.productId) && !localByProduct.has(item.productId)))
+        .map(item => {
+            const base = baseByProduct.get(item.productId);
+            const local = localByProduct.get(item.productId);
+            if (base && local && local.quantity !== base.quantity) {
+                return { ...item, quantity: local.quantity };
+            }
+            return item;
+        });
+}
+
 export default function ProductListDetailPage() {
     const params = useParams();
     const router = useRouter();
     const listId = params.id as string;
+    const { settings } = useSession();
 
     const [list, setList] = useState<EnrichedProductList | null>(null);
+    // Items as last loaded from the server, used to work out local edits on conflict
+    const [baseItems, setBaseItems] = useState<EnrichedProductListItem[]>([]);
+    const [conflict, setConflict] = useState<EnrichedProductList | null>(null);
     const [isLoading, setIsLoading] = useState(true);
     const [isSaving, setIsSaving] = useState(false);
 
@@ -39,14 +70,16 @@ export default function ProductListDetailPage() {
         try {
             const res = await fetch(`/api/product-lists/${listId}`);
             if (!res.ok) {
-                if (res.status === 404) {
+                const problem = await readProblem(res);
+                if (problem.code === "NOT_FOUND") {
                     setList(null);
                     return;
                 }
-                throw new Error("Failed to fetch list");
+                throw new Error(problem.detail);
             }
             const data = await res.json();
             setList(data);
+            setBaseItems(data.items);
         } catch (error) {
             console.error("Failed to fetch product list details", error);
         } finally {
@@ -74,13 +107,29 @@ export default function ProductListDetailPage() {
         try {
             const res = await fetch(`/api/product-lists/${listId}`, {
                 method: "PUT",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({ items: list.items }),
+                headers: {
+                    "Content-Type": "application/json",
+                    "If-Match": `"${list.version}"`,
+                },
+                body: JSON.stringify({
+                    items: list.items.map(({ productId, quantity, price }) => ({ productId, quantity, price })),
+                }),
             });
-            if (res.ok) {
-                fetchListDetails(); // Refresh
-                alert("Changes saved successfully!");
+            if (!res.ok) {
+                const problem = await readProblem(res);
+                if (problem.code === "VERSION_CONFLICT" || problem.code === "PRECONDITION_FAILED") {
+                    // Someone else saved first - show what is on the server now
+                    const latestRes = await fetch(`/api/product-lists/${listId}`);
+                    if (latestRes.ok) {
+                        setConflict(await latestRes.json());
+                    }
+                    return;
+                }
+                alert(`Could not save changes:\n${describeProblem(problem)}`);
+                return;
             }
+            fetchListDetails(); // Refresh
+            alert("Changes saved successfully!");
         } catch (error) {
             console.error("Failed to save changes", error);
             alert("Failed to save changes");
@@ -89,6 +138,20 @@ export default function ProductListDetailPage() {
         }
     };
 
+    const handleReloadLatest = () => {
+        if (!conflict) return;
+        setList(conflict);
+        setBaseItems(conflict.items);
+        setConflict(null);
+    };
+
+    const handleMergeChanges = () => {
+        if (!conflict || !list) return;
+        setList({ ...conflict, items: mergeItemChanges(baseItems, list.items, conflict.items) });
+        setBaseItems(conflict.items);
+        setConflict(null);
+    };
+
     if (isLoading) return <div className="p-6 text-center text-secondary">Loading...</div>;
     if (!list) return <div className="p-6 text-center text-secondary">Product List not found</div>;
 
@@ -150,7 +213,7 @@ export default function ProductListDetailPage() {
                                         </div>
                                     </td>
                                     <td className="py-4 px-6 text-secondary">{item.productSKU}</td>
-                                    <td className="py-4 px-6 text-secondary">{item.price}฿ / {item.productUnit}</td>
+                                    <td className="py-4 px-6 text-secondary">{formatMoney(item.price, settings?.currency)} / {item.productUnit}</td>
                                     <td className="py-4 px-6">
                                         {isEditable ? (
                                             <Input
@@ -164,7 +227,7 @@ export default function ProductListDetailPage() {
                                         )}
                                     </td>
                                     <td className="py-4 px-6 font-medium text-foreground">
-                                        {(item.price * item.quantity).toLocaleString()}฿
+                                        {formatMoney(item.price * item.quantity, settings?.currency)}
                                     </td>
                                     {isEditable && (
                                         <td className="py-4 px-6 text-right">
@@ -184,6 +247,24 @@ export default function ProductListDetailPage() {
                     </table>
                 </div>
             </Card>
+
+            <Modal
+                isOpen={conflict !== null}
+                onClose={() => setConflict(null)}
+                title="This list was changed by someone else"
+            >
+                <div className="flex items-start gap-3 text-sm text-secondary">
+                    <AlertTriangle className="w-5 h-5 text-warning shrink-0" />
+                    <p>
+                        Another user saved this product list while you were editing it, so your changes were not saved.
+                        Reload to discard your edits, or merge them into the latest version and review before saving again.
+                    </p>
+                </div>
+                <div className="flex justify-end gap-3 mt-8 pt-4 border-t border-border">
+                    <Button variant="outline" onClick={handleReloadLatest}>Reload latest</Button>
+                    <Button onClick={handleMergeChanges}>Merge my changes</Button>
+                </div>
+            </Modal>
         </div>
     );
 }
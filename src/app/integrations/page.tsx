@@ -0,0 +1,278 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import { Modal } from "@/components/ui/Modal";
+import { Card, CardHeader, CardTitle } from "@/components/ui/Card";
+import { useSession } from "@/components/layout/SessionContext";
+import { Copy, KeyRound, Plus, Trash2 } from "lucide-react";
+import { ApiKey } from "@/lib/db";
+import { cn } from "@/lib/utils";
+import { describeProblem, readProblem } from "@/lib/problem";
+
+type PublicApiKey = Omit<ApiKey, "tokenHash">;
+type PermissionInfo = { name: ApiKey["permissions"][number]; description: string };
+
+const EMPTY_KEY = { name: "", expiresAt: "", permissions: [] as PermissionInfo["name"][] };
+
+function keyStatus(apiKey: PublicApiKey): "Active" | "Revoked" | "Expired" {
+    if (apiKey.revokedAt) return "Revoked";
+    if (apiKey.expiresAt && Date.parse(apiKey.expiresAt) <= Date.now()) return "Expired";
+    return "Active";
+}
+
+/**
+ * API keys for machine-to-machine integrations (warehouse scanners, ERP sync).
+ * Integrations send the key as "Authorization: Bearer <key>".
+ */
+export default function IntegrationsPage() {
+    const { user } = useSession();
+
+    const [apiKeys, setApiKeys] = useState<PublicApiKey[]>([]);
+    const [permissions, setPermissions] = useState<PermissionInfo[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isAddModalOpen, setIsAddModalOpen] = useState(false);
+    const [newKey, setNewKey] = useState(EMPTY_KEY);
+    // The key just created; only its hash is stored, so it is not shown again
+    const [createdKey, setCreatedKey] = useState<string | null>(null);
+
+    const fetchApiKeys = useCallback(async () => {
+        try {
+            const [keysRes, permissionsRes] = await Promise.all([
+                fetch("/api/api-keys"),
+                fetch("/api/permissions"),
+            ]);
+            if (keysRes.ok) setApiKeys(await keysRes.json());
+            if (permissionsRes.ok) setPermissions(await permissionsRes.json());
+        } catch (error) {
+            console.error("Failed to fetch API keys", error);
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        fetchApiKeys();
+    }, [fetchApiKeys]);
+
+    // A key can only be granted what the signed-in user holds
+    const grantable = permissions.filter((permission) => user?.permissions.includes(permission.name));
+
+    const togglePermission = (permission: PermissionInfo["name"]) => {
+        setNewKey((prev) => ({
+            ...prev,
+            permissions: prev.permissions.includes(permission)
+                ? prev.permissions.filter((p) => p !== permission)
+                : [...prev.permissions, permission],
+        }));
+    };
+
+    const closeAddModal = () => {
+        setIsAddModalOpen(false);
+        setCreatedKey(null);
+        setNewKey(EMPTY_KEY);
+    };
+
+    const handleCreate = async () => {
+        try {
+            const res = await fetch("/api/api-keys", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({
+                    name: newKey.name,
+                    permissions: newKey.permissions,
+                    // A plain date expires at the start of that day (UTC)
+                    expiresAt: newKey.expiresAt || undefined,
+                }),
+            });
+            if (!res.ok) {
+                alert(describeProblem(await readProblem(res)));
+                return;
+            }
+            const { key } = await res.json();
+            setCreatedKey(key);
+            fetchApiKeys();
+        } catch (error) {
+            console.error("Failed to create API key", error);
+        }
+    };
+
+    const handleRevoke = async (apiKey: PublicApiKey) => {
+        if (!confirm(`Revoke API key "${apiKey.name}"? Integrations using it stop working immediately.`)) return;
+        try {
+            const res = await fetch(`/api/api-keys/${apiKey.id}`, { method: "DELETE" });
+            if (!res.ok) {
+                alert(describeProblem(await readProblem(res)));
+            }
+            fetchApiKeys();
+        } catch (error) {
+            console.error("Failed to revoke API key", error);
+        }
+    };
+
+    return (
+        <div className="space-y-6 animate-in fade-in duration-500">
+            <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+                <div>
+                    <h1 className="text-2xl font-bold text-foreground">API Keys</h1>
+                    <p className="text-sm text-secondary">
+                        Integrations authenticate with <code>Authorization: Bearer &lt;key&gt;</code>
+                    </p>
+                </div>
+                <Button onClick={() => setIsAddModalOpen(true)} className="gap-2">
+                    <Plus className="w-4 h-4" />
+                    New API Key
+                </Button>
+            </div>
+
+            <Card className="border-border shadow-sm">
+                <CardHeader className="pb-6 border-b border-border">
+                    <CardTitle className="text-xl font-semibold text-foreground">Keys</CardTitle>
+                </CardHeader>
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm text-left">
+                        <thead className="text-xs text-secondary uppercase bg-surface-hover/50 border-b border-border">
+                            <tr>
+                                <th className="py-4 px-6 font-semibold">Name</th>
+                                <th className="py-4 px-6 font-semibold">Permissions</th>
+                                <th className="py-4 px-6 font-semibold">Created</th>
+                                <th className="py-4 px-6 font-semibold">Last Used</th>
+                                <th className="py-4 px-6 font-semibold">Expires</th>
+                                <th className="py-4 px-6 font-semibold">Status</th>
+                                <th className="py-4 px-6 font-semibold text-right">Actions</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-border">
+                            {isLoading ? (
+                                <tr><td colSpan={7} className="text-center py-12 text-secondary">Loading API keys...</td></tr>
+                            ) : apiKeys.length === 0 ? (
+                                <tr><td colSpan={7} className="text-center py-12 text-secondary">No API keys yet</td></tr>
+                            ) : apiKeys.map((apiKey) => {
+                                const status = keyStatus(apiKey);
+                                return (
+                                    <tr key={apiKey.id} className="hover:bg-surface-hover/50 transition-colors">
+                                        <td className="py-4 px-6 font-medium text-foreground">
+                                            <div className="flex items-center gap-2">
+                                                <div className="p-1.5 rounded-md bg-primary/10 text-primary">
+                                                    <KeyRound className="w-4 h-4" />
+                                                </div>
+                                                <div>
+                                                    {apiKey.name}
+                                                    <div className="text-xs text-secondary font-mono">{apiKey.prefix}…</div>
+                                                </div>
+                                            </div>
+                                        </td>
+                                        <td className="py-4 px-6 text-secondary">
+                                            <div className="flex flex-wrap gap-1">
+                                                {apiKey.permissions.map((permission) => (
+                                                    <span key={permission} className="px-2 py-0.5 rounded-full text-xs border border-border font-mono">
+                                                        {permission}
+                                                    </span>
+                                                ))}
+                                            </div>
+                                        </td>
+                                        <td className="py-4 px-6 text-secondary">{new Date(apiKey.createdAt).toLocaleDateString()}</td>
+                                        <td className="py-4 px-6 text-secondary">
+                                            {apiKey.lastUsedAt ? new Date(apiKey.lastUsedAt).toLocaleString() : "Never"}
+                                        </td>
+                                        <td className="py-4 px-6 text-secondary">
+                                            {apiKey.expiresAt ? new Date(apiKey.expiresAt).toLocaleDateString() : "-"}
+                                        </td>
+                                        <td className="py-4 px-6">
+                                            <span className={cn(
+                                                "px-2.5 py-1 rounded-full text-xs font-medium border",
+                                                status === "Active" && "bg-success/10 text-success border-success/20",
+                                                status === "Revoked" && "bg-danger/10 text-danger border-danger/20",
+                                                status === "Expired" && "bg-surface-hover text-secondary border-border"
+                                            )}>
+                                                {status}
+                                            </span>
+                                        </td>
+                                        <td className="py-4 px-6 text-right">
+                                            {!apiKey.revokedAt && (
+                                                <Button
+                                                    size="sm"
+                                                    variant="outline"
+                                                    className="h-8 w-8 p-0 text-danger hover:text-danger hover:bg-danger/10 border-danger/20"
+                                                    title="Revoke API key"
+                                                    onClick={() => handleRevoke(apiKey)}
+                                                >
+                                                    <Trash2 className="w-4 h-4" />
+                                                </Button>
+                                            )}
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+            </Card>
+
+            {/* New API Key Modal */}
+            <Modal isOpen={isAddModalOpen} onClose={closeAddModal} title="New API Key">
+                {createdKey ? (
+                    <div className="space-y-4">
+                        <p className="text-sm text-secondary">
+                            Copy the key now and store it in the integration&apos;s configuration. It is only shown once.
+                        </p>
+                        <div className="flex gap-3">
+                            <Input readOnly value={createdKey} className="font-mono" onFocus={(e) => e.target.select()} />
+                            <Button variant="outline" className="gap-2" onClick={() => navigator.clipboard.writeText(createdKey)}>
+                                <Copy className="w-4 h-4" />
+                                Copy
+                            </Button>
+                        </div>
+                        <div className="flex justify-end pt-4 border-t border-border">
+                            <Button onClick={closeAddModal}>Done</Button>
+                        </div>
+                    </div>
+                ) : (
+                    <>
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                            <Input
+                                label="Name"
+                                placeholder="e.g. Warehouse scanner"
+                                value={newKey.name}
+                                onChange={(e) => setNewKey({ ...newKey, name: e.target.value })}
+                            />
+                            <Input
+                                label="Expires (optional)"
+                                type="date"
+                                value={newKey.expiresAt}
+                                onChange={(e) => setNewKey({ ...newKey, expiresAt: e.target.value })}
+                            />
+                        </div>
+                        <div className="mt-6">
+                            <p className="text-sm font-medium text-foreground mb-2">Permissions</p>
+                            <div className="border border-border rounded-xl max-h-72 overflow-y-auto divide-y divide-border">
+                                {grantable.map((permission) => (
+                                    <label key={permission.name} className="flex items-start gap-3 px-4 py-2 cursor-pointer hover:bg-surface-hover/50">
+                                        <input
+                                            type="checkbox"
+                                            className="w-4 h-4 mt-0.5 accent-primary cursor-pointer"
+                                            checked={newKey.permissions.includes(permission.name)}
+                                            onChange={() => togglePermission(permission.name)}
+                                        />
+                                        <span>
+                                            <span className="text-sm font-mono text-foreground">{permission.name}</span>
+                                            <span className="block text-xs text-secondary">{permission.description}</span>
+                                        </span>
+                                    </label>
+                                ))}
+                            </div>
+                        </div>
+                        <div className="flex justify-end gap-3 mt-8 pt-4 border-t border-border">
+                            <Button variant="outline" onClick={closeAddModal}>Cancel</Button>
+                            <Button onClick={handleCreate} disabled={!newKey.name || newKey.permissions.length === 0}>
+                                Create Key
+                            </Button>
+                        </div>
+                    </>
+                )}
+            </Modal>
+        </div>
+    );
+}
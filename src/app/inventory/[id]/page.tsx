@@ -2,15 +2,29 @@
 
 import { useEffect, useState } from "react";
 import { useParams } from "next/navigation";
-import { Product } from "@/lib/db";
+import { AuditEntry, Product } from "@/lib/db";
 import { Button } from "@/components/ui/Button";
 import { Pencil, Download } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { readProblem } from "@/lib/problem";
+import { listUrl, Page } from "@/lib/pagination";
+
+type Tab = "overview" | "history";
+
+const formatAuditValue = (value: unknown) => {
+    if (value === undefined || value === null || value === "") return "—";
+    return typeof value === "object" ? JSON.stringify(value) : String(value);
+};
 
 export default function ProductDetailsPage() {
     const params = useParams();
     const id = params.id as string;
     const [product, setProduct] = useState<Product | null>(null);
     const [isLoading, setIsLoading] = useState(true);
+    const [activeTab, setActiveTab] = useState<Tab>("overview");
+    const [history, setHistory] = useState<AuditEntry[]>([]);
+    const [historyError, setHistoryError] = useState<string | null>(null);
+    const [isHistoryLoading, setIsHistoryLoading] = useState(false);
 
     useEffect(() => {
         const fetchProduct = async () => {
@@ -29,6 +43,31 @@ export default function ProductDetailsPage() {
         fetchProduct();
     }, [id]);
 
+    const openHistory = async () => {
+        setActiveTab("history");
+        setIsHistoryLoading(true);
+        setHistoryError(null);
+        try {
+            // The latest changes, newest first
+            const res = await fetch(listUrl("/api/audit", { entityType: "Product", entityId: id, limit: 100 }));
+            if (!res.ok) {
+                const problem = await readProblem(res);
+                if (problem.code === "FORBIDDEN") {
+                    setHistoryError("You do not have permission to view the history of this product.");
+                    return;
+                }
+                throw new Error(problem.detail);
+            }
+            const page: Page<AuditEntry> = await res.json();
+            setHistory(page.items);
+        } catch (error) {
+            console.error("Failed to fetch product history", error);
+            setHistoryError("Failed to load history.");
+        } finally {
+            setIsHistoryLoading(false);
+        }
+    };
+
     if (isLoading) return <div className="p-8 text-center">Loading...</div>;
     if (!product) return <div className="p-8 text-center">Product not found</div>;
 
@@ -50,107 +89,162 @@ export default function ProductDetailsPage() {
 
             <div className="p-6">
                 <div className="flex gap-8 border-b border-gray-200 mb-8">
-                    <button className="pb-3 text-blue-600 border-b-2 border-blue-600 font-medium">Overview</button>
+                    <button
+                        className={cn("pb-3 font-medium", activeTab === "overview" ? "text-blue-600 border-b-2 border-blue-600" : "text-gray-500 hover:text-gray-700")}
+                        onClick={() => setActiveTab("overview")}
+                    >
+                        Overview
+                    </button>
                     <button className="pb-3 text-gray-500 hover:text-gray-700 font-medium">Purchases</button>
                     <button className="pb-3 text-gray-500 hover:text-gray-700 font-medium">Adjustments</button>
-                    <button className="pb-3 text-gray-500 hover:text-gray-700 font-medium">History</button>
+                    <button
+                        className={cn("pb-3 font-medium", activeTab === "history" ? "text-blue-600 border-b-2 border-blue-600" : "text-gray-500 hover:text-gray-700")}
+                        onClick={openHistory}
+                    >
+                        History
+                    </button>
                 </div>
 
-                <div className="grid grid-cols-3 gap-12">
-                    <div className="col-span-2 space-y-8">
-                        <div>
-                            <h3 className="text-lg font-semibold text-gray-900 mb-4">Primary Details</h3>
-                            <div className="grid grid-cols-2 gap-y-6 gap-x-12">
-                                <div>
-                                    <label className="text-sm text-gray-500 block mb-1">Product name</label>
-                                    <div className="text-gray-900">{product.name}</div>
-                                </div>
-                                <div>
-                                    <label className="text-sm text-gray-500 block mb-1">Product ID</label>
-                                    <div className="text-gray-900">{product.id}</div>
-                                </div>
-                                <div>
-                                    <label className="text-sm text-gray-500 block mb-1">Product category</label>
-                                    <div className="text-gray-900">{product.category}</div>
-                                </div>
-                                <div>
-                                    <label className="text-sm text-gray-500 block mb-1">Expiry Date</label>
-                                    <div className="text-gray-900">{product.expiryDate}</div>
-                                </div>
-                                <div>
-                                    <label className="text-sm text-gray-500 block mb-1">Threshold Value</label>
-                                    <div className="text-gray-900">{product.thresholdValue}</div>
+                {activeTab === "history" ? (
+                    <div className="bg-gray-50 rounded-lg overflow-hidden">
+                        <table className="w-full text-sm">
+                            <thead className="bg-gray-100">
+                                <tr>
+                                    <th className="py-3 px-4 text-left font-medium text-gray-500">Date</th>
+                                    <th className="py-3 px-4 text-left font-medium text-gray-500">User</th>
+                                    <th className="py-3 px-4 text-left font-medium text-gray-500">Action</th>
+                                    <th className="py-3 px-4 text-left font-medium text-gray-500">Changes</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-200">
+                                {isHistoryLoading ? (
+                                    <tr><td colSpan={4} className="py-8 text-center text-gray-500">Loading history...</td></tr>
+                                ) : historyError ? (
+                                    <tr><td colSpan={4} className="py-8 text-center text-gray-500">{historyError}</td></tr>
+                                ) : history.length === 0 ? (
+                                    <tr><td colSpan={4} className="py-8 text-center text-gray-500">No changes recorded yet</td></tr>
+                                ) : history.map((entry) => (
+                                    <tr key={entry.id} className="align-top">
+                                        <td className="py-3 px-4 text-gray-500 whitespace-nowrap">{new Date(entry.timestamp).toLocaleString()}</td>
+                                        <td className="py-3 px-4 text-gray-900">{entry.actor?.username ?? "system"}</td>
+                                        <td className="py-3 px-4 text-gray-900 capitalize">{entry.action}</td>
+                                        <td className="py-3 px-4 text-gray-500">
+                                            <ul className="space-y-1">
+                                                {entry.changes.map((change) => (
+                                                    <li key={change.field}>
+                                                        <span className="font-medium text-gray-900">{change.field}</span>
+                                                        {": "}
+                                                        {formatAuditValue(change.before)} → {formatAuditValue(change.after)}
+                                                    </li>
+                                                ))}
+                                            </ul>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                ) : (
+                    <div className="grid grid-cols-3 gap-12">
+                        <div className="col-span-2 space-y-8">
+                            <div>
+                                <h3 className="text-lg font-semibold text-gray-900 mb-4">Primary Details</h3>
+                                <div className="grid grid-cols-2 gap-y-6 gap-x-12">
+                                    <div>
+                                        <label className="text-sm text-gray-500 block mb-1">Product name</label>
+                                        <div className="text-gray-900">{product.name}</div>
+                                    </div>
+                                    <div>
+                                        <label className="text-sm text-gray-500 block mb-1">Product ID</label>
+                                        <div className="text-gray-900">{product.id}</div>
+                                    </div>
+                                    <div>
+                                        <label className="text-sm text-gray-500 block mb-1">SKU</label>
+                                        <div className="text-gray-900">{product.sku || "-"}</div>
+                                    </div>
+                                    <div>
+                                        <label className="text-sm text-gray-500 block mb-1">Product category</label>
+                                        <div className="text-gray-900">{product.category}</div>
+                                    </div>
+                                    <div>
+                                        <label className="text-sm text-gray-500 block mb-1">Expiry Date</label>
+                                        <div className="text-gray-900">{product.expiryDate}</div>
+                                    </div>
+                                    <div>
+                                        <label className="text-sm text-gray-500 block mb-1">Threshold Value</label>
+                                        <div className="text-gray-900">{product.thresholdValue}</div>
+                                    </div>
                                 </div>
                             </div>
-                        </div>
 
-                        <div>
-                            <h3 className="text-lg font-semibold text-gray-900 mb-4">Supplier Details</h3>
-                            <div className="grid grid-cols-2 gap-y-6 gap-x-12">
-                                <div>
-                                    <label className="text-sm text-gray-500 block mb-1">Supplier name</label>
-                                    <div className="text-gray-900">Ronald Martin</div>
-                                </div>
-                                <div>
-                                    <label className="text-sm text-gray-500 block mb-1">Contact Number</label>
-                                    <div className="text-gray-900">98789 86757</div>
+                            <div>
+                                <h3 className="text-lg font-semibold text-gray-900 mb-4">Supplier Details</h3>
+                                <div className="grid grid-cols-2 gap-y-6 gap-x-12">
+                                    <div>
+                                        <label className="text-sm text-gray-500 block mb-1">Supplier name</label>
+                                        <div className="text-gray-900">Ronald Martin</div>
+                                    </div>
+                                    <div>
+                                        <label className="text-sm text-gray-500 block mb-1">Contact Number</label>
+                                        <div className="text-gray-900">98789 86757</div>
+                                    </div>
                                 </div>
                             </div>
-                        </div>
 
-                        <div>
-                            <h3 className="text-lg font-semibold text-gray-900 mb-4">Stock Locations</h3>
-                            <div className="bg-gray-50 rounded-lg overflow-hidden">
-                                <table className="w-full text-sm">
-                                    <thead className="bg-gray-100">
-                                        <tr>
-                                            <th className="py-3 px-4 text-left font-medium text-gray-500">Store Name</th>
-                                            <th className="py-3 px-4 text-right font-medium text-gray-500">Stock in hand</th>
-                                        </tr>
-                                    </thead>
-                                    <tbody className="divide-y divide-gray-200">
-                                        <tr>
-                                            <td className="py-3 px-4 text-gray-500">Sulur Branch</td>
-                                            <td className="py-3 px-4 text-right text-blue-600 font-medium">15</td>
-                                        </tr>
-                                        <tr>
-                                            <td className="py-3 px-4 text-gray-500">Singanallur Branch</td>
-                                            <td className="py-3 px-4 text-right text-blue-600 font-medium">19</td>
-                                        </tr>
-                                    </tbody>
-                                </table>
+                            <div>
+                                <h3 className="text-lg font-semibold text-gray-900 mb-4">Stock Locations</h3>
+                                <div className="bg-gray-50 rounded-lg overflow-hidden">
+                                    <table className="w-full text-sm">
+                                        <thead className="bg-gray-100">
+                                            <tr>
+                                                <th className="py-3 px-4 text-left font-medium text-gray-500">Store Name</th>
+                                                <th className="py-3 px-4 text-right font-medium text-gray-500">Stock in hand</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody className="divide-y divide-gray-200">
+                                            <tr>
+                                                <td className="py-3 px-4 text-gray-500">Sulur Branch</td>
+                                                <td className="py-3 px-4 text-right text-blue-600 font-medium">15</td>
+                                            </tr>
+                                            <tr>
+                                                <td className="py-3 px-4 text-gray-500">Singanallur Branch</td>
+                                                <td className="py-3 px-4 text-right text-blue-600 font-medium">19</td>
+                                            </tr>
+                                        </tbody>
+                                    </table>
+                                </div>
                             </div>
                         </div>
-                    </div>
 
-                    <div className="col-span-1">
-                        <div className="border border-dashed border-gray-300 rounded-lg p-4 mb-8 flex items-center justify-center min-h-[200px]">
-                            {/* Placeholder image */}
-                            <div className="text-center">
-                                <img src="/placeholder.png" alt={product.name} className="max-w-[150px] mx-auto mb-4" />
+                        <div className="col-span-1">
+                            <div className="border border-dashed border-gray-300 rounded-lg p-4 mb-8 flex items-center justify-center min-h-[200px]">
+                                {/* Placeholder image */}
+                                <div className="text-center">
+                                    <img src="/placeholder.png" alt={product.name} className="max-w-[150px] mx-auto mb-4" />
+                                </div>
                             </div>
-                        </div>
 
-                        <div className="space-y-6">
-                            <div className="flex justify-between items-center">
-                                <span className="text-gray-500">Opening Stock</span>
-                                <span className="font-medium text-gray-900">40</span>
-                            </div>
-                            <div className="flex justify-between items-center">
-                                <span className="text-gray-500">Remaining Stock</span>
-                                <span className="font-medium text-gray-900">34</span>
-                            </div>
-                            <div className="flex justify-between items-center">
-                                <span className="text-gray-500">On the way</span>
-                                <span className="font-medium text-gray-900">15</span>
-                            </div>
-                            <div className="flex justify-between items-center">
-                                <span className="text-gray-500">Threshold value</span>
-                                <span className="font-medium text-gray-900">12</span>
+                            <div className="space-y-6">
+                                <div className="flex justify-between items-center">
+                                    <span className="text-gray-500">Opening Stock</span>
+                                    <span className="font-medium text-gray-900">40</span>
+                                </div>
+                                <div className="flex justify-between items-center">
+                                    <span className="text-gray-500">Remaining Stock</span>
+                                    <span className="font-medium text-gray-900">34</span>
+                                </div>
+                                <div className="flex justify-between items-center">
+                                    <span className="text-gray-500">On the way</span>
+                                    <span className="font-medium text-gray-900">15</span>
+                                </div>
+                                <div className="flex justify-between items-center">
+                                    <span className="text-gray-500">Threshold value</span>
+                                    <span className="font-medium text-gray-900">12</span>
+                                </div>
                             </div>
                         </div>
                     </div>
-                </div>
+                )}
             </div>
         </div>
     );
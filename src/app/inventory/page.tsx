@@ -1,6 +1,6 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 
 import { Button } from "@/components/ui/Button";
 import { Input } from "@/components/ui/Input";
@@ -9,20 +9,46 @@ import { Card, CardHeader, CardTitle } from "@/components/ui/Card";
 import { Filter, Download, Plus, Upload } from "lucide-react";
 import { Product } from "@/lib/db";
 import Link from "next/link";
-import { cn } from "@/lib/utils";
+import { cn, formatMoney } from "@/lib/utils";
+import { describeProblem, readProblem } from "@/lib/problem";
+import { fetchPage } from "@/lib/pagination";
+import { useSession } from "@/components/layout/SessionContext";
+
+const PAGE_SIZE = 10;
+
+// Stock reserved for confirmed orders (see GET /api/products)
+type StockedProduct = Product & { allocated: number; available: number };
+const AVAILABILITY_OPTIONS: Product["availability"][] = ["In-stock", "Low stock", "Out of stock"];
+const SORT_OPTIONS = [
+    { value: "name", label: "Name (A-Z)" },
+    { value: "-name", label: "Name (Z-A)" },
+    { value: "expiryDate", label: "Expiry (soonest)" },
+    { value: "-quantity", label: "Quantity (highest)" },
+    { value: "buyingPrice", label: "Price (lowest)" },
+];
 
 export default function InventoryPage() {
-    const [products, setProducts] = useState<Product[]>([]);
+    const { settings } = useSession();
+    const [products, setProducts] = useState<StockedProduct[]>([]);
     const [isAddModalOpen, setIsAddModalOpen] = useState(false);
     const [isLoading, setIsLoading] = useState(true);
 
+    // Paging and filters (applied server-side)
+    const [page, setPage] = useState(1);
+    const [total, setTotal] = useState(0);
+    const [showFilters, setShowFilters] = useState(false);
+    const [search, setSearch] = useState("");
+    const [availability, setAvailability] = useState("");
+    const [sort, setSort] = useState("name");
+    const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
     const [imageFile, setImageFile] = useState<File | null>(null);
     const [imagePreview, setImagePreview] = useState<string | null>(null);
 
     // Form state
     const [newProduct, setNewProduct] = useState<Partial<Product>>({
         name: "",
-        id: "",
+        sku: "",
         category: "",
         buyingPrice: 0,
         quantity: 0,
@@ -31,33 +57,49 @@ export default function InventoryPage() {
         thresholdValue: 0,
     });
 
-    useEffect(() => {
-        fetchProducts();
-    }, []);
-
-    const fetchProducts = async () => {
+    const fetchProducts = useCallback(async () => {
+        setIsLoading(true);
         try {
-            const res = await fetch("/api/products");
-            const data = await res.json();
-            setProducts(data);
+            const data = await fetchPage<StockedProduct>("/api/products", {
+                search,
+                availability,
+                sort,
+                limit: PAGE_SIZE,
+                offset: (page - 1) * PAGE_SIZE,
+            });
+            setProducts(data.items);
+            setTotal(data.total);
         } catch (error) {
             console.error("Failed to fetch products", error);
         } finally {
             setIsLoading(false);
         }
+    }, [page, search, availability, sort]);
+
+    useEffect(() => {
+        fetchProducts();
+    }, [fetchProducts]);
+
+    // Any filter change starts again from the first page
+    const updateFilter = (apply: () => void) => {
+        apply();
+        setPage(1);
     };
 
     const handleAddProduct = async () => {
         try {
             const formData = new FormData();
             formData.append("name", newProduct.name || "");
-            formData.append("id", newProduct.id || "");
+            formData.append("sku", newProduct.sku || "");
             formData.append("category", newProduct.category || "");
             formData.append("buyingPrice", String(newProduct.buyingPrice || 0));
             formData.append("quantity", String(newProduct.quantity || 0));
-            formData.append("unit", newProduct.unit || "");
+            formData.append("unit", newProduct.unit || settings?.unitsOfMeasure[0] || "");
             formData.append("expiryDate", newProduct.expiryDate || "");
-            formData.append("thresholdValue", String(newProduct.thresholdValue || 0));
+            // Left empty, the server applies the default low-stock threshold from the settings
+            if (newProduct.thresholdValue) {
+                formData.append("thresholdValue", String(newProduct.thresholdValue));
+            }
             formData.append("availability", (newProduct.quantity || 0) > 0 ? "In-stock" : "Out of stock");
 
             if (imageFile) {
@@ -73,7 +115,7 @@ export default function InventoryPage() {
                 fetchProducts();
                 setNewProduct({
                     name: "",
-                    id: "",
+                    sku: "",
                     category: "",
                     buyingPrice: 0,
                     quantity: 0,
@@ -84,6 +126,8 @@ export default function InventoryPage() {
                 });
                 setImageFile(null);
                 setImagePreview(null);
+            } else {
+                alert(describeProblem(await readProblem(res)));
             }
         } catch (error) {
             console.error("Failed to add product", error);
@@ -95,7 +139,7 @@ export default function InventoryPage() {
             <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
                 <h1 className="text-2xl font-bold text-foreground">Inventory</h1>
                 <div className="text-sm text-secondary">
-                    Total Products: {products.length}
+                    Total Products: {total}
                 </div>
             </div>
 
@@ -108,7 +152,11 @@ export default function InventoryPage() {
                             <Plus className="w-4 h-4" />
                             Add Product
                         </Button>
-                        <Button variant="outline" className="flex-1 sm:flex-none gap-2">
+                        <Button
+                            variant={showFilters ? "primary" : "outline"}
+                            className="flex-1 sm:flex-none gap-2"
+                            onClick={() => setShowFilters(!showFilters)}
+                        >
                             <Filter className="w-4 h-4" />
                             Filters
                         </Button>
@@ -119,6 +167,37 @@ export default function InventoryPage() {
                     </div>
                 </CardHeader>
 
+                {showFilters && (
+                    <div className="flex flex-col sm:flex-row gap-3 p-4 border-b border-border bg-surface-hover/20">
+                        <input
+                            type="search"
+                            placeholder="Search name or SKU"
+                            className="flex-1 border border-border rounded-lg px-3 py-2 text-sm"
+                            value={search}
+                            onChange={(e) => updateFilter(() => setSearch(e.target.value))}
+                        />
+                        <select
+                            className="border border-border rounded-lg px-3 py-2 text-sm"
+                            value={availability}
+                            onChange={(e) => updateFilter(() => setAvailability(e.target.value))}
+                        >
+                            <option value="">All availability</option>
+                            {AVAILABILITY_OPTIONS.map((option) => (
+                                <option key={option} value={option}>{option}</option>
+                            ))}
+                        </select>
+                        <select
+                            className="border border-border rounded-lg px-3 py-2 text-sm"
+                            value={sort}
+                            onChange={(e) => updateFilter(() => setSort(e.target.value))}
+                        >
+                            {SORT_OPTIONS.map((option) => (
+                                <option key={option.value} value={option.value}>{option.label}</option>
+                            ))}
+                        </select>
+                    </div>
+                )}
+
                 <div className="overflow-x-auto">
                     <table className="w-full text-sm text-left">
                         <thead className="text-xs text-secondary uppercase bg-surface-hover/50 border-b border-border">
@@ -126,6 +205,8 @@ export default function InventoryPage() {
                                 <th className="py-4 px-6 font-semibold">Products</th>
                                 <th className="py-4 px-6 font-semibold">Buying Price</th>
                                 <th className="py-4 px-6 font-semibold">Quantity</th>
+                                <th className="py-4 px-6 font-semibold">Allocated</th>
+                                <th className="py-4 px-6 font-semibold">Available</th>
                                 <th className="py-4 px-6 font-semibold">Threshold Value</th>
                                 <th className="py-4 px-6 font-semibold">Expiry Date</th>
                                 <th className="py-4 px-6 font-semibold">Availability</th>
@@ -133,7 +214,9 @@ export default function InventoryPage() {
                         </thead>
                         <tbody className="divide-y divide-border">
                             {isLoading ? (
-                                <tr><td colSpan={6} className="text-center py-12 text-secondary">Loading products...</td></tr>
+                                <tr><td colSpan={8} className="text-center py-12 text-secondary">Loading products...</td></tr>
+                            ) : products.length === 0 ? (
+                                <tr><td colSpan={8} className="text-center py-12 text-secondary">No products found</td></tr>
                             ) : products.map((product) => (
                                 <tr key={product.id} className="hover:bg-surface-hover/50 transition-colors cursor-pointer group">
                                     <td className="py-4 px-6 font-medium text-foreground group-hover:text-primary transition-colors">
@@ -141,9 +224,13 @@ export default function InventoryPage() {
                                             {product.name}
                                         </Link>
                                     </td>
-                                    <td className="py-4 px-6 text-secondary">{product.buyingPrice}฿</td>
-                                    <td className="py-4 px-6 text-secondary">{product.quantity} Packets</td>
-                                    <td className="py-4 px-6 text-secondary">{product.thresholdValue} Packets</td>
+                                    <td className="py-4 px-6 text-secondary">{formatMoney(product.buyingPrice, settings?.currency)}</td>
+                                    <td className="py-4 px-6 text-secondary">{product.quantity} {product.unit}</td>
+                                    <td className="py-4 px-6 text-secondary">{product.allocated} {product.unit}</td>
+                                    <td className={cn("py-4 px-6", product.available < 0 ? "text-danger font-medium" : "text-secondary")}>
+                                        {product.available} {product.unit}
+                                    </td>
+                                    <td className="py-4 px-6 text-secondary">{product.thresholdValue} {product.unit}</td>
                                     <td className="py-4 px-6 text-secondary">{product.expiryDate}</td>
                                     <td className="py-4 px-6">
                                         <span
@@ -163,11 +250,14 @@ export default function InventoryPage() {
                     </table>
                 </div>
 
-                {/* Pagination Placeholder */}
                 <div className="flex items-center justify-between p-4 border-t border-border bg-surface-hover/20 rounded-b-xl">
-                    <Button variant="outline" size="sm" disabled>Previous</Button>
-                    <span className="text-sm text-secondary">Page 1 of 10</span>
-                    <Button variant="outline" size="sm">Next</Button>
+                    <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                        Previous
+                    </Button>
+                    <span className="text-sm text-secondary">Page {page} of {pageCount}</span>
+                    <Button variant="outline" size="sm" disabled={page >= pageCount} onClick={() => setPage(page + 1)}>
+                        Next
+                    </Button>
                 </div>
             </Card>
 
@@ -226,10 +316,10 @@ export default function InventoryPage() {
                         onChange={(e) => setNewProduct({ ...newProduct, name: e.target.value })}
                     />
                     <Input
-                        label="Product ID"
-                        placeholder="Enter product ID"
-                        value={newProduct.id}
-                        onChange={(e) => setNewProduct({ ...newProduct, id: e.target.value })}
+                        label="SKU"
+                        placeholder="Enter SKU (optional)"
+                        value={newProduct.sku}
+                        onChange={(e) => setNewProduct({ ...newProduct, sku: e.target.value })}
                     />
                     <Input
                         label="Category"
@@ -251,12 +341,18 @@ export default function InventoryPage() {
                         value={newProduct.quantity || ''}
                         onChange={(e) => setNewProduct({ ...newProduct, quantity: Number(e.target.value) })}
                     />
-                    <Input
-                        label="Unit"
-                        placeholder="Enter product unit"
-                        value={newProduct.unit}
-                        onChange={(e) => setNewProduct({ ...newProduct, unit: e.target.value })}
-                    />
+                    <div className="space-y-1.5">
+                        <label className="text-sm font-medium text-foreground">Unit</label>
+                        <select
+                            className="w-full border border-border rounded-lg px-3 py-2.5 text-sm"
+                            value={newProduct.unit || settings?.unitsOfMeasure[0] || ""}
+                            onChange={(e) => setNewProduct({ ...newProduct, unit: e.target.value })}
+                        >
+                            {settings?.unitsOfMeasure.map((unit) => (
+                                <option key={unit} value={unit}>{unit}</option>
+                            ))}
+                        </select>
+                    </div>
                     <Input
                         label="Expiry Date"
                         type="date"
@@ -265,7 +361,7 @@ export default function InventoryPage() {
                     />
                     <Input
                         label="Threshold Value"
-                        placeholder="Enter threshold value"
+                        placeholder={settings ? `Default: ${settings.lowStockThreshold}` : "Enter threshold value"}
                         type="number"
                         value={newProduct.thresholdValue || ''}
                         onChange={(e) => setNewProduct({ ...newProduct, thresholdValue: Number(e.target.value) })}
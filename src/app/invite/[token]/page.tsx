@@ -0,0 +1,168 @@
+"use client";
+
+import { FormEvent, useEffect, useState } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/Card";
+import { InvitationStatus } from "@/lib/db";
+import { describeProblem, readProblem } from "@/lib/problem";
+
+// What GET /api/invitations/[token] tells the holder of the link
+type InvitationDetails = {
+    exhibition?: { name: string; exhibitionId: string; startDate?: string; endDate?: string };
+    supplier?: { companyName: string };
+    email?: string;
+    expiresAt: string;
+    deadline: string;
+    status: InvitationStatus;
+    signedInAs: string | null;
+};
+
+/**
+ * Landing page of an invitation link: the invited supplier creates its account
+ * (or accepts as the signed-in supplier user) and continues in the portal.
+ */
+export default function InvitePage() {
+    const { token } = useParams<{ token: string }>();
+
+    const [invitation, setInvitation] = useState<InvitationDetails | null>(null);
+    const [loadError, setLoadError] = useState<string | null>(null);
+    const [account, setAccount] = useState({ fullName: "", username: "", password: "" });
+    const [error, setError] = useState<string | null>(null);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    useEffect(() => {
+        const fetchInvitation = async () => {
+            try {
+                const res = await fetch(`/api/invitations/${token}`);
+                if (!res.ok) {
+                    setLoadError(res.status === 404
+                        ? "This invitation link is not valid. It may have been revoked."
+                        : describeProblem(await readProblem(res)));
+                    return;
+                }
+                setInvitation(await res.json());
+            } catch (error) {
+                console.error("Failed to load invitation", error);
+                setLoadError("Could not reach the server. Please try again.");
+            }
+        };
+        fetchInvitation();
+    }, [token]);
+
+    const handleAccept = async (e?: FormEvent) => {
+        e?.preventDefault();
+        if (!invitation) return;
+        setIsSubmitting(true);
+        setError(null);
+        try {
+            const res = await fetch(`/api/invitations/${token}/accept`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify(invitation.signedInAs ? {} : { account }),
+            });
+            if (!res.ok) {
+                setError(describeProblem(await readProblem(res)));
+                return;
+            }
+            // Full navigation so the portal starts with the new session
+            window.location.assign("/portal");
+        } catch (error) {
+            console.error("Failed to accept invitation", error);
+            setError("Could not reach the server. Please try again.");
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const renderBody = () => {
+        if (loadError) return <p className="text-sm text-danger">{loadError}</p>;
+        if (!invitation) return <p className="text-sm text-secondary">Loading invitation...</p>;
+        if (invitation.status === "expired") {
+            return <p className="text-sm text-danger">This invitation has expired. Ask the exhibition team for a new one.</p>;
+        }
+        if (invitation.status === "overdue") {
+            return <p className="text-sm text-danger">The submission deadline for this exhibition has passed.</p>;
+        }
+        if (invitation.status !== "invited") {
+            return (
+                <p className="text-sm text-secondary">
+                    This invitation has already been accepted. <Link href="/login" className="text-primary hover:underline">Sign in</Link> to continue.
+                </p>
+            );
+        }
+        if (invitation.signedInAs) {
+            return (
+                <div className="space-y-4">
+                    <p className="text-sm text-secondary">You are signed in as {invitation.signedInAs}.</p>
+                    {error && <p className="text-sm text-danger">{error}</p>}
+                    <Button className="w-full" disabled={isSubmitting} onClick={() => handleAccept()}>
+                        {isSubmitting ? "Accepting..." : "Accept Invitation"}
+                    </Button>
+                </div>
+            );
+        }
+        return (
+            <form onSubmit={handleAccept} className="space-y-4">
+                <p className="text-sm text-secondary">Create your account to accept.</p>
+                <Input
+                    label="Full Name"
+                    autoComplete="name"
+                    value={account.fullName}
+                    onChange={(e) => setAccount({ ...account, fullName: e.target.value })}
+                    required
+                />
+                <Input
+                    label="Username"
+                    autoComplete="username"
+                    placeholder="lowercase, e.g. jane.doe"
+                    value={account.username}
+                    onChange={(e) => setAccount({ ...account, username: e.target.value })}
+                    required
+                />
+                <Input
+                    label="Password"
+                    type="password"
+                    autoComplete="new-password"
+                    value={account.password}
+                    onChange={(e) => setAccount({ ...account, password: e.target.value })}
+                    required
+                />
+                {error && <p className="text-sm text-danger">{error}</p>}
+                <Button type="submit" className="w-full" disabled={isSubmitting}>
+                    {isSubmitting ? "Accepting..." : "Create Account & Accept"}
+                </Button>
+            </form>
+        );
+    };
+
+    return (
+        <div className="min-h-screen flex items-center justify-center p-4">
+            <Card className="w-full max-w-md border-border shadow-sm">
+                <CardHeader className="space-y-3">
+                    <div className="flex items-center gap-3">
+                        <div className="w-8 h-8 bg-primary rounded-lg flex items-center justify-center">
+                            <span className="text-white font-bold text-xl">T</span>
+                        </div>
+                        <span className="text-foreground font-bold text-lg tracking-tight">Transpo</span>
+                    </div>
+                    <CardTitle className="text-xl font-semibold text-foreground">Exhibition Invitation</CardTitle>
+                    {invitation && (
+                        <div className="text-sm text-secondary space-y-1">
+                            <p>
+                                <span className="font-medium text-foreground">{invitation.supplier?.companyName}</span> is invited to
+                                submit product lists for <span className="font-medium text-foreground">{invitation.exhibition?.name}</span>
+                                {invitation.exhibition && ` (${invitation.exhibition.exhibitionId})`}.
+                            </p>
+                            <p>Submission deadline: {new Date(invitation.deadline).toLocaleString()}</p>
+                            <p>Link valid until: {new Date(invitation.expiresAt).toLocaleString()}</p>
+                        </div>
+                    )}
+                </CardHeader>
+                <CardContent>{renderBody()}</CardContent>
+            </Card>
+        </div>
+    );
+}
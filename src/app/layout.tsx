@@ -1,8 +1,6 @@
 import type { Metadata } from "next";
 import { Inter } from "next/font/google";
 import "./globals.css";
-import { Sidebar } from "@/components/layout/Sidebar";
-import { TopBar } from "@/components/layout/TopBar";
 import { Shell } from "@/components/layout/Shell";
 
 const inter = Inter({ subsets: ["latin"] });
@@ -20,15 +18,7 @@ export default function RootLayout({
   return (
     <html lang="en">
       <body className={inter.className}>
-        <Shell>
-          <Sidebar />
-          <TopBar />
-          <main className="md:pl-64 pt-16 min-h-screen transition-all duration-300">
-            <div className="p-4 md:p-8 max-w-7xl mx-auto">
-              {children}
-            </div>
-          </main>
-        </Shell>
+        <Shell>{children}</Shell>
       </body>
     </html>
   );
@@ -0,0 +1,84 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/Card";
+import { describeProblem, readProblem } from "@/lib/problem";
+
+// Where to go after signing in; only same-site paths are accepted
+const getNextPath = (fallback: string) => {
+    const next = new URLSearchParams(window.location.search).get("next");
+    return next && next.startsWith("/") && !next.startsWith("//") ? next : fallback;
+};
+
+export default function LoginPage() {
+    const [username, setUsername] = useState("");
+    const [password, setPassword] = useState("");
+    const [error, setError] = useState<string | null>(null);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const handleSubmit = async (e: FormEvent) => {
+        e.preventDefault();
+        setIsSubmitting(true);
+        setError(null);
+        try {
+            const res = await fetch("/api/auth/login", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ username, password }),
+            });
+            if (!res.ok) {
+                setError(describeProblem(await readProblem(res)));
+                return;
+            }
+            // Full navigation so every page starts with the new session; suppliers land in their portal
+            const { user } = await res.json();
+            window.location.assign(getNextPath(user.supplierId ? "/portal" : "/"));
+        } catch (error) {
+            console.error("Failed to sign in", error);
+            setError("Could not reach the server. Please try again.");
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <div className="min-h-screen flex items-center justify-center p-4">
+            <Card className="w-full max-w-sm border-border shadow-sm">
+                <CardHeader className="space-y-3">
+                    <div className="flex items-center gap-3">
+                        <div className="w-8 h-8 bg-primary rounded-lg flex items-center justify-center">
+                            <span className="text-white font-bold text-xl">T</span>
+                        </div>
+                        <span className="text-foreground font-bold text-lg tracking-tight">Transpo</span>
+                    </div>
+                    <CardTitle className="text-xl font-semibold text-foreground">Sign in</CardTitle>
+                </CardHeader>
+                <CardContent>
+                    <form onSubmit={handleSubmit} className="space-y-4">
+                        <Input
+                            label="Username"
+                            autoComplete="username"
+                            value={username}
+                            onChange={(e) => setUsername(e.target.value)}
+                            required
+                        />
+                        <Input
+                            label="Password"
+                            type="password"
+                            autoComplete="current-password"
+                            value={password}
+                            onChange={(e) => setPassword(e.target.value)}
+                            required
+                        />
+                        {error && <p className="text-sm text-danger">{error}</p>}
+                        <Button type="submit" className="w-full" disabled={isSubmitting}>
+                            {isSubmitting ? "Signing in..." : "Sign in"}
+                        </Button>
+                    </form>
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
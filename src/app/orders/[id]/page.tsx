@@ -0,0 +1,397 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/Card";
+import { Order, OrderLine } from "@/lib/db";
+import { ArrowLeft, Plus, Save, Trash2 } from "lucide-react";
+import { useParams, useRouter } from "next/navigation";
+import { cn, formatMoney } from "@/lib/utils";
+import { describeProblem, readProblem } from "@/lib/problem";
+import { useSession } from "@/components/layout/SessionContext";
+
+interface EnrichedOrderLine extends OrderLine {
+    status: "OPEN" | "PICKED" | "SHIPPED" | "RECEIVED" | "SHORT";
+    // Stock held for the line and the part of it that was not available
+    reserved: number;
+    shortfall: number;
+    productName?: string;
+    productSKU?: string;
+    productUnit?: string;
+    supplierName?: string;
+}
+
+interface OrderDetail extends Order {
+    items: EnrichedOrderLine[];
+    availableTransitions: string[];
+}
+
+interface ExhibitionProductOption {
+    productId: string;
+    status: string;
+    productName?: string;
+    productUnit?: string;
+}
+
+// Transitions that have to say why they are taken
+const REASON_TRANSITIONS = ["cancel", "return"];
+
+const LINE_STATUS_STYLES: Record<EnrichedOrderLine["status"], string> = {
+    OPEN: "bg-secondary/10 text-secondary border-secondary/20",
+    PICKED: "bg-info/10 text-info border-info/20",
+    SHIPPED: "bg-info/10 text-info border-info/20",
+    RECEIVED: "bg-success/10 text-success border-success/20",
+    SHORT: "bg-warning/10 text-warning border-warning/20",
+};
+
+/**
+ * One order: its lines with what was picked, shipped and received, delivery
+ * details, notes and status history. Lines can be changed while the order is
+ * a draft; the workflow buttons take the transitions the order allows.
+ */
+export default function OrderDetailPage() {
+    const params = useParams();
+    const router = useRouter();
+    const orderId = params.id as string;
+    const { settings } = useSession();
+
+    const [order, setOrder] = useState<OrderDetail | null>(null);
+    const [products, setProducts] = useState<ExhibitionProductOption[]>([]);
+    const [newProductId, setNewProductId] = useState("");
+    const [isLoading, setIsLoading] = useState(true);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const fetchOrder = useCallback(async () => {
+        try {
+            const res = await fetch(`/api/orders/${orderId}`);
+            if (!res.ok) {
+                const problem = await readProblem(res);
+                if (problem.code === "NOT_FOUND") {
+                    setOrder(null);
+                    return;
+                }
+                throw new Error(problem.detail);
+            }
+            setOrder(await res.json());
+        } catch (error) {
+            console.error("Failed to fetch order", error);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [orderId]);
+
+    useEffect(() => {
+        fetchOrder();
+    }, [fetchOrder]);
+
+    const isDraft = order?.status === "DRAFT";
+    const exhibitionId = order?.exhibitionId;
+
+    // Lines can only be added for products approved for the exhibition
+    useEffect(() => {
+        if (!isDraft || !exhibitionId) return;
+        fetch(`/api/exhibitions/${exhibitionId}/products`)
+            .then((res) => (res.ok ? res.json() : []))
+            .then((data: ExhibitionProductOption[]) => setProducts(data.filter((p) => p.status === "approved")))
+            .catch((error) => console.error("Failed to fetch exhibition products", error));
+    }, [isDraft, exhibitionId]);
+
+    if (isLoading) return <div className="p-6 text-center text-secondary">Loading...</div>;
+    if (!order) return <div className="p-6 text-center text-secondary">Order not found</div>;
+
+    const updateLine = (lineId: string, changes: Partial<EnrichedOrderLine>) => {
+        setOrder({ ...order, items: order.items.map((line) => (line.id === lineId ? { ...line, ...changes } : line)) });
+    };
+
+    const removeLine = (lineId: string) => {
+        setOrder({ ...order, items: order.items.filter((line) => line.id !== lineId) });
+    };
+
+    const addLine = () => {
+        const product = products.find((p) => p.productId === newProductId);
+        if (!product) return;
+        // Saved without an id, the server numbers the new line
+        setOrder({
+            ...order,
+            items: [
+                ...order.items,
+                {
+                    id: `new-${Date.now()}`,
+                    productId: product.productId,
+                    quantity: 1,
+                    price: 0,
+                    status: "OPEN",
+                    reserved: 0,
+                    shortfall: 0,
+                    productName: product.productName,
+                    productUnit: product.productUnit,
+                },
+            ],
+        });
+        setNewProductId("");
+    };
+
+    const handleSave = async () => {
+        setIsSaving(true);
+        try {
+            const res = await fetch(`/api/orders/${orderId}`, {
+                method: "PUT",
+                headers: {
+                    "Content-Type": "application/json",
+                    "If-Match": `"${order.version}"`,
+                },
+                body: JSON.stringify({
+                    notes: order.notes ?? "",
+                    ...(order.expectedDelivery && { expectedDelivery: order.expectedDelivery }),
+                    ...(isDraft && {
+                        items: order.items.map(({ id, productId, quantity, price }) => ({
+                            ...(!id.startsWith("new-") && { id }),
+                            productId,
+                            quantity,
+                            price,
+                        })),
+                    }),
+                }),
+            });
+            if (!res.ok) {
+                const problem = await readProblem(res);
+                alert(`Could not save the order:\n${describeProblem(problem)}`);
+                if (problem.code === "VERSION_CONFLICT" || problem.code === "PRECONDITION_FAILED") {
+                    // Someone else saved first - show what is on the server now
+                    fetchOrder();
+                }
+                return;
+            }
+            await fetchOrder();
+        } catch (error) {
+            console.error("Failed to save order", error);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleTransition = async (transition: string) => {
+        let reason: string | null = null;
+        if (REASON_TRANSITIONS.includes(transition)) {
+            reason = prompt(`Why ${transition} this order?`);
+            if (!reason) return;
+        }
+        try {
+            const res = await fetch(`/api/orders/${orderId}/${transition}`, {
+                method: "POST",
+                headers: {
+                    "Content-Type": "application/json",
+                    "If-Match": `"${order.version}"`,
+                },
+                body: JSON.stringify({
+                    ...(reason && { reason }),
+                    ...(transition === "ship" && order.expectedDelivery && { expectedDelivery: order.expectedDelivery }),
+                }),
+            });
+            if (!res.ok) {
+                alert(describeProblem(await readProblem(res)));
+                return;
+            }
+            await fetchOrder();
+        } catch (error) {
+            console.error(`Failed to ${transition} order`, error);
+        }
+    };
+
+    const total = order.items.reduce((sum, line) => sum + (line.price ?? 0) * line.quantity, 0);
+
+    return (
+        <div className="space-y-6 animate-in fade-in duration-500">
+            <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+                <div className="flex items-center gap-4">
+                    <Button variant="ghost" className="p-2 h-auto hover:bg-surface-hover rounded-full text-secondary hover:text-foreground" onClick={() => router.back()}>
+                        <ArrowLeft className="w-5 h-5" />
+                    </Button>
+                    <div>
+                        <h1 className="text-2xl font-bold text-foreground">Order {order.orderNumber ?? order.id}</h1>
+                        <div className="flex items-center gap-2 text-sm text-secondary mt-1">
+                            <span>{order.exhibition ?? "No exhibition"}</span>
+                            <span>•</span>
+                            <span className="font-medium text-foreground">Status: {order.status}</span>
+                            {order.createdAt && (
+                                <>
+                                    <span>•</span>
+                                    <span>Created {new Date(order.createdAt).toLocaleDateString()}</span>
+                                </>
+                            )}
+                        </div>
+                    </div>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                    {order.availableTransitions.map((transition) => (
+                        <Button
+                            key={transition}
+                            variant={transition === "cancel" ? "outline" : "primary"}
+                            className={cn("capitalize", transition === "cancel" && "text-danger border-danger/20 hover:bg-danger/10")}
+                            onClick={() => handleTransition(transition)}
+                        >
+                            {transition}
+                        </Button>
+                    ))}
+                    <Button onClick={handleSave} disabled={isSaving} variant="outline" className="gap-2">
+                        <Save className="w-4 h-4" />
+                        {isSaving ? "Saving..." : "Save Changes"}
+                    </Button>
+                </div>
+            </div>
+
+            <Card className="border-border shadow-sm">
+                <CardHeader className="pb-6 border-b border-border">
+                    <CardTitle className="text-xl font-semibold text-foreground">Delivery & Notes</CardTitle>
+                </CardHeader>
+                <CardContent className="pt-6 grid grid-cols-1 md:grid-cols-3 gap-6">
+                    <Input
+                        label="Expected Delivery"
+                        type="date"
+                        value={order.expectedDelivery?.slice(0, 10) ?? ""}
+                        onChange={(e) => setOrder({ ...order, expectedDelivery: e.target.value || undefined })}
+                    />
+                    <div className="md:col-span-2 space-y-1.5">
+                        <label className="text-sm font-medium text-foreground">Notes</label>
+                        <textarea
+                            className="w-full border border-border rounded-lg px-3 py-2.5 text-sm min-h-[80px]"
+                            value={order.notes ?? ""}
+                            onChange={(e) => setOrder({ ...order, notes: e.target.value })}
+                        />
+                    </div>
+                </CardContent>
+            </Card>
+
+            <Card className="border-border shadow-sm">
+                <CardHeader className="flex flex-row items-center justify-between pb-6 border-b border-border">
+                    <CardTitle className="text-xl font-semibold text-foreground">Lines</CardTitle>
+                    <span className="text-sm text-secondary">
+                        {order.quantity} {order.unit} • {formatMoney(total, settings?.currency)}
+                    </span>
+                </CardHeader>
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm text-left">
+                        <thead className="text-xs text-secondary uppercase bg-surface-hover/50 border-b border-border">
+                            <tr>
+                                <th className="py-4 px-6 font-semibold">Product</th>
+                                <th className="py-4 px-6 font-semibold">Supplier</th>
+                                <th className="py-4 px-6 font-semibold">Price / Unit</th>
+                                <th className="py-4 px-6 font-semibold">Ordered</th>
+                                <th className="py-4 px-6 font-semibold">Picked</th>
+                                <th className="py-4 px-6 font-semibold">Shipped</th>
+                                <th className="py-4 px-6 font-semibold">Received</th>
+                                <th className="py-4 px-6 font-semibold">Status</th>
+                                {isDraft && <th className="py-4 px-6 font-semibold text-right">Actions</th>}
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-border">
+                            {order.items.length === 0 && (
+                                <tr><td colSpan={isDraft ? 9 : 8} className="text-center py-12 text-secondary">No lines yet</td></tr>
+                            )}
+                            {order.items.map((line) => (
+                                <tr key={line.id} className="hover:bg-surface-hover/50 transition-colors">
+                                    <td className="py-4 px-6 font-medium text-foreground">
+                                        {line.productName ?? line.productId}
+                                        {line.productSKU && <div className="text-xs text-secondary">{line.productSKU}</div>}
+                                    </td>
+                                    <td className="py-4 px-6 text-secondary">{line.supplierName ?? "-"}</td>
+                                    <td className="py-4 px-6 text-secondary">
+                                        {isDraft ? (
+                                            <Input
+                                                type="number"
+                                                min={0}
+                                                value={line.price ?? 0}
+                                                onChange={(e) => updateLine(line.id, { price: Number(e.target.value) })}
+                                                className="w-28 h-9"
+                                            />
+                                        ) : (
+                                            <>{formatMoney(line.price ?? 0, settings?.currency)} / {line.productUnit}</>
+                                        )}
+                                    </td>
+                                    <td className="py-4 px-6">
+                                        {isDraft ? (
+                                            <Input
+                                                type="number"
+                                                min={1}
+                                                value={line.quantity}
+                                                onChange={(e) => updateLine(line.id, { quantity: Number(e.target.value) })}
+                                                className="w-24 h-9"
+                                            />
+                                        ) : (
+                                            <span className="text-foreground font-medium">{line.quantity}</span>
+                                        )}
+                                    </td>
+                                    <td className="py-4 px-6 text-secondary">{line.pickedQuantity ?? "-"}</td>
+                                    <td className="py-4 px-6 text-secondary">{line.shippedQuantity ?? "-"}</td>
+                                    <td className="py-4 px-6 text-secondary">{line.receivedQuantity ?? "-"}</td>
+                                    <td className="py-4 px-6">
+                                        <span className={cn("px-2.5 py-1 rounded-full text-xs font-medium border", LINE_STATUS_STYLES[line.status])}>
+                                            {line.status}
+                                        </span>
+                                        {line.shortfall > 0 && (
+                                            <div className="text-xs text-danger mt-1.5">{line.shortfall} not in stock</div>
+                                        )}
+                                    </td>
+                                    {isDraft && (
+                                        <td className="py-4 px-6 text-right">
+                                            <Button
+                                                size="sm"
+                                                variant="outline"
+                                                className="h-8 w-8 p-0 text-danger hover:text-danger hover:bg-danger/10 border-danger/20"
+                                                onClick={() => removeLine(line.id)}
+                                            >
+                                                <Trash2 className="w-4 h-4" />
+                                            </Button>
+                                        </td>
+                                    )}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+                {isDraft && (
+                    <div className="flex gap-3 p-4 border-t border-border">
+                        <select
+                            className="w-full max-w-sm border border-border rounded-lg px-3 py-2 text-sm"
+                            value={newProductId}
+                            onChange={(e) => setNewProductId(e.target.value)}
+                        >
+                            <option value="">Add a product approved for this exhibition...</option>
+                            {products.map((product) => (
+                                <option key={product.productId} value={product.productId}>{product.productName ?? product.productId}</option>
+                            ))}
+                        </select>
+                        <Button variant="outline" className="gap-2" onClick={addLine} disabled={!newProductId}>
+                            <Plus className="w-4 h-4" />
+                            Add Line
+                        </Button>
+                    </div>
+                )}
+            </Card>
+
+            <Card className="border-border shadow-sm">
+                <CardHeader className="pb-6 border-b border-border">
+                    <CardTitle className="text-xl font-semibold text-foreground">Status History</CardTitle>
+                </CardHeader>
+                <CardContent className="pt-6">
+                    {order.statusHistory.length === 0 ? (
+                        <p className="text-sm text-secondary">No transitions taken yet</p>
+                    ) : (
+                        <ol className="space-y-3">
+                            {order.statusHistory.map((change, index) => (
+                                <li key={index} className="text-sm">
+                                    <span className="font-medium text-foreground capitalize">{change.transition}</span>
+                                    <span className="text-secondary"> {change.from} → {change.to}</span>
+                                    <span className="text-secondary"> • {new Date(change.at).toLocaleString()}</span>
+                                    {change.by && <span className="text-secondary"> • {change.by.username}</span>}
+                                    {change.reason && <p className="text-secondary mt-0.5">{change.reason}</p>}
+                                </li>
+                            ))}
+                        </ol>
+                    )}
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
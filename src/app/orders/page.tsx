@@ -1,37 +1,55 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { Fragment, useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
 import { SummaryCard } from "@/components/dashboard/SummaryCard";
 import { Button } from "@/components/ui/Button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/Card";
-import { Filter } from "lucide-react";
-import { Exhibition, ExhibitionProduct } from "@/lib/db";
+import { useSession } from "@/components/layout/SessionContext";
+import { ChevronDown, ChevronRight, Filter } from "lucide-react";
+import { Exhibition, Order } from "@/lib/db";
+import { fetchPage } from "@/lib/pagination";
+import { formatMoney } from "@/lib/utils";
+
+const PAGE_SIZE = 10;
 
 interface ExhibitionWithOrders extends Exhibition {
-    orders: (ExhibitionProduct & { productName?: string; productImage?: string; productUnit?: string })[];
+    orders: Pick<Order, "id" | "orderNumber" | "status" | "quantity" | "orderValue" | "unit" | "expectedDelivery" | "createdAt">[];
     totalValue: number;
     totalQuantity: number;
+    // When its orders were last shipped
+    exportDate?: string;
 }
 
 export default function OrdersPage() {
+    const router = useRouter();
+    const { settings } = useSession();
     const [exhibitions, setExhibitions] = useState<ExhibitionWithOrders[]>([]);
+    const [expandedId, setExpandedId] = useState<string | null>(null);
     const [isLoading, setIsLoading] = useState(true);
+    const [page, setPage] = useState(1);
+    const [total, setTotal] = useState(0);
+    const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
 
-    useEffect(() => {
-        fetchOrders();
-    }, []);
-
-    const fetchOrders = async () => {
+    const fetchOrders = useCallback(async () => {
+        setIsLoading(true);
         try {
-            const res = await fetch("/api/orders");
-            const data = await res.json();
-            setExhibitions(data);
+            const data = await fetchPage<ExhibitionWithOrders>("/api/orders", {
+                limit: PAGE_SIZE,
+                offset: (page - 1) * PAGE_SIZE,
+            });
+            setExhibitions(data.items);
+            setTotal(data.total);
         } catch (error) {
             console.error("Failed to fetch orders", error);
         } finally {
             setIsLoading(false);
         }
-    };
+    }, [page]);
+
+    useEffect(() => {
+        fetchOrders();
+    }, [fetchOrders]);
 
     return (
         <div className="space-y-6 animate-in fade-in duration-500">
@@ -41,7 +59,7 @@ export default function OrdersPage() {
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
                     <SummaryCard
                         title="Total Exhibitions"
-                        value={exhibitions.length}
+                        value={total}
                         subValue=""
                         label="Active"
                         subLabel=""
@@ -80,27 +98,67 @@ export default function OrdersPage() {
                             ) : exhibitions.length === 0 ? (
                                 <tr><td colSpan={5} className="text-center py-12 text-secondary">No exhibitions found</td></tr>
                             ) : exhibitions.map((exhibition) => (
-                                <tr
-                                    key={exhibition.id}
-                                    className="hover:bg-surface-hover/50 transition-colors"
-                                >
-                                    <td className="py-4 px-6 font-medium text-foreground">{exhibition.name}</td>
-                                    <td className="py-4 px-6 text-secondary">{exhibition.exhibitionId}</td>
-                                    <td className="py-4 px-6 text-secondary">{exhibition.totalQuantity} Items</td>
-                                    <td className="py-4 px-6 text-secondary">{new Date().toLocaleDateString()}</td>
-                                    <td className="py-4 px-6">
-                                        <span className={`px-2.5 py-1 rounded-full text-xs font-medium border ${exhibition.totalQuantity > 0
-                                                ? 'bg-info/10 text-info border-info/20'
-                                                : 'bg-secondary/10 text-secondary border-secondary/20'
-                                            }`}>
-                                            {exhibition.totalQuantity > 0 ? 'Preparing' : 'Pending'}
-                                        </span>
-                                    </td>
-                                </tr>
+                                <Fragment key={exhibition.id}>
+                                    <tr
+                                        className="hover:bg-surface-hover/50 transition-colors cursor-pointer"
+                                        onClick={() => setExpandedId(expandedId === exhibition.id ? null : exhibition.id)}
+                                    >
+                                        <td className="py-4 px-6 font-medium text-foreground">
+                                            <div className="flex items-center gap-2">
+                                                {expandedId === exhibition.id
+                                                    ? <ChevronDown className="w-4 h-4 text-secondary" />
+                                                    : <ChevronRight className="w-4 h-4 text-secondary" />}
+                                                {exhibition.name}
+                                            </div>
+                                        </td>
+                                        <td className="py-4 px-6 text-secondary">{exhibition.exhibitionId}</td>
+                                        <td className="py-4 px-6 text-secondary">{exhibition.totalQuantity} Items</td>
+                                        <td className="py-4 px-6 text-secondary">
+                                            {exhibition.exportDate ? new Date(exhibition.exportDate).toLocaleDateString() : "-"}
+                                        </td>
+                                        <td className="py-4 px-6">
+                                            <span className={`px-2.5 py-1 rounded-full text-xs font-medium border ${exhibition.totalQuantity > 0
+                                                    ? 'bg-info/10 text-info border-info/20'
+                                                    : 'bg-secondary/10 text-secondary border-secondary/20'
+                                                }`}>
+                                                {exhibition.totalQuantity > 0 ? 'Preparing' : 'Pending'}
+                                            </span>
+                                        </td>
+                                    </tr>
+                                    {expandedId === exhibition.id && (
+                                        exhibition.orders.length === 0 ? (
+                                            <tr><td colSpan={5} className="py-3 px-12 text-secondary bg-surface-hover/20">No orders for this exhibition yet</td></tr>
+                                        ) : exhibition.orders.map((order) => (
+                                            <tr
+                                                key={order.id}
+                                                className="bg-surface-hover/20 hover:bg-surface-hover/50 transition-colors cursor-pointer"
+                                                onClick={() => router.push(`/orders/${order.id}`)}
+                                            >
+                                                <td className="py-3 px-12 font-medium text-primary">{order.orderNumber ?? order.id}</td>
+                                                <td className="py-3 px-6 text-secondary">{formatMoney(order.orderValue ?? 0, settings?.currency)}</td>
+                                                <td className="py-3 px-6 text-secondary">{order.quantity} {order.unit}</td>
+                                                <td className="py-3 px-6 text-secondary">
+                                                    {order.expectedDelivery ? `Due ${new Date(order.expectedDelivery).toLocaleDateString()}` : "-"}
+                                                </td>
+                                                <td className="py-3 px-6 text-secondary text-xs font-medium">{order.status}</td>
+                                            </tr>
+                                        ))
+                                    )}
+                                </Fragment>
                             ))}
                         </tbody>
                     </table>
                 </div>
+
+                <div className="flex items-center justify-between p-4 border-t border-border bg-surface-hover/20 rounded-b-xl">
+                    <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                        Previous
+                    </Button>
+                    <span className="text-sm text-secondary">Page {page} of {pageCount}</span>
+                    <Button variant="outline" size="sm" disabled={page >= pageCount} onClick={() => setPage(page + 1)}>
+                        Next
+                    </Button>
+                </div>
             </Card>
         </div>
     );
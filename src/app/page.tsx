@@ -4,9 +4,13 @@ import { useEffect, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/Card";
 import { Package, DollarSign, AlertTriangle, XCircle } from "lucide-react";
 import { Product } from "@/lib/db";
+import { fetchAllPages } from "@/lib/pagination";
+import { formatMoney } from "@/lib/utils";
+import { useSession } from "@/components/layout/SessionContext";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell, Legend } from 'recharts';
 
 export default function DashboardPage() {
+  const { settings } = useSession();
   const [products, setProducts] = useState<Product[]>([]);
   const [isLoading, setIsLoading] = useState(true);
 
@@ -16,9 +20,7 @@ export default function DashboardPage() {
 
   const fetchProducts = async () => {
     try {
-      const res = await fetch("/api/products");
-      const data = await res.json();
-      setProducts(data);
+      setProducts(await fetchAllPages<Product>("/api/products"));
     } catch (error) {
       console.error("Failed to fetch products", error);
     } finally {
@@ -77,7 +79,7 @@ export default function DashboardPage() {
           <CardContent className="p-6 flex items-center justify-between">
             <div>
               <p className="text-sm font-medium text-secondary">Total Value</p>
-              <h3 className="text-2xl font-bold text-foreground mt-1">{totalValue.toLocaleString()}฿</h3>
+              <h3 className="text-2xl font-bold text-foreground mt-1">{formatMoney(totalValue, settings?.currency)}</h3>
             </div>
             <div className="p-3 bg-info/10 rounded-full text-info">
               <DollarSign className="w-6 h-6" />
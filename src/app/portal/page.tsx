@@ -0,0 +1,238 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/Card";
+import { useSession } from "@/components/layout/SessionContext";
+import { Calendar, FileText } from "lucide-react";
+import { Exhibition, InvitationStatus, ProductList, Supplier, SupplierInvitation } from "@/lib/db";
+import { cn } from "@/lib/utils";
+import { fetchAllPages } from "@/lib/pagination";
+import { describeProblem, readProblem } from "@/lib/problem";
+
+type Invitation = Omit<SupplierInvitation, "tokenHash"> & { status: InvitationStatus };
+
+/**
+ * Supplier portal: the exhibitions the supplier was invited to and its own
+ * product lists. The API scopes every request to the caller's supplier.
+ */
+export default function PortalPage() {
+    const router = useRouter();
+    const { user } = useSession();
+    const supplierId = user?.supplierId;
+
+    const [supplier, setSupplier] = useState<Supplier | null>(null);
+    const [exhibitions, setExhibitions] = useState<Exhibition[]>([]);
+    const [productLists, setProductLists] = useState<ProductList[]>([]);
+    const [invitations, setInvitations] = useState<Invitation[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [loadError, setLoadError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!supplierId) return;
+        const fetchPortal = async () => {
+            try {
+                const res = await fetch(`/api/suppliers/${supplierId}`);
+                if (!res.ok) {
+                    setLoadError(describeProblem(await readProblem(res)));
+                    return;
+                }
+                setSupplier(await res.json());
+                const [exhibitionsData, listsData] = await Promise.all([
+                    fetchAllPages<Exhibition>("/api/exhibitions"),
+                    fetchAllPages<ProductList>("/api/product-lists"),
+                ]);
+                setExhibitions(exhibitionsData);
+                setProductLists(listsData);
+                // The API only returns our own supplier's invitation of each exhibition
+                const invitationsData = await Promise.all(exhibitionsData.map(async (exhibition) => {
+                    const invitationsRes = await fetch(`/api/exhibitions/${exhibition.id}/invitations`);
+                    return invitationsRes.ok ? (await invitationsRes.json()) as Invitation[] : [];
+                }));
+                setInvitations(invitationsData.flat());
+            } catch (error) {
+                console.error("Failed to load supplier portal", error);
+            } finally {
+                setIsLoading(false);
+            }
+        };
+        fetchPortal();
+    }, [supplierId]);
+
+    if (user && !supplierId) {
+        return <div className="p-6 text-center text-secondary">The portal is for supplier accounts. Your account is not linked to a supplier.</div>;
+    }
+    if (loadError) return <div className="p-6 text-center text-danger">{loadError}</div>;
+    if (!supplier) return <div className="p-6 text-center text-secondary">Loading portal...</div>;
+
+    const exhibitionName = (exhibitionId: string) =>
+        exhibitions.find((e) => e.id === exhibitionId)?.name ?? exhibitionId;
+
+    return (
+        <div className="space-y-6 animate-in fade-in duration-500">
+            <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+                <div>
+                    <h1 className="text-2xl font-bold text-foreground">Supplier Portal</h1>
+                    <p className="text-sm text-secondary">{supplier.companyName}</p>
+                </div>
+                {supplier.taxId && (
+                    <div className="text-sm text-secondary">Tax ID: {supplier.taxId}</div>
+                )}
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <Card className="border-border shadow-sm">
+                    <CardHeader className="pb-6 border-b border-border">
+                        <CardTitle className="text-xl font-semibold text-foreground">Contacts</CardTitle>
+                    </CardHeader>
+                    <CardContent className="pt-6 space-y-3">
+                        {supplier.contacts.length === 0 ? (
+                            <p className="text-sm text-secondary">No contacts on file</p>
+                        ) : supplier.contacts.map((contact, index) => (
+                            <div key={index}>
+                                <p className="font-medium text-foreground">
+                                    {contact.name}
+                                    {contact.position && <span className="ml-2 text-xs text-secondary">{contact.position}</span>}
+                                </p>
+                                <p className="text-xs text-secondary">{[contact.email, contact.phone].filter(Boolean).join(" • ")}</p>
+                            </div>
+                        ))}
+                    </CardContent>
+                </Card>
+
+                <Card className="border-border shadow-sm">
+                    <CardHeader className="pb-6 border-b border-border">
+                        <CardTitle className="text-xl font-semibold text-foreground">Addresses</CardTitle>
+                    </CardHeader>
+                    <CardContent className="pt-6 space-y-3">
+                        {supplier.addresses.length === 0 ? (
+                            <p className="text-sm text-secondary">No addresses on file</p>
+                        ) : supplier.addresses.map((address, index) => (
+                            <div key={index}>
+                                {address.label && <p className="font-medium text-foreground">{address.label}</p>}
+                                <p className="text-sm text-secondary">
+                                    {address.street}, {[address.postalCode, address.city].filter(Boolean).join(" ")}, {address.country}
+                                </p>
+                            </div>
+                        ))}
+                    </CardContent>
+                </Card>
+            </div>
+
+            <Card className="border-border shadow-sm">
+                <CardHeader className="pb-6 border-b border-border">
+                    <CardTitle className="text-xl font-semibold text-foreground">Your Exhibitions</CardTitle>
+                </CardHeader>
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm text-left">
+                        <thead className="text-xs text-secondary uppercase bg-surface-hover/50 border-b border-border">
+                            <tr>
+                                <th className="py-4 px-6 font-semibold">Exhibition</th>
+                                <th className="py-4 px-6 font-semibold">Dates</th>
+                                <th className="py-4 px-6 font-semibold">Submission Deadline</th>
+                                <th className="py-4 px-6 font-semibold">Product Lists</th>
+                                <th className="py-4 px-6 font-semibold"></th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-border">
+                            {isLoading ? (
+                                <tr><td colSpan={5} className="text-center py-12 text-secondary">Loading exhibitions...</td></tr>
+                            ) : exhibitions.length === 0 ? (
+                                <tr><td colSpan={5} className="text-center py-12 text-secondary">You have not been invited to any exhibition yet</td></tr>
+                            ) : exhibitions.map((exhibition) => {
+                                const invitation = invitations.find((i) => i.exhibitionId === exhibition.id);
+                                // Submitting needs an accepted invitation whose deadline has not passed
+                                const deadlinePassed = invitation !== undefined && Date.parse(invitation.deadline) < Date.now();
+                                const canSubmit = Boolean(invitation?.acceptedAt) && !deadlinePassed;
+                                return (
+                                    <tr key={exhibition.id} className="hover:bg-surface-hover/50 transition-colors group">
+                                        <td className="py-4 px-6 font-medium text-foreground">
+                                            <div className="flex items-center gap-2">
+                                                <div className="p-1.5 rounded-md bg-primary/10 text-primary">
+                                                    <Calendar className="w-4 h-4" />
+                                                </div>
+                                                <div>
+                                                    {exhibition.name}
+                                                    <div className="text-xs text-secondary">{exhibition.exhibitionId}</div>
+                                                </div>
+                                            </div>
+                                        </td>
+                                        <td className="py-4 px-6 text-secondary">
+                                            {exhibition.startDate ?? "-"} – {exhibition.endDate ?? "-"}
+                                        </td>
+                                        <td className="py-4 px-6 text-secondary">
+                                            {invitation ? new Date(invitation.deadline).toLocaleString() : "-"}
+                                            {deadlinePassed && <div className="text-xs text-danger">Deadline passed</div>}
+                                        </td>
+                                        <td className="py-4 px-6 text-secondary">
+                                            {productLists.filter((pl) => pl.exhibitionId === exhibition.id).length}
+                                        </td>
+                                        <td className="py-4 px-6 text-right">
+                                            <Link href={`/exhibitions/${exhibition.id}`} className="text-primary font-medium hover:underline">
+                                                {canSubmit ? "Submit Product List" : "View"}
+                                            </Link>
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+            </Card>
+
+            <Card className="border-border shadow-sm">
+                <CardHeader className="pb-6 border-b border-border">
+                    <CardTitle className="text-xl font-semibold text-foreground">Your Product Lists</CardTitle>
+                </CardHeader>
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm text-left">
+                        <thead className="text-xs text-secondary uppercase bg-surface-hover/50 border-b border-border">
+                            <tr>
+                                <th className="py-4 px-6 font-semibold">List ID</th>
+                                <th className="py-4 px-6 font-semibold">Exhibition</th>
+                                <th className="py-4 px-6 font-semibold">Created At</th>
+                                <th className="py-4 px-6 font-semibold">Total Quantity</th>
+                                <th className="py-4 px-6 font-semibold">Status</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-border">
+                            {isLoading ? (
+                                <tr><td colSpan={5} className="text-center py-12 text-secondary">Loading product lists...</td></tr>
+                            ) : productLists.length === 0 ? (
+                                <tr><td colSpan={5} className="text-center py-12 text-secondary">No product lists submitted yet</td></tr>
+                            ) : productLists.map((list) => (
+                                <tr
+                                    key={list.id}
+                                    className="hover:bg-surface-hover/50 transition-colors cursor-pointer"
+                                    onClick={() => router.push(`/exhibitions/product-lists/${list.id}`)}
+                                >
+                                    <td className="py-4 px-6 font-medium text-foreground flex items-center gap-2">
+                                        <div className="p-1.5 rounded-md bg-primary/10 text-primary">
+                                            <FileText className="w-4 h-4" />
+                                        </div>
+                                        {list.id}
+                                    </td>
+                                    <td className="py-4 px-6 text-secondary">{exhibitionName(list.exhibitionId)}</td>
+                                    <td className="py-4 px-6 text-secondary">{new Date(list.createdAt).toLocaleDateString()}</td>
+                                    <td className="py-4 px-6 text-secondary">{list.totalQuantity}</td>
+                                    <td className="py-4 px-6">
+                                        <span className={cn(
+                                            "px-2.5 py-1 rounded-full text-xs font-medium border",
+                                            list.status === 'approved' && "bg-success/10 text-success border-success/20",
+                                            list.status === 'rejected' && "bg-danger/10 text-danger border-danger/20",
+                                            list.status === 'pending' && "bg-warning/10 text-warning border-warning/20"
+                                        )}>
+                                            {list.status.charAt(0).toUpperCase() + list.status.slice(1)}
+                                        </span>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            </Card>
+        </div>
+    );
+}
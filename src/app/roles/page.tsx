@@ -0,0 +1,201 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import { Modal } from "@/components/ui/Modal";
+import { Card, CardHeader, CardTitle } from "@/components/ui/Card";
+import { Plus, Trash2 } from "lucide-react";
+import { Role } from "@/lib/db";
+import { describeProblem, readProblem } from "@/lib/problem";
+
+type PermissionInfo = { name: Role["permissions"][number]; description: string };
+
+// Always holds every permission; its column is read-only
+const ADMIN_ROLE = "ADMIN";
+
+const EMPTY_ROLE = { name: "", description: "" };
+
+export default function RolesPage() {
+    const [roles, setRoles] = useState<Role[]>([]);
+    const [permissions, setPermissions] = useState<PermissionInfo[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isAddModalOpen, setIsAddModalOpen] = useState(false);
+    const [newRole, setNewRole] = useState(EMPTY_ROLE);
+
+    const fetchMatrix = useCallback(async () => {
+        try {
+            const [rolesRes, permissionsRes] = await Promise.all([
+                fetch("/api/roles"),
+                fetch("/api/permissions"),
+            ]);
+            if (rolesRes.ok) setRoles(await rolesRes.json());
+            if (permissionsRes.ok) setPermissions(await permissionsRes.json());
+        } catch (error) {
+            console.error("Failed to fetch roles", error);
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        fetchMatrix();
+    }, [fetchMatrix]);
+
+    const handleToggle = async (role: Role, permission: PermissionInfo["name"]) => {
+        const granted = role.permissions.includes(permission);
+        try {
+            const res = await fetch(`/api/roles/${role.id}`, {
+                method: "PUT",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({
+                    permissions: granted
+                        ? role.permissions.filter((p) => p !== permission)
+                        : [...role.permissions, permission],
+                    version: role.version,
+                }),
+            });
+            if (!res.ok) {
+                alert(describeProblem(await readProblem(res)));
+            }
+            fetchMatrix();
+        } catch (error) {
+            console.error("Failed to update role", error);
+        }
+    };
+
+    const handleAddRole = async () => {
+        try {
+            const res = await fetch("/api/roles", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ ...newRole, permissions: [] }),
+            });
+            if (res.ok) {
+                setIsAddModalOpen(false);
+                setNewRole(EMPTY_ROLE);
+                fetchMatrix();
+            } else {
+                alert(describeProblem(await readProblem(res)));
+            }
+        } catch (error) {
+            console.error("Failed to add role", error);
+        }
+    };
+
+    const handleDelete = async (role: Role) => {
+        if (!confirm(`Delete role "${role.name}"?`)) return;
+        try {
+            const res = await fetch(`/api/roles/${role.id}`, {
+                method: "DELETE",
+                headers: { "If-Match": `"${role.version}"` },
+            });
+            if (!res.ok) {
+                alert(describeProblem(await readProblem(res)));
+            }
+            fetchMatrix();
+        } catch (error) {
+            console.error("Failed to delete role", error);
+        }
+    };
+
+    return (
+        <div className="space-y-6 animate-in fade-in duration-500">
+            <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+                <h1 className="text-2xl font-bold text-foreground">Roles & Permissions</h1>
+                <div className="text-sm text-secondary">
+                    Changes apply to every user with the role immediately
+                </div>
+            </div>
+
+            <Card className="border-border shadow-sm">
+                <CardHeader className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4 pb-6 border-b border-border">
+                    <CardTitle className="text-xl font-semibold text-foreground">Permission Matrix</CardTitle>
+                    <Button onClick={() => setIsAddModalOpen(true)} className="gap-2">
+                        <Plus className="w-4 h-4" />
+                        Add Role
+                    </Button>
+                </CardHeader>
+
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm text-left">
+                        <thead className="text-xs text-secondary uppercase bg-surface-hover/50 border-b border-border">
+                            <tr>
+                                <th className="py-4 px-6 font-semibold">Permission</th>
+                                {roles.map((role) => (
+                                    <th key={role.id} className="py-4 px-4 font-semibold text-center" title={role.description}>
+                                        <div className="flex items-center justify-center gap-1">
+                                            {role.name}
+                                            {!role.builtIn && (
+                                                <button
+                                                    className="text-danger hover:bg-danger/10 rounded p-0.5"
+                                                    title="Delete role"
+                                                    onClick={() => handleDelete(role)}
+                                                >
+                                                    <Trash2 className="w-3.5 h-3.5" />
+                                                </button>
+                                            )}
+                                        </div>
+                                    </th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-border">
+                            {isLoading ? (
+                                <tr><td colSpan={roles.length + 1} className="text-center py-12 text-secondary">Loading roles...</td></tr>
+                            ) : permissions.map((permission) => (
+                                <tr key={permission.name} className="hover:bg-surface-hover/50 transition-colors">
+                                    <td className="py-3 px-6">
+                                        <div className="font-medium text-foreground">{permission.name}</div>
+                                        <div className="text-xs text-secondary">{permission.description}</div>
+                                    </td>
+                                    {roles.map((role) => (
+                                        <td key={role.id} className="py-3 px-4 text-center">
+                                            <input
+                                                type="checkbox"
+                                                className="w-4 h-4 accent-primary cursor-pointer disabled:cursor-not-allowed"
+                                                checked={role.name === ADMIN_ROLE || role.permissions.includes(permission.name)}
+                                                disabled={role.name === ADMIN_ROLE}
+                                                onChange={() => handleToggle(role, permission.name)}
+                                            />
+                                        </td>
+                                    ))}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            </Card>
+
+            {/* Add Role Modal */}
+            <Modal
+                isOpen={isAddModalOpen}
+                onClose={() => setIsAddModalOpen(false)}
+                title="New Role"
+            >
+                <div className="space-y-6">
+                    <Input
+                        label="Name"
+                        placeholder="e.g. PRICING_STAFF"
+                        value={newRole.name}
+                        onChange={(e) => setNewRole({ ...newRole, name: e.target.value.toUpperCase() })}
+                    />
+                    <Input
+                        label="Description"
+                        placeholder="What this role is for"
+                        value={newRole.description}
+                        onChange={(e) => setNewRole({ ...newRole, description: e.target.value })}
+                    />
+                    <p className="text-sm text-secondary">
+                        New roles start without permissions; grant them in the matrix.
+                    </p>
+                </div>
+                <div className="flex justify-end gap-3 mt-8 pt-4 border-t border-border">
+                    <Button variant="outline" onClick={() => setIsAddModalOpen(false)}>Discard</Button>
+                    <Button onClick={handleAddRole}>Add Role</Button>
+                </div>
+            </Modal>
+        </div>
+    );
+}
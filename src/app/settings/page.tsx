@@ -0,0 +1,277 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/Card";
+import { useSession } from "@/components/layout/SessionContext";
+import { Plus, Save, X } from "lucide-react";
+import { Settings } from "@/lib/db";
+import { formatMoney } from "@/lib/utils";
+import { describeProblem, readProblem } from "@/lib/problem";
+
+type ApprovalMode = Settings["approvalPolicy"]["exhibitionProducts"];
+
+const APPROVAL_OPTIONS: { value: ApprovalMode; label: string }[] = [
+    { value: "manual", label: "Manual - wait for a reviewer" },
+    { value: "auto", label: "Automatic - approve on submission" },
+];
+
+const OVERALLOCATION_OPTIONS: { value: Settings["overallocation"]; label: string }[] = [
+    { value: "block", label: "Refuse - an order needs enough available stock" },
+    { value: "flag", label: "Allow - confirm and flag the shortfall" },
+];
+
+const NOTIFICATION_OPTIONS: { key: Exclude<keyof Settings["notifications"], "recipients">; label: string }[] = [
+    { key: "lowStock", label: "A product falls below its threshold value" },
+    { key: "productListSubmitted", label: "A product list is submitted for review" },
+    { key: "invitationAccepted", label: "A supplier accepts an invitation" },
+];
+
+/**
+ * Company-wide configuration (admins only). Currency, units and the default
+ * threshold are used by every page; the approval policy decides whether added
+ * products and submitted product lists wait for a reviewer, the overallocation
+ * policy whether orders are confirmed beyond the available stock.
+ */
+export default function SettingsPage() {
+    const { refresh } = useSession();
+
+    const [settings, setSettings] = useState<Settings | null>(null);
+    const [recipients, setRecipients] = useState("");
+    const [newUnit, setNewUnit] = useState("");
+    const [isLoading, setIsLoading] = useState(true);
+    const [isSaving, setIsSaving] = useState(false);
+    const [savedAt, setSavedAt] = useState<string | null>(null);
+
+    const load = (loaded: Settings) => {
+        setSettings(loaded);
+        setRecipients(loaded.notifications.recipients.join(", "));
+    };
+
+    const fetchSettings = useCallback(async () => {
+        try {
+            const res = await fetch("/api/settings");
+            if (res.ok) load(await res.json());
+        } catch (error) {
+            console.error("Failed to fetch settings", error);
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        fetchSettings();
+    }, [fetchSettings]);
+
+    if (isLoading) {
+        return <div className="p-8 text-center text-secondary">Loading settings...</div>;
+    }
+    if (!settings) {
+        return <div className="p-8 text-center text-secondary">Settings are only available to administrators</div>;
+    }
+
+    const update = (changes: Partial<Settings>) => setSettings({ ...settings, ...changes });
+
+    const addUnit = () => {
+        const unit = newUnit.trim();
+        if (unit && !settings.unitsOfMeasure.includes(unit)) {
+            update({ unitsOfMeasure: [...settings.unitsOfMeasure, unit] });
+        }
+        setNewUnit("");
+    };
+
+    const handleSave = async () => {
+        setIsSaving(true);
+        try {
+            const res = await fetch("/api/settings", {
+                method: "PUT",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({
+                    companyName: settings.companyName,
+                    currency: settings.currency,
+                    unitsOfMeasure: settings.unitsOfMeasure,
+                    lowStockThreshold: settings.lowStockThreshold,
+                    overallocation: settings.overallocation,
+                    approvalPolicy: settings.approvalPolicy,
+                    notifications: {
+                        ...settings.notifications,
+                        recipients: recipients.split(",").map((r) => r.trim()).filter(Boolean),
+                    },
+                    version: settings.version,
+                }),
+            });
+            if (!res.ok) {
+                alert(describeProblem(await readProblem(res)));
+                return;
+            }
+            load(await res.json());
+            setSavedAt(new Date().toLocaleTimeString());
+            // Other pages read currency and units from the session
+            refresh();
+        } catch (error) {
+            console.error("Failed to save settings", error);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="space-y-6 animate-in fade-in duration-500">
+            <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+                <div>
+                    <h1 className="text-2xl font-bold text-foreground">Settings</h1>
+                    <p className="text-sm text-secondary">
+                        {savedAt ? `Saved at ${savedAt}` : settings.updatedAt ? `Last changed ${new Date(settings.updatedAt).toLocaleString()}` : "Defaults"}
+                    </p>
+                </div>
+                <Button onClick={handleSave} disabled={isSaving} className="gap-2">
+                    <Save className="w-4 h-4" />
+                    {isSaving ? "Saving..." : "Save Settings"}
+                </Button>
+            </div>
+
+            <Card className="border-border shadow-sm">
+                <CardHeader className="pb-6 border-b border-border">
+                    <CardTitle className="text-xl font-semibold text-foreground">Company</CardTitle>
+                </CardHeader>
+                <CardContent className="pt-6 grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <Input
+                        label="Company Name"
+                        value={settings.companyName}
+                        onChange={(e) => update({ companyName: e.target.value })}
+                    />
+                    <div>
+                        <Input
+                            label="Currency (ISO 4217 code)"
+                            placeholder="e.g. THB"
+                            maxLength={3}
+                            value={settings.currency}
+                            onChange={(e) => update({ currency: e.target.value.toUpperCase() })}
+                        />
+                        {/^[A-Z]{3}$/.test(settings.currency) && (
+                            <p className="text-xs text-secondary mt-1">Prices look like {formatMoney(1234.5, settings.currency)}</p>
+                        )}
+                    </div>
+                </CardContent>
+            </Card>
+
+            <Card className="border-border shadow-sm">
+                <CardHeader className="pb-6 border-b border-border">
+                    <CardTitle className="text-xl font-semibold text-foreground">Inventory</CardTitle>
+                </CardHeader>
+                <CardContent className="pt-6 space-y-6">
+                    <div>
+                        <p className="text-sm font-medium text-foreground mb-2">Units of Measure</p>
+                        <div className="flex flex-wrap gap-2 mb-3">
+                            {settings.unitsOfMeasure.map((unit) => (
+                                <span key={unit} className="flex items-center gap-1 pl-3 pr-1 py-1 rounded-full text-sm border border-border">
+                                    {unit}
+                                    <button
+                                        className="p-0.5 rounded-full text-secondary hover:text-danger hover:bg-danger/10"
+                                        title={`Remove ${unit}`}
+                                        disabled={settings.unitsOfMeasure.length === 1}
+                                        onClick={() => update({ unitsOfMeasure: settings.unitsOfMeasure.filter((u) => u !== unit) })}
+                                    >
+                                        <X className="w-3.5 h-3.5" />
+                                    </button>
+                                </span>
+                            ))}
+                        </div>
+                        <div className="flex gap-3 max-w-md">
+                            <Input
+                                placeholder="Add a unit (e.g. Trays)"
+                                value={newUnit}
+                                onChange={(e) => setNewUnit(e.target.value)}
+                                onKeyDown={(e) => e.key === "Enter" && addUnit()}
+                            />
+                            <Button variant="outline" className="gap-2" onClick={addUnit} disabled={!newUnit.trim()}>
+                                <Plus className="w-4 h-4" />
+                                Add
+                            </Button>
+                        </div>
+                        <p className="text-xs text-secondary mt-2">Products keep a removed unit until they are edited.</p>
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                        <Input
+                            label="Default Low-Stock Threshold"
+                            type="number"
+                            min={0}
+                            value={settings.lowStockThreshold}
+                            onChange={(e) => update({ lowStockThreshold: Number(e.target.value) })}
+                        />
+                        <div className="space-y-1.5">
+                            <label className="text-sm font-medium text-foreground">Orders beyond available stock</label>
+                            <select
+                                className="w-full border border-border rounded-lg px-3 py-2.5 text-sm"
+                                value={settings.overallocation}
+                                onChange={(e) => update({ overallocation: e.target.value as Settings["overallocation"] })}
+                            >
+                                {OVERALLOCATION_OPTIONS.map((option) => (
+                                    <option key={option.value} value={option.value}>{option.label}</option>
+                                ))}
+                            </select>
+                        </div>
+                    </div>
+                </CardContent>
+            </Card>
+
+            <Card className="border-border shadow-sm">
+                <CardHeader className="pb-6 border-b border-border">
+                    <CardTitle className="text-xl font-semibold text-foreground">Approval Policy</CardTitle>
+                </CardHeader>
+                <CardContent className="pt-6 grid grid-cols-1 md:grid-cols-2 gap-6">
+                    {([
+                        ["exhibitionProducts", "Products added to an exhibition"],
+                        ["productLists", "Submitted product lists"],
+                    ] as const).map(([key, label]) => (
+                        <div key={key} className="space-y-1.5">
+                            <label className="text-sm font-medium text-foreground">{label}</label>
+                            <select
+                                className="w-full border border-border rounded-lg px-3 py-2.5 text-sm"
+                                value={settings.approvalPolicy[key]}
+                                onChange={(e) => update({
+                                    approvalPolicy: { ...settings.approvalPolicy, [key]: e.target.value as ApprovalMode },
+                                })}
+                            >
+                                {APPROVAL_OPTIONS.map((option) => (
+                                    <option key={option.value} value={option.value}>{option.label}</option>
+                                ))}
+                            </select>
+                        </div>
+                    ))}
+                </CardContent>
+            </Card>
+
+            <Card className="border-border shadow-sm">
+                <CardHeader className="pb-6 border-b border-border">
+                    <CardTitle className="text-xl font-semibold text-foreground">Notifications</CardTitle>
+                </CardHeader>
+                <CardContent className="pt-6 space-y-6">
+                    <Input
+                        label="Recipients (comma separated)"
+                        placeholder="e.g. purchasing@example.com, ops@example.com"
+                        value={recipients}
+                        onChange={(e) => setRecipients(e.target.value)}
+                    />
+                    <div className="space-y-2">
+                        {NOTIFICATION_OPTIONS.map((option) => (
+                            <label key={option.key} className="flex items-center gap-3 cursor-pointer text-sm text-foreground">
+                                <input
+                                    type="checkbox"
+                                    className="w-4 h-4 accent-primary cursor-pointer"
+                                    checked={settings.notifications[option.key]}
+                                    onChange={(e) => update({
+                                        notifications: { ...settings.notifications, [option.key]: e.target.checked },
+                                    })}
+                                />
+                                {option.label}
+                            </label>
+                        ))}
+                    </div>
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
@@ -0,0 +1,328 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import { Modal } from "@/components/ui/Modal";
+import { Card, CardHeader, CardTitle } from "@/components/ui/Card";
+import { useSession } from "@/components/layout/SessionContext";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+import { Supplier } from "@/lib/db";
+import { describeProblem, readProblem } from "@/lib/problem";
+import { fetchPage } from "@/lib/pagination";
+
+const PAGE_SIZE = 10;
+
+// The form edits the first contact and address; further ones are kept as they are
+const EMPTY_FORM = {
+    companyName: "",
+    taxId: "",
+    contactName: "",
+    contactEmail: "",
+    contactPhone: "",
+    street: "",
+    city: "",
+    postalCode: "",
+    country: "",
+};
+
+type SupplierForm = typeof EMPTY_FORM;
+
+function toForm(supplier: Supplier): SupplierForm {
+    const contact = supplier.contacts[0];
+    const address = supplier.addresses[0];
+    return {
+        companyName: supplier.companyName,
+        taxId: supplier.taxId ?? "",
+        contactName: contact?.name ?? "",
+        contactEmail: contact?.email ?? "",
+        contactPhone: contact?.phone ?? "",
+        street: address?.street ?? "",
+        city: address?.city ?? "",
+        postalCode: address?.postalCode ?? "",
+        country: address?.country ?? "",
+    };
+}
+
+function toRequestBody(form: SupplierForm, existing: Supplier | null) {
+    const contact = form.contactName && {
+        ...existing?.contacts[0],
+        name: form.contactName,
+        email: form.contactEmail || undefined,
+        phone: form.contactPhone || undefined,
+    };
+    const address = (form.street || form.city || form.country) && {
+        ...existing?.addresses[0],
+        street: form.street,
+        city: form.city,
+        postalCode: form.postalCode || undefined,
+        country: form.country,
+    };
+    return {
+        companyName: form.companyName,
+        taxId: form.taxId || undefined,
+        contacts: [...(contact ? [contact] : []), ...(existing?.contacts.slice(1) ?? [])],
+        addresses: [...(address ? [address] : []), ...(existing?.addresses.slice(1) ?? [])],
+        version: existing?.version,
+    };
+}
+
+export default function SuppliersPage() {
+    const { user } = useSession();
+    const canManage = Boolean(user?.permissions.includes("supplier:manage"));
+
+    const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+
+    // Paging and search (applied server-side)
+    const [page, setPage] = useState(1);
+    const [total, setTotal] = useState(0);
+    const [search, setSearch] = useState("");
+    const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+    // "new" while adding, the supplier while editing, null when the modal is closed
+    const [editing, setEditing] = useState<Supplier | "new" | null>(null);
+    const [form, setForm] = useState(EMPTY_FORM);
+
+    const fetchSuppliers = useCallback(async () => {
+        setIsLoading(true);
+        try {
+            const data = await fetchPage<Supplier>("/api/suppliers", {
+                search,
+                limit: PAGE_SIZE,
+                offset: (page - 1) * PAGE_SIZE,
+            });
+            setSuppliers(data.items);
+            setTotal(data.total);
+        } catch (error) {
+            console.error("Failed to fetch suppliers", error);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [page, search]);
+
+    useEffect(() => {
+        fetchSuppliers();
+    }, [fetchSuppliers]);
+
+    const openEditor = (supplier: Supplier | "new") => {
+        setForm(supplier === "new" ? EMPTY_FORM : toForm(supplier));
+        setEditing(supplier);
+    };
+
+    const handleSave = async () => {
+        if (!editing) return;
+        const existing = editing === "new" ? null : editing;
+        try {
+            const res = await fetch(existing ? `/api/suppliers/${existing.id}` : "/api/suppliers", {
+                method: existing ? "PUT" : "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify(toRequestBody(form, existing)),
+            });
+            if (res.ok) {
+                setEditing(null);
+                fetchSuppliers();
+            } else {
+                alert(describeProblem(await readProblem(res)));
+            }
+        } catch (error) {
+            console.error("Failed to save supplier", error);
+        }
+    };
+
+    const handleDelete = async (supplier: Supplier) => {
+        if (!confirm(`Delete supplier "${supplier.companyName}"?`)) return;
+        try {
+            const res = await fetch(`/api/suppliers/${supplier.id}`, {
+                method: "DELETE",
+                headers: { "If-Match": `"${supplier.version}"` },
+            });
+            if (!res.ok) {
+                alert(describeProblem(await readProblem(res)));
+            }
+            fetchSuppliers();
+        } catch (error) {
+            console.error("Failed to delete supplier", error);
+        }
+    };
+
+    return (
+        <div className="space-y-6 animate-in fade-in duration-500">
+            <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+                <h1 className="text-2xl font-bold text-foreground">Suppliers</h1>
+                <div className="text-sm text-secondary">
+                    Total Suppliers: {total}
+                </div>
+            </div>
+
+            <Card className="border-border shadow-sm">
+                <CardHeader className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4 pb-6 border-b border-border">
+                    <CardTitle className="text-xl font-semibold text-foreground">Companies</CardTitle>
+                    <div className="flex flex-wrap gap-3 w-full sm:w-auto">
+                        <input
+                            type="search"
+                            placeholder="Search company or tax id"
+                            className="flex-1 border border-border rounded-lg px-3 py-2 text-sm"
+                            value={search}
+                            onChange={(e) => {
+                                setSearch(e.target.value);
+                                setPage(1);
+                            }}
+                        />
+                        {canManage && (
+                            <Button onClick={() => openEditor("new")} className="flex-1 sm:flex-none gap-2">
+                                <Plus className="w-4 h-4" />
+                                Add Supplier
+                            </Button>
+                        )}
+                    </div>
+                </CardHeader>
+
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm text-left">
+                        <thead className="text-xs text-secondary uppercase bg-surface-hover/50 border-b border-border">
+                            <tr>
+                                <th className="py-4 px-6 font-semibold">Company</th>
+                                <th className="py-4 px-6 font-semibold">Tax ID</th>
+                                <th className="py-4 px-6 font-semibold">Contact</th>
+                                <th className="py-4 px-6 font-semibold">Address</th>
+                                <th className="py-4 px-6 font-semibold text-right">Actions</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-border">
+                            {isLoading ? (
+                                <tr><td colSpan={5} className="text-center py-12 text-secondary">Loading suppliers...</td></tr>
+                            ) : suppliers.length === 0 ? (
+                                <tr><td colSpan={5} className="text-center py-12 text-secondary">No suppliers found</td></tr>
+                            ) : suppliers.map((supplier) => {
+                                const contact = supplier.contacts[0];
+                                const address = supplier.addresses[0];
+                                return (
+                                    <tr key={supplier.id} className="hover:bg-surface-hover/50 transition-colors group">
+                                        <td className="py-4 px-6 font-medium text-foreground">{supplier.companyName}</td>
+                                        <td className="py-4 px-6 text-secondary">{supplier.taxId ?? "-"}</td>
+                                        <td className="py-4 px-6 text-secondary">
+                                            {contact ? (
+                                                <>
+                                                    {contact.name}
+                                                    <div className="text-xs">{[contact.email, contact.phone].filter(Boolean).join(" • ")}</div>
+                                                </>
+                                            ) : "-"}
+                                        </td>
+                                        <td className="py-4 px-6 text-secondary">
+                                            {address ? `${address.street}, ${address.city}, ${address.country}` : "-"}
+                                        </td>
+                                        <td className="py-4 px-6 text-right">
+                                            {canManage && (
+                                                <div className="flex justify-end gap-2">
+                                                    <Button
+                                                        size="sm"
+                                                        variant="outline"
+                                                        className="h-8 w-8 p-0"
+                                                        title="Edit supplier"
+                                                        onClick={() => openEditor(supplier)}
+                                                    >
+                                                        <Pencil className="w-4 h-4" />
+                                                    </Button>
+                                                    <Button
+                                                        size="sm"
+                                                        variant="outline"
+                                                        className="h-8 w-8 p-0 text-danger hover:text-danger hover:bg-danger/10 border-danger/20"
+                                                        title="Delete supplier"
+                                                        onClick={() => handleDelete(supplier)}
+                                                    >
+                                                        <Trash2 className="w-4 h-4" />
+                                                    </Button>
+                                                </div>
+                                            )}
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+
+                <div className="flex items-center justify-between p-4 border-t border-border bg-surface-hover/20 rounded-b-xl">
+                    <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                        Previous
+                    </Button>
+                    <span className="text-sm text-secondary">Page {page} of {pageCount}</span>
+                    <Button variant="outline" size="sm" disabled={page >= pageCount} onClick={() => setPage(page + 1)}>
+                        Next
+                    </Button>
+                </div>
+            </Card>
+
+            {/* Add / Edit Supplier Modal */}
+            <Modal
+                isOpen={editing !== null}
+                onClose={() => setEditing(null)}
+                title={editing === "new" ? "New Supplier" : "Edit Supplier"}
+            >
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <Input
+                        label="Company Name"
+                        placeholder="Enter company name"
+                        value={form.companyName}
+                        onChange={(e) => setForm({ ...form, companyName: e.target.value })}
+                    />
+                    <Input
+                        label="Tax ID"
+                        placeholder="e.g. DE123456789"
+                        value={form.taxId}
+                        onChange={(e) => setForm({ ...form, taxId: e.target.value })}
+                    />
+                    <Input
+                        label="Contact Name"
+                        placeholder="Main contact person"
+                        value={form.contactName}
+                        onChange={(e) => setForm({ ...form, contactName: e.target.value })}
+                    />
+                    <Input
+                        label="Contact Email"
+                        type="email"
+                        placeholder="name@company.com"
+                        value={form.contactEmail}
+                        onChange={(e) => setForm({ ...form, contactEmail: e.target.value })}
+                    />
+                    <Input
+                        label="Contact Phone"
+                        placeholder="+49 30 1234567"
+                        value={form.contactPhone}
+                        onChange={(e) => setForm({ ...form, contactPhone: e.target.value })}
+                    />
+                    <Input
+                        label="Street"
+                        placeholder="Street and number"
+                        value={form.street}
+                        onChange={(e) => setForm({ ...form, street: e.target.value })}
+                    />
+                    <Input
+                        label="City"
+                        placeholder="Enter city"
+                        value={form.city}
+                        onChange={(e) => setForm({ ...form, city: e.target.value })}
+                    />
+                    <Input
+                        label="Postal Code"
+                        placeholder="Enter postal code"
+                        value={form.postalCode}
+                        onChange={(e) => setForm({ ...form, postalCode: e.target.value })}
+                    />
+                    <Input
+                        label="Country"
+                        placeholder="e.g. DE"
+                        value={form.country}
+                        onChange={(e) => setForm({ ...form, country: e.target.value })}
+                    />
+                </div>
+                <div className="flex justify-end gap-3 mt-8 pt-4 border-t border-border">
+                    <Button variant="outline" onClick={() => setEditing(null)}>Discard</Button>
+                    <Button onClick={handleSave}>{editing === "new" ? "Add Supplier" : "Save Changes"}</Button>
+                </div>
+            </Modal>
+        </div>
+    );
+}
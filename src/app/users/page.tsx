@@ -0,0 +1,430 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import { Modal } from "@/components/ui/Modal";
+import { Card, CardHeader, CardTitle } from "@/components/ui/Card";
+import { useSession } from "@/components/layout/SessionContext";
+import { Filter, KeyRound, Plus, Trash2 } from "lucide-react";
+import { Role, Supplier, User } from "@/lib/db";
+import { cn } from "@/lib/utils";
+import { describeProblem, readProblem } from "@/lib/problem";
+import { fetchAllPages, fetchPage } from "@/lib/pagination";
+
+type UserRow = Omit<User, "passwordHash">;
+
+const PAGE_SIZE = 10;
+const SORT_OPTIONS = [
+    { value: "username", label: "Username (A-Z)" },
+    { value: "fullName", label: "Name (A-Z)" },
+    { value: "role", label: "Role" },
+    { value: "-active", label: "Active first" },
+];
+
+// supplierId links the account to a supplier, making it a supplier portal user
+const EMPTY_USER = { username: "", fullName: "", role: "USER", supplierId: "", password: "" };
+
+export default function UsersPage() {
+    const { user: currentUser } = useSession();
+    const [users, setUsers] = useState<UserRow[]>([]);
+    const [roleNames, setRoleNames] = useState<string[]>([]);
+    const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+
+    // Paging and filters (applied server-side)
+    const [page, setPage] = useState(1);
+    const [total, setTotal] = useState(0);
+    const [showFilters, setShowFilters] = useState(false);
+    const [search, setSearch] = useState("");
+    const [role, setRole] = useState("");
+    const [active, setActive] = useState("");
+    const [sort, setSort] = useState("username");
+    const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+    const [isAddModalOpen, setIsAddModalOpen] = useState(false);
+    const [newUser, setNewUser] = useState(EMPTY_USER);
+    const [passwordTarget, setPasswordTarget] = useState<UserRow | null>(null);
+    const [newPassword, setNewPassword] = useState("");
+
+    const fetchUsers = useCallback(async () => {
+        setIsLoading(true);
+        try {
+            const data = await fetchPage<UserRow>("/api/users", {
+                search,
+                role,
+                active,
+                sort,
+                limit: PAGE_SIZE,
+                offset: (page - 1) * PAGE_SIZE,
+            });
+            setUsers(data.items);
+            setTotal(data.total);
+        } catch (error) {
+            console.error("Failed to fetch users", error);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [page, search, role, active, sort]);
+
+    useEffect(() => {
+        fetchUsers();
+    }, [fetchUsers]);
+
+    useEffect(() => {
+        const fetchRoles = async () => {
+            try {
+                const res = await fetch("/api/roles");
+                if (res.ok) {
+                    const roles: Role[] = await res.json();
+                    setRoleNames(roles.map((r) => r.name));
+                }
+            } catch (error) {
+                console.error("Failed to fetch roles", error);
+            }
+        };
+        fetchRoles();
+    }, []);
+
+    useEffect(() => {
+        const fetchSuppliers = async () => {
+            try {
+                setSuppliers(await fetchAllPages<Supplier>("/api/suppliers"));
+            } catch (error) {
+                console.error("Failed to fetch suppliers", error);
+            }
+        };
+        fetchSuppliers();
+    }, []);
+
+    // Any filter change starts again from the first page
+    const updateFilter = (apply: () => void) => {
+        apply();
+        setPage(1);
+    };
+
+    const handleAddUser = async () => {
+        try {
+            const res = await fetch("/api/users", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ ...newUser, supplierId: newUser.supplierId || undefined }),
+            });
+            if (res.ok) {
+                setIsAddModalOpen(false);
+                setNewUser(EMPTY_USER);
+                fetchUsers();
+            } else {
+                alert(describeProblem(await readProblem(res)));
+            }
+        } catch (error) {
+            console.error("Failed to add user", error);
+        }
+    };
+
+    const handleUpdate = async (user: UserRow, updates: Partial<Pick<User, "role" | "active">>) => {
+        try {
+            const res = await fetch(`/api/users/${user.id}`, {
+                method: "PUT",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ ...updates, version: user.version }),
+            });
+            if (!res.ok) {
+                alert(describeProblem(await readProblem(res)));
+            }
+            fetchUsers();
+        } catch (error) {
+            console.error("Failed to update user", error);
+        }
+    };
+
+    const handleDelete = async (user: UserRow) => {
+        if (!confirm(`Delete user "${user.username}"? This cannot be undone.`)) return;
+        try {
+            const res = await fetch(`/api/users/${user.id}`, {
+                method: "DELETE",
+                headers: { "If-Match": `"${user.version}"` },
+            });
+            if (!res.ok) {
+                alert(describeProblem(await readProblem(res)));
+            }
+            fetchUsers();
+        } catch (error) {
+            console.error("Failed to delete user", error);
+        }
+    };
+
+    const handleResetPassword = async () => {
+        if (!passwordTarget) return;
+        try {
+            const res = await fetch(`/api/users/${passwordTarget.id}/password`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ password: newPassword }),
+            });
+            if (res.ok) {
+                setPasswordTarget(null);
+                setNewPassword("");
+                fetchUsers();
+            } else {
+                alert(describeProblem(await readProblem(res)));
+            }
+        } catch (error) {
+            console.error("Failed to reset password", error);
+        }
+    };
+
+    return (
+        <div className="space-y-6 animate-in fade-in duration-500">
+            <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+                <h1 className="text-2xl font-bold text-foreground">Users</h1>
+                <div className="text-sm text-secondary">
+                    Total Users: {total}
+                </div>
+            </div>
+
+            <Card className="border-border shadow-sm">
+                <CardHeader className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4 pb-6 border-b border-border">
+                    <CardTitle className="text-xl font-semibold text-foreground">Accounts</CardTitle>
+                    <div className="flex flex-wrap gap-3 w-full sm:w-auto">
+                        <Button onClick={() => setIsAddModalOpen(true)} className="flex-1 sm:flex-none gap-2">
+                            <Plus className="w-4 h-4" />
+                            Add User
+                        </Button>
+                        <Button
+                            variant={showFilters ? "primary" : "outline"}
+                            className="flex-1 sm:flex-none gap-2"
+                            onClick={() => setShowFilters(!showFilters)}
+                        >
+                            <Filter className="w-4 h-4" />
+                            Filters
+                        </Button>
+                    </div>
+                </CardHeader>
+
+                {showFilters && (
+                    <div className="flex flex-col sm:flex-row gap-3 p-4 border-b border-border bg-surface-hover/20">
+                        <input
+                            type="search"
+                            placeholder="Search username or name"
+                            className="flex-1 border border-border rounded-lg px-3 py-2 text-sm"
+                            value={search}
+                            onChange={(e) => updateFilter(() => setSearch(e.target.value))}
+                        />
+                        <select
+                            className="border border-border rounded-lg px-3 py-2 text-sm"
+                            value={role}
+                            onChange={(e) => updateFilter(() => setRole(e.target.value))}
+                        >
+                            <option value="">All roles</option>
+                            {roleNames.map((option) => (
+                                <option key={option} value={option}>{option}</option>
+                            ))}
+                        </select>
+                        <select
+                            className="border border-border rounded-lg px-3 py-2 text-sm"
+                            value={active}
+                            onChange={(e) => updateFilter(() => setActive(e.target.value))}
+                        >
+                            <option value="">All statuses</option>
+                            <option value="true">Active</option>
+                            <option value="false">Deactivated</option>
+                        </select>
+                        <select
+                            className="border border-border rounded-lg px-3 py-2 text-sm"
+                            value={sort}
+                            onChange={(e) => updateFilter(() => setSort(e.target.value))}
+                        >
+                            {SORT_OPTIONS.map((option) => (
+                                <option key={option.value} value={option.value}>{option.label}</option>
+                            ))}
+                        </select>
+                    </div>
+                )}
+
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm text-left">
+                        <thead className="text-xs text-secondary uppercase bg-surface-hover/50 border-b border-border">
+                            <tr>
+                                <th className="py-4 px-6 font-semibold">Username</th>
+                                <th className="py-4 px-6 font-semibold">Full Name</th>
+                                <th className="py-4 px-6 font-semibold">Role</th>
+                                <th className="py-4 px-6 font-semibold">Status</th>
+                                <th className="py-4 px-6 font-semibold text-right">Actions</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-border">
+                            {isLoading ? (
+                                <tr><td colSpan={5} className="text-center py-12 text-secondary">Loading users...</td></tr>
+                            ) : users.length === 0 ? (
+                                <tr><td colSpan={5} className="text-center py-12 text-secondary">No users found</td></tr>
+                            ) : users.map((user) => {
+                                const isSelf = user.id === currentUser?.id;
+                                return (
+                                    <tr key={user.id} className="hover:bg-surface-hover/50 transition-colors group">
+                                        <td className="py-4 px-6 font-medium text-foreground">
+                                            {user.username}
+                                            {isSelf && <span className="ml-2 text-xs text-secondary">(you)</span>}
+                                        </td>
+                                        <td className="py-4 px-6 text-secondary">
+                                            {user.fullName}
+                                            {user.supplierId && (
+                                                <div className="text-xs">
+                                                    {suppliers.find((s) => s.id === user.supplierId)?.companyName ?? user.supplierId}
+                                                </div>
+                                            )}
+                                        </td>
+                                        <td className="py-4 px-6">
+                                            <select
+                                                className="border border-border rounded-lg px-2 py-1 text-sm disabled:opacity-60"
+                                                value={user.role}
+                                                disabled={isSelf}
+                                                onChange={(e) => handleUpdate(user, { role: e.target.value })}
+                                            >
+                                                {roleNames.map((option) => (
+                                                    <option key={option} value={option}>{option}</option>
+                                                ))}
+                                            </select>
+                                        </td>
+                                        <td className="py-4 px-6">
+                                            <span className={cn(
+                                                "px-2.5 py-1 rounded-full text-xs font-medium border",
+                                                user.active ? "bg-success/10 text-success border-success/20" : "bg-danger/10 text-danger border-danger/20"
+                                            )}>
+                                                {user.active ? "Active" : "Deactivated"}
+                                            </span>
+                                        </td>
+                                        <td className="py-4 px-6 text-right">
+                                            <div className="flex justify-end gap-2">
+                                                <Button
+                                                    size="sm"
+                                                    variant="outline"
+                                                    disabled={isSelf}
+                                                    onClick={() => handleUpdate(user, { active: !user.active })}
+                                                >
+                                                    {user.active ? "Deactivate" : "Activate"}
+                                                </Button>
+                                                <Button
+                                                    size="sm"
+                                                    variant="outline"
+                                                    className="h-8 w-8 p-0"
+                                                    title="Reset password"
+                                                    onClick={() => setPasswordTarget(user)}
+                                                >
+                                                    <KeyRound className="w-4 h-4" />
+                                                </Button>
+                                                <Button
+                                                    size="sm"
+                                                    variant="outline"
+                                                    className="h-8 w-8 p-0 text-danger hover:text-danger hover:bg-danger/10 border-danger/20"
+                                                    title="Delete user"
+                                                    disabled={isSelf}
+                                                    onClick={() => handleDelete(user)}
+                                                >
+                                                    <Trash2 className="w-4 h-4" />
+                                                </Button>
+                                            </div>
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+
+                <div className="flex items-center justify-between p-4 border-t border-border bg-surface-hover/20 rounded-b-xl">
+                    <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                        Previous
+                    </Button>
+                    <span className="text-sm text-secondary">Page {page} of {pageCount}</span>
+                    <Button variant="outline" size="sm" disabled={page >= pageCount} onClick={() => setPage(page + 1)}>
+                        Next
+                    </Button>
+                </div>
+            </Card>
+
+            {/* Add User Modal */}
+            <Modal
+                isOpen={isAddModalOpen}
+                onClose={() => setIsAddModalOpen(false)}
+                title="New User"
+            >
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <Input
+                        label="Username"
+                        placeholder="lowercase letters, digits, . _ -"
+                        value={newUser.username}
+                        onChange={(e) => setNewUser({ ...newUser, username: e.target.value })}
+                    />
+                    <Input
+                        label="Full Name"
+                        placeholder="Enter full name"
+                        value={newUser.fullName}
+                        onChange={(e) => setNewUser({ ...newUser, fullName: e.target.value })}
+                    />
+                    <div className="space-y-1.5">
+                        <label className="text-sm font-medium text-foreground">Role</label>
+                        <select
+                            className="w-full border border-border rounded-lg px-3 py-2.5 text-sm"
+                            value={newUser.role}
+                            onChange={(e) => setNewUser({ ...newUser, role: e.target.value })}
+                        >
+                            {roleNames.map((option) => (
+                                <option key={option} value={option}>{option}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <div className="space-y-1.5">
+                        <label className="text-sm font-medium text-foreground">Supplier</label>
+                        <select
+                            className="w-full border border-border rounded-lg px-3 py-2.5 text-sm"
+                            value={newUser.supplierId}
+                            onChange={(e) => setNewUser({ ...newUser, supplierId: e.target.value })}
+                        >
+                            <option value="">None (staff)</option>
+                            {suppliers.map((supplier) => (
+                                <option key={supplier.id} value={supplier.id}>{supplier.companyName}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <Input
+                        label="Password"
+                        type="password"
+                        autoComplete="new-password"
+                        placeholder="At least 8 characters"
+                        value={newUser.password}
+                        onChange={(e) => setNewUser({ ...newUser, password: e.target.value })}
+                    />
+                </div>
+                <div className="flex justify-end gap-3 mt-8 pt-4 border-t border-border">
+                    <Button variant="outline" onClick={() => setIsAddModalOpen(false)}>Discard</Button>
+                    <Button onClick={handleAddUser}>Add User</Button>
+                </div>
+            </Modal>
+
+            {/* Reset Password Modal */}
+            <Modal
+                isOpen={passwordTarget !== null}
+                onClose={() => setPasswordTarget(null)}
+                title={`Reset password for ${passwordTarget?.username ?? ""}`}
+            >
+                <p className="text-sm text-secondary mb-4">
+                    The user is signed out everywhere and must sign in with the new password.
+                </p>
+                <Input
+                    label="New Password"
+                    type="password"
+                    autoComplete="new-password"
+                    placeholder="At least 8 characters"
+                    value={newPassword}
+                    onChange={(e) => setNewPassword(e.target.value)}
+                />
+                <div className="flex justify-end gap-3 mt-8 pt-4 border-t border-border">
+                    <Button variant="outline" onClick={() => setPasswordTarget(null)}>Cancel</Button>
+                    <Button onClick={handleResetPassword}>Reset Password</Button>
+                </div>
+            </Modal>
+        </div>
+    );
+}
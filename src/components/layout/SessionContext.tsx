@@ -0,0 +1,74 @@
+"use client";
+
+import React, { createContext, useCallback, useContext, useEffect, useState } from "react";
+import { DisplaySettings } from "@/lib/db";
+
+export type SessionUser = {
+    id: string;
+    username: string;
+    role: string;
+    fullName: string;
+    // Named permissions granted by the user's role (e.g. "user:manage")
+    permissions: string[];
+    // Set for supplier users, who work in the supplier portal
+    supplierId?: string;
+    // Client company (tenant) whose data the user works with
+    organization?: { id: string; name: string; slug: string };
+};
+
+type SessionContextType = {
+    // null until /api/auth/me has answered
+    user: SessionUser | null;
+    // Company settings pages render with (currency, units); null until loaded
+    settings: DisplaySettings | null;
+    // Load the session again (e.g. after the settings were changed)
+    refresh: () => void;
+};
+
+const SessionContext = createContext<SessionContextType | undefined>(undefined);
+
+export function SessionProvider({ children }: { children: React.ReactNode }) {
+    const [user, setUser] = useState<SessionUser | null>(null);
+    const [settings, setSettings] = useState<DisplaySettings | null>(null);
+
+    // Bumped by refresh() to load the session again
+    const [loadCount, setLoadCount] = useState(0);
+
+    useEffect(() => {
+        const fetchSession = async () => {
+            try {
+                const res = await fetch("/api/auth/me");
+                if (res.status === 401) {
+                    // Session expired, was revoked or was signed with an old key
+                    const next = `${window.location.pathname}${window.location.search}`;
+                    window.location.assign(`/login?next=${encodeURIComponent(next)}`);
+                    return;
+                }
+                if (res.ok) {
+                    const { settings, ...sessionUser } = await res.json();
+                    setUser(sessionUser);
+                    setSettings(settings);
+                }
+            } catch (error) {
+                console.error("Failed to fetch session", error);
+            }
+        };
+        fetchSession();
+    }, [loadCount]);
+
+    const refresh = useCallback(() => setLoadCount((count) => count + 1), []);
+
+    return (
+        <SessionContext.Provider value={{ user, settings, refresh }}>
+            {children}
+        </SessionContext.Provider>
+    );
+}
+
+export function useSession() {
+    const context = useContext(SessionContext);
+    if (context === undefined) {
+        throw new Error("useSession must be used within a SessionProvider");
+    }
+    return context;
+}
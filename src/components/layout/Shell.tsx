@@ -1,13 +1,40 @@
 "use client";
 
+import { usePathname } from "next/navigation";
 import { SidebarProvider } from "./SidebarContext";
+import { SessionProvider } from "./SessionContext";
+import { Sidebar } from "./Sidebar";
+import { TopBar } from "./TopBar";
+
+// Pages shown without the sidebar and top bar
+const STANDALONE_PATHS = ["/login"];
+// Invitation links (/invite/[token]) are opened before the supplier has an account
+const STANDALONE_PREFIXES = ["/invite/"];
 
 export function Shell({ children }: { children: React.ReactNode }) {
-    return (
-        <SidebarProvider>
+    const pathname = usePathname();
+
+    if (STANDALONE_PATHS.includes(pathname) || STANDALONE_PREFIXES.some((prefix) => pathname.startsWith(prefix))) {
+        return (
             <div className="min-h-screen bg-background text-foreground font-sans antialiased">
                 {children}
             </div>
-        </SidebarProvider>
+        );
+    }
+
+    return (
+        <SessionProvider>
+            <SidebarProvider>
+                <div className="min-h-screen bg-background text-foreground font-sans antialiased">
+                    <Sidebar />
+                    <TopBar />
+                    <main className="md:pl-64 pt-16 min-h-screen transition-all duration-300">
+                        <div className="p-4 md:p-8 max-w-7xl mx-auto">
+                            {children}
+                        </div>
+                    </main>
+                </div>
+            </SidebarProvider>
+        </SessionProvider>
     );
 }
@@ -13,22 +13,53 @@ import {
     LogOut,
     Calendar,
     CheckSquare,
+    ShieldCheck,
+    Truck,
+    Briefcase,
+    KeyRound,
     X,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useSidebar } from "./SidebarContext";
+import { useSession } from "./SessionContext";
 
-const sidebarItems = [
+// Items with a permission are only shown to users who hold it. Supplier users
+// (linked to a supplier) get the portal instead of the staff pages.
+type Audience = "staff" | "supplier" | "all";
+
+const sidebarItems: { icon: typeof Store; label: string; href: string; permission?: string; audience?: Audience }[] = [
     { icon: LayoutDashboard, label: "Dashboard", href: "/" },
+    { icon: Briefcase, label: "Portal", href: "/portal", audience: "supplier" },
     { icon: Store, label: "Inventory", href: "/inventory" },
     { icon: Package, label: "Orders", href: "/orders" },
     { icon: CheckSquare, label: "Approved", href: "/approve" },
-    { icon: Calendar, label: "Exhibition", href: "/exhibitions" },
+    { icon: Calendar, label: "Exhibition", href: "/exhibitions", audience: "all" },
+    { icon: Truck, label: "Suppliers", href: "/suppliers", permission: "supplier:read" },
+    { icon: Users, label: "Users", href: "/users", permission: "user:manage" },
+    { icon: ShieldCheck, label: "Roles", href: "/roles", permission: "role:manage" },
+    { icon: KeyRound, label: "API Keys", href: "/integrations", permission: "apikey:manage" },
 ];
 
 export function Sidebar() {
     const pathname = usePathname();
     const { isOpen, close } = useSidebar();
+    const { user, settings } = useSession();
+    const audience: Audience = user?.supplierId ? "supplier" : "staff";
+    const visibleItems = sidebarItems.filter((item) => {
+        const itemAudience = item.audience ?? "staff";
+        return (itemAudience === "all" || itemAudience === audience) &&
+            (!item.permission || user?.permissions.includes(item.permission));
+    });
+
+    const handleLogout = async () => {
+        try {
+            await fetch("/api/auth/logout", { method: "POST" });
+        } catch (error) {
+            console.error("Failed to log out", error);
+        }
+        // Full navigation so no page state of the previous user survives
+        window.location.assign("/login");
+    };
 
     return (
         <>
@@ -54,7 +85,12 @@ export function Sidebar() {
                             <div className="w-8 h-8 bg-primary rounded-lg flex items-center justify-center">
                                 <span className="text-white font-bold text-xl">T</span>
                             </div>
-                            <span className="text-foreground font-bold text-lg tracking-tight">Transpo</span>
+                            <div>
+                                <span className="block text-foreground font-bold text-lg tracking-tight leading-tight">Transpo</span>
+                                {settings && (
+                                    <span className="block text-xs text-secondary truncate max-w-36">{settings.companyName}</span>
+                                )}
+                            </div>
                         </div>
                         <button
                             onClick={close}
@@ -66,7 +102,7 @@ export function Sidebar() {
 
                     {/* Navigation */}
                     <nav className="flex-1 px-3 py-6 space-y-1 overflow-y-auto">
-                        {sidebarItems.map((item) => {
+                        {visibleItems.map((item) => {
                             const isActive = pathname === item.href || (item.href !== "/" && pathname.startsWith(item.href));
                             return (
                                 <Link
@@ -89,15 +125,25 @@ export function Sidebar() {
 
                     {/* Footer */}
                     <div className="p-4 border-t border-border space-y-1">
-                        <Link
-                            href="/settings"
-                            onClick={() => close()}
-                            className="flex items-center gap-3 px-3 py-2.5 rounded-md text-sm font-medium text-secondary hover:bg-surface-hover hover:text-foreground transition-colors"
+                        {user?.permissions.includes("settings:manage") && (
+                            <Link
+                                href="/settings"
+                                onClick={() => close()}
+                                className={cn(
+                                    "flex items-center gap-3 px-3 py-2.5 rounded-md text-sm font-medium transition-colors",
+                                    pathname === "/settings"
+                                        ? "text-primary bg-primary/10"
+                                        : "text-secondary hover:bg-surface-hover hover:text-foreground"
+                                )}
+                            >
+                                <Settings className="w-5 h-5" />
+                                Settings
+                            </Link>
+                        )}
+                        <button
+                            onClick={handleLogout}
+                            className="w-full flex items-center gap-3 px-3 py-2.5 rounded-md text-sm font-medium text-secondary hover:bg-surface-hover hover:text-danger/80 transition-colors group"
                         >
-                            <Settings className="w-5 h-5" />
-                            Settings
-                        </Link>
-                        <button className="w-full flex items-center gap-3 px-3 py-2.5 rounded-md text-sm font-medium text-secondary hover:bg-surface-hover hover:text-danger/80 transition-colors group">
                             <LogOut className="w-5 h-5 group-hover:text-danger" />
                             Log Out
                         </button>
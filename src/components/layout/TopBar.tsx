@@ -2,9 +2,11 @@
 
 import { Search, Bell, Menu } from "lucide-react";
 import { useSidebar } from "./SidebarContext";
+import { useSession } from "./SessionContext";
 
 export function TopBar() {
     const { toggle } = useSidebar();
+    const { user } = useSession();
 
     return (
         <header className="h-16 bg-surface border-b border-border flex items-center justify-between px-4 md:px-8 fixed top-0 right-0 left-0 md:left-64 z-20 transition-all duration-300">
@@ -31,6 +33,12 @@ export function TopBar() {
                     <Bell className="w-5 h-5" />
                     <span className="absolute top-2 right-2 w-2 h-2 bg-danger rounded-full border-2 border-surface"></span>
                 </button>
+                {user && (
+                    <div className="hidden sm:block text-right leading-tight">
+                        <div className="text-sm font-medium text-foreground">{user.fullName}</div>
+                        <div className="text-xs text-secondary capitalize">{user.role.toLowerCase()}</div>
+                    </div>
+                )}
                 <div className="w-8 h-8 bg-surface-hover rounded-full overflow-hidden border border-border">
                     {/* Placeholder for user avatar */}
                     <img src="https://github.com/shadcn.png" alt="User" />
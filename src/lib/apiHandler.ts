@@ -0,0 +1,350 @@
+/**
+ * Route handler wrapper
+ * Every API route is declared through apiHandler(), which
+ *   - assigns a request id (or adopts a valid incoming X-Request-Id),
+ *   - authenticates the caller and takes a token from their rate limit
+ *     (see @/services/rateLimit; 429 when exhausted),
+ *   - checks the route's permission (routes declared with permission:
+ *     'authenticated' only need a signed-in caller; permission: 'public'
+ *     routes, such as login, need neither),
+ *   - replays the stored response of a retried Idempotency-Key on
+ *     `idempotent` routes (see @/services/idempotency),
+ *   - parses and validates the JSON body or form against the route's schema,
+ *   - validates the query string against the route's query schema,
+ *   - maps thrown errors to problem responses (see ./errors).
+ */
+
+import { NextResponse } from 'next/server';
+import { MissingReferenceError, ReferentialIntegrityError, VersionConflictError } from '@/services/mockDb';
+import { availableTransitions, InvalidOrderTransitionError } from '@/services/orderWorkflow';
+import { runWithRequestContext } from '@/services/requestContext';
+import { createRequestId } from '@/services/ids';
+import { InvalidQueryError } from '@/services/query';
+import { getRateLimiter, RateLimitClass, RateLimitDecision } from '@/services/rateLimit';
+import { getIdempotencyStore, requestFingerprint } from '@/services/idempotency';
+import { authenticateUser, authorizeCaller, AuthContext, Permission } from '@/middleware/rbac';
+import {
+  ApiError,
+  BusinessRuleError,
+  ConflictError,
+  internalErrorResponse,
+  problemResponse,
+  TooManyRequestsError,
+  ValidationError,
+} from './errors';
+import { formFields, parseBody, queryFields, Schema, validate } from './validation';
+import { getExpectedVersion, VersionSource } from './etag';
+
+export interface HandlerContext<B, Q = undefined, A = AuthContext> {
+  request: Request;
+  // Resolved dynamic route segments (e.g. { id } for [id] routes)
+  params: Record<string, string>;
+  // Validated body; undefined when the route declares no schema
+  body: B;
+  // Raw form data for `form` routes (file uploads)
+  formData?: FormData;
+  // Validated query parameters; undefined when the route declares no query schema
+  query: Q;
+  // Caller; on public routes null unless the caller happens to be signed in
+  auth: A;
+  requestId: string;
+  /**
+   * Version the client based its write on (If-Match header, else `version` in
+   * the body). Conflicts on this version are answered with 412 or 409 accordingly.
+   */
+  expectedVersion(body?: { version?: unknown }): number | undefined;
+}
+
+export interface HandlerOptions<B, Q> {
+  permission: Permission | 'authenticated' | 'public';
+  // JSON body schema
+  body?: Schema<B>;
+  // Multipart/url-encoded form schema (text fields only; files via ctx.formData)
+  form?: Schema<B>;
+  // Query string schema (values arrive as strings; repeated keys are comma-joined)
+  query?: Schema<Q>;
+  /**
+   * Rate limit class; defaults to 'upload' for form routes, 'read' for GET and
+   * 'write' for everything else. false exempts the route.
+   */
+  rateLimit?: RateLimitClass | false;
+  /**
+   * Accept an Idempotency-Key header (create routes): a retry with the same key
+   * and payload replays the first response instead of running again
+   */
+  idempotent?: boolean;
+}
+
+// Second argument Next.js passes to route handlers
+export interface RouteContext {
+  params: Promise<Record<string, string>>;
+}
+
+const REQUEST_ID_PATTERN = /^[\w.-]{1,100}$/;
+
+const IDEMPOTENCY_KEY_PATTERN = /^[\x21-\x7e]{1,255}$/;
+
+// Headers that belong to one delivery of a response, not to the stored result
+const UNREPLAYED_HEADERS = ['set-cookie', 'x-request-id', 'x-ratelimit-limit', 'x-ratelimit-remaining'];
+
+function resolveRequestId(request: Request): string {
+  const incoming = request.headers.get('x-request-id');
+  return incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : createRequestId();
+}
+
+function clientAddress(request: Request): string {
+  const forwarded = request.headers.get('x-forwarded-for')?.split(',')[0].trim();
+  return forwarded || request.headers.get('x-real-ip') || 'unknown';
+}
+
+// Who a rate limit or idempotency key belongs to: the API key, else the user, else the client address
+function callerKey(request: Request, caller: AuthContext | null): string {
+  if (caller?.apiKeyId) return `key:${caller.apiKeyId}`;
+  return caller ? `user:${caller.user.id}` : `ip:${clientAddress(request)}`;
+}
+
+/**
+ * Take a token from the caller's bucket. Returns null when the route or the
+ * server has no limit.
+ */
+function checkRateLimit<B, Q>(
+  request: Request,
+  options: HandlerOptions<B, Q>,
+  caller: AuthContext | null
+): RateLimitDecision | null {
+  const limiter = getRateLimiter();
+  if (!limiter || options.rateLimit === false) return null;
+
+  const limitClass =
+    options.rateLimit ?? (options.form ? 'upload' : ['GET', 'HEAD'].includes(request.method) ? 'read' : 'write');
+
+  const decision = limiter.take(callerKey(request, caller), limitClass);
+  if (!decision.allowed) {
+    throw new TooManyRequestsError(decision.retryAfterSeconds, rateLimitHeaders(decision));
+  }
+  return decision;
+}
+
+function rateLimitHeaders(decision: RateLimitDecision): Record<string, string> {
+  return {
+    'X-RateLimit-Limit': String(decision.limit),
+    'X-RateLimit-Remaining': String(decision.remaining),
+  };
+}
+
+/**
+ * Claim the request's Idempotency-Key on routes that accept one. Returns the
+ * key to complete once the response is known, or the stored response of an
+ * earlier request with the same key and payload; null without a key.
+ */
+async function beginIdempotentRequest<B, Q>(
+  request: Request,
+  options: HandlerOptions<B, Q>,
+  caller: AuthContext | null
+): Promise<{ key?: string; replay?: Response } | null> {
+  const header = request.headers.get('idempotency-key');
+  if (!options.idempotent || header === null) return null;
+  if (!IDEMPOTENCY_KEY_PATTERN.test(header)) {
+    throw new ValidationError([
+      { path: 'Idempotency-Key', message: 'Must be 1-255 visible ASCII characters (e.g. a UUID)' },
+    ]);
+  }
+
+  // Read a copy: the original body is still parsed for the handler
+  const payload = options.form ? await request.clone().formData() : await request.clone().text();
+  const fingerprint = await requestFingerprint(request.method, new URL(request.url).pathname, payload);
+  const key = `${callerKey(request, caller)}:${header}`;
+
+  const start = getIdempotencyStore().begin(key, fingerprint);
+  switch (start.outcome) {
+    case 'started':
+      return { key };
+    case 'replay':
+      return {
+        replay: new Response(start.response.body, {
+          status: start.response.status,
+          headers: { ...start.response.headers, 'Idempotent-Replayed': 'true' },
+        }),
+      };
+    case 'in-progress':
+      throw new ConflictError(
+        'A request with this Idempotency-Key is still in progress',
+        { idempotencyKey: header },
+        'IDEMPOTENCY_KEY_IN_USE'
+      );
+    case 'mismatch':
+      throw new BusinessRuleError(
+        'Idempotency-Key was already used for a different request',
+        { idempotencyKey: header },
+        'IDEMPOTENCY_KEY_REUSED'
+      );
+  }
+}
+
+/**
+ * Store the response for replay; server errors release the key so a retry runs again
+ */
+async function completeIdempotentRequest(key: string, response: Response): Promise<void> {
+  const store = getIdempotencyStore();
+  if (response.status >= 500) {
+    store.release(key);
+    return;
+  }
+  const headers: Record<string, string> = {};
+  response.headers.forEach((value, name) => {
+    if (!UNREPLAYED_HEADERS.includes(name)) headers[name] = value;
+  });
+  store.complete(key, { status: response.status, headers, body: await response.clone().text() });
+}
+
+/**
+ * Map anything thrown by a handler to a problem response
+ */
+function toErrorResponse(error: unknown, requestId: string, versionSource?: VersionSource): NextResponse {
+  if (error instanceof ApiError) {
+    return problemResponse(error, requestId);
+  }
+
+  if (error instanceof VersionConflictError) {
+    const preconditionFailed = versionSource === 'if-match';
+    return problemResponse(
+      new ConflictError(
+        preconditionFailed ? 'Precondition failed - record has changed' : 'Record has changed',
+        {
+          entity: error.entity,
+          id: error.id,
+          expectedVersion: error.expectedVersion,
+          currentVersion: error.currentVersion,
+        },
+        preconditionFailed ? 'PRECONDITION_FAILED' : 'VERSION_CONFLICT',
+        { ETag: `"${error.currentVersion}"` }
+      ),
+      requestId
+    );
+  }
+
+  if (error instanceof InvalidQueryError) {
+    return problemResponse(new ValidationError([{ path: error.field, message: error.message }]), requestId);
+  }
+
+  if (error instanceof InvalidOrderTransitionError) {
+    return problemResponse(
+      new ConflictError(
+        error.message,
+        {
+          id: error.orderId,
+          status: error.status,
+          transition: error.transition,
+          availableTransitions: availableTransitions(error.status),
+        },
+        'INVALID_TRANSITION'
+      ),
+      requestId
+    );
+  }
+
+  if (error instanceof ReferentialIntegrityError) {
+    return problemResponse(
+      new ConflictError(
+        `${error.entity} is still referenced by other records`,
+        { entity: error.entity, id: error.id, dependents: error.dependents },
+        'REFERENCE_CONFLICT'
+      ),
+      requestId
+    );
+  }
+
+  if (error instanceof MissingReferenceError) {
+    return problemResponse(
+      new ValidationError([{ path: error.field, message: `Unknown ${error.parent} "${error.key}"` }]),
+      requestId
+    );
+  }
+
+  console.error(`[${requestId}] Unhandled API error:`, error);
+  return internalErrorResponse(requestId);
+}
+
+type RouteHandler = (request: Request, context: RouteContext) => Promise<Response>;
+
+export function apiHandler<B = undefined, Q = undefined>(
+  options: HandlerOptions<B, Q> & { permission: Permission | 'authenticated' },
+  handler: (ctx: HandlerContext<B, Q>) => Response | Promise<Response>
+): RouteHandler;
+export function apiHandler<B = undefined, Q = undefined>(
+  options: HandlerOptions<B, Q> & { permission: 'public' },
+  handler: (ctx: HandlerContext<B, Q, AuthContext | null>) => Response | Promise<Response>
+): RouteHandler;
+export function apiHandler<B, Q>(
+  options: HandlerOptions<B, Q>,
+  handler: (ctx: HandlerContext<B, Q>) => Response | Promise<Response>
+): RouteHandler {
+  return (request, context) => {
+    const requestId = resolveRequestId(request);
+
+    return runWithRequestContext({ requestId }, async () => {
+      let versionSource: VersionSource | undefined;
+      let rateLimit: RateLimitDecision | null = null;
+      let idempotencyKey: string | undefined;
+
+      const finish = async (response: Response) => {
+        if (idempotencyKey) {
+          await completeIdempotentRequest(idempotencyKey, response);
+        }
+        response.headers.set('X-Request-Id', requestId);
+        if (rateLimit) {
+          for (const [name, value] of Object.entries(rateLimitHeaders(rateLimit))) response.headers.set(name, value);
+        }
+        return response;
+      };
+
+      try {
+        const caller = authenticateUser(request);
+        // Before the permission check and body parsing, so refused callers cost little
+        rateLimit = checkRateLimit(request, options, caller);
+        const auth =
+          options.permission === 'public'
+            ? caller
+            : authorizeCaller(caller, options.permission === 'authenticated' ? undefined : options.permission);
+        const idempotency = await beginIdempotentRequest(request, options, caller);
+        if (idempotency?.replay) {
+          return finish(idempotency.replay);
+        }
+        idempotencyKey = idempotency?.key;
+        const params = context?.params ? await context.params : {};
+        const query = options.query
+          ? validate(options.query, queryFields(new URL(request.url).searchParams))
+          : (undefined as Q);
+
+        let body = undefined as B;
+        let formData: FormData | undefined;
+        if (options.body) {
+          body = await parseBody(request, options.body);
+        } else if (options.form) {
+          formData = await request.formData();
+          body = validate(options.form, formFields(formData));
+        }
+
+        const response = await handler({
+          request,
+          params,
+          body,
+          formData,
+          query,
+          // Only null on public routes, whose handlers are typed to expect it
+          auth: auth as AuthContext,
+          requestId,
+          expectedVersion(source) {
+            const expected = getExpectedVersion(request, source);
+            versionSource = expected.source;
+            return expected.version;
+          },
+        });
+
+        return finish(response);
+      } catch (error) {
+        return finish(toErrorResponse(error, requestId, versionSource));
+      }
+    });
+  };
+}
@@ -0,0 +1,147 @@
+/**
+ * API error model
+ * Route handlers throw these typed errors; apiHandler (./apiHandler) turns
+ * them into a JSON problem response (application/problem+json):
+ *
+ *   { "status": 404, "code": "NOT_FOUND", "title": "Not Found",
+ *     "detail": "Product not found", "requestId": "req_...", ...extensions }
+ *
+ * Clients should branch on `code`, never on `detail`.
+ */
+
+import { NextResponse } from 'next/server';
+import type { FieldError } from './validation';
+import type { ApiProblem, ErrorCode } from './problem';
+
+export type { ErrorCode };
+
+const TITLES: Record<number, string> = {
+  400: 'Bad Request',
+  401: 'Unauthorized',
+  403: 'Forbidden',
+  404: 'Not Found',
+  409: 'Conflict',
+  412: 'Precondition Failed',
+  422: 'Unprocessable Content',
+  429: 'Too Many Requests',
+  500: 'Internal Server Error',
+};
+
+export class ApiError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly code: ErrorCode,
+    message: string,
+    // Extra members merged into the problem body (e.g. fieldErrors)
+    public readonly extensions: Record<string, unknown> = {},
+    public readonly headers: Record<string, string> = {}
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+export class UnauthorizedError extends ApiError {
+  constructor(message = 'Authentication required') {
+    super(401, 'UNAUTHORIZED', message);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+export class ForbiddenError extends ApiError {
+  constructor(message = 'Insufficient permissions') {
+    super(403, 'FORBIDDEN', message);
+    this.name = 'ForbiddenError';
+  }
+}
+
+export class NotFoundError extends ApiError {
+  constructor(entity: string, id?: string) {
+    super(404, 'NOT_FOUND', `${entity} not found`, id === undefined ? { entity } : { entity, id });
+    this.name = 'NotFoundError';
+  }
+}
+
+export class ConflictError extends ApiError {
+  constructor(
+    message: string,
+    extensions: Record<string, unknown> = {},
+    code: Extract<
+      ErrorCode,
+      | 'CONFLICT'
+      | 'VERSION_CONFLICT'
+      | 'PRECONDITION_FAILED'
+      | 'REFERENCE_CONFLICT'
+      | 'IDEMPOTENCY_KEY_IN_USE'
+      | 'INVALID_TRANSITION'
+    > = 'CONFLICT',
+    headers: Record<string, string> = {}
+  ) {
+    super(code === 'PRECONDITION_FAILED' ? 412 : 409, code, message, extensions, headers);
+    this.name = 'ConflictError';
+  }
+}
+
+export class ValidationError extends ApiError {
+  constructor(public readonly fieldErrors: FieldError[]) {
+    super(422, 'VALIDATION_FAILED', 'Validation failed', { fieldErrors });
+    this.name = 'ValidationError';
+  }
+}
+
+/**
+ * The request is well-formed but breaks a domain rule (e.g. ordering an unapproved product)
+ */
+export class BusinessRuleError extends ApiError {
+  constructor(
+    message: string,
+    extensions: Record<string, unknown> = {},
+    code: Extract<ErrorCode, 'BUSINESS_RULE_VIOLATION' | 'IDEMPOTENCY_KEY_REUSED'> = 'BUSINESS_RULE_VIOLATION'
+  ) {
+    super(422, code, message, extensions);
+    this.name = 'BusinessRuleError';
+  }
+}
+
+/**
+ * The caller used up their rate limit (see @/services/rateLimit); Retry-After
+ * tells them when to try again
+ */
+export class TooManyRequestsError extends ApiError {
+  constructor(retryAfterSeconds: number, headers: Record<string, string> = {}) {
+    super(429, 'RATE_LIMITED', 'Too many requests - slow down', { retryAfterSeconds }, {
+      ...headers,
+      'Retry-After': String(retryAfterSeconds),
+    });
+    this.name = 'TooManyRequestsError';
+  }
+}
+
+/**
+ * Problem response for an ApiError
+ */
+export function problemResponse(error: ApiError, requestId?: string): NextResponse {
+  const problem: ApiProblem = {
+    status: error.status,
+    code: error.code,
+    title: TITLES[error.status] ?? 'Error',
+    detail: error.message,
+    requestId,
+    ...error.extensions,
+  };
+  const response = NextResponse.json(problem, {
+    status: error.status,
+    headers: { 'Content-Type': 'application/problem+json', ...error.headers },
+  });
+  if (requestId) {
+    response.headers.set('X-Request-Id', requestId);
+  }
+  return response;
+}
+
+/**
+ * Problem response for an unexpected failure; the details stay in the server log
+ */
+export function internalErrorResponse(requestId?: string): NextResponse {
+  return problemResponse(new ApiError(500, 'INTERNAL_ERROR', 'An unexpected error occurred'), requestId);
+}
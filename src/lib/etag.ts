@@ -0,0 +1,57 @@
+/**
+ * Optimistic concurrency helpers for API routes
+ * GET responses expose a record's version as a strong ETag. Writes may send it
+ * back in an If-Match header (or as `version` in the JSON body) so MockDB can
+ * reject them when someone else saved in between; apiHandler answers such a
+ * VersionConflictError with 412 (If-Match) or 409 (body).
+ */
+
+import { NextResponse } from 'next/server';
+import { Versioned } from '@/services/mockDb';
+
+export type VersionSource = 'if-match' | 'body';
+
+export interface ExpectedVersion {
+  version?: number;
+  source?: VersionSource;
+}
+
+/**
+ * Build the ETag for a versioned record
+ */
+export function etagFor(record: Versioned): string {
+  return `"${record.version}"`;
+}
+
+/**
+ * JSON response carrying the record's ETag header
+ */
+export function jsonWithETag(body: unknown, record: Versioned, init?: ResponseInit): NextResponse {
+  const response = NextResponse.json(body, init);
+  response.headers.set('ETag', etagFor(record));
+  return response;
+}
+
+/**
+ * Work out which version the client based its write on.
+ * If-Match wins over a `version` field in the body; `If-Match: *` matches any version.
+ * A malformed If-Match value never matches a real version.
+ */
+export function getExpectedVersion(request: Request, body?: { version?: unknown }): ExpectedVersion {
+  const ifMatch = request.headers.get('if-match');
+
+  if (ifMatch) {
+    const value = ifMatch.split(',')[0].trim();
+    if (value === '*') {
+      return {};
+    }
+    const match = value.match(/^(?:W\/)?"(\d+)"$/);
+    return { version: match ? Number(match[1]) : -1, source: 'if-match' };
+  }
+
+  if (body && typeof body.version === 'number') {
+    return { version: body.version, source: 'body' };
+  }
+
+  return {};
+}
@@ -0,0 +1,62 @@
+/**
+ * Route handlers for the order workflow: every transition has its own
+ * endpoint (POST /api/orders/[id]/<transition>) guarded by the transition's
+ * permission (see ORDER_WORKFLOW in @/services/orderWorkflow).
+ * A transition the order's status does not allow is answered with 409
+ * INVALID_TRANSITION, an unmet precondition with 422.
+ */
+
+import { mockDb } from '@/services/mockDb';
+import { ORDER_WORKFLOW, OrderTransition, previousStageQuantity } from '@/services/orderWorkflow';
+import { authorizeExhibition } from '@/middleware/rbac';
+import { apiHandler } from './apiHandler';
+import { BusinessRuleError, NotFoundError, ValidationError } from './errors';
+import { jsonWithETag } from './etag';
+import { orderTransitionSchema } from './schemas';
+import type { FieldError } from './validation';
+
+export function orderTransitionHandler(transition: OrderTransition) {
+  const rule = ORDER_WORKFLOW[transition];
+
+  return apiHandler(
+    { permission: rule.permission, body: orderTransitionSchema },
+    ({ params, body, auth, expectedVersion }) => {
+      const order = mockDb.getOrderById(params.id);
+      if (!order) {
+        throw new NotFoundError('Order', params.id);
+      }
+      if (order.exhibitionId) {
+        authorizeExhibition(auth, order.exhibitionId, 'edit');
+      }
+
+      const { version, ...input } = body;
+      if (rule.requiresReason && !input.reason) {
+        throw new ValidationError([{ path: 'reason', message: `Required to ${transition} an order` }]);
+      }
+      // Counted quantities can only fall short of what reached the previous stage
+      if (input.lines) {
+        const stage = rule.records;
+        if (!stage) {
+          throw new ValidationError([{ path: 'lines', message: `Line quantities are not recorded on ${transition}` }]);
+        }
+        const errors = input.lines.flatMap((counted, i): FieldError[] => {
+          const line = order.items?.find((item) => item.id === counted.id);
+          if (!line) return [{ path: `lines[${i}].id`, message: `Unknown line "${counted.id}"` }];
+          const available = previousStageQuantity(line, stage);
+          return counted.quantity > available ? [{ path: `lines[${i}].quantity`, message: `Must be at most ${available}` }] : [];
+        });
+        if (errors.length > 0) {
+          throw new ValidationError(errors);
+        }
+      }
+      // Preconditions only matter for a legal move; MockDB refuses the others
+      const unmet = rule.from.includes(order.status) ? rule.precondition?.(order, input, mockDb) : null;
+      if (unmet) {
+        throw new BusinessRuleError(unmet, { id: order.id, status: order.status, transition });
+      }
+
+      const updatedOrder = mockDb.transitionOrder(order.id, transition, input, expectedVersion({ version }))!;
+      return jsonWithETag(updatedOrder, updatedOrder);
+    }
+  );
+}
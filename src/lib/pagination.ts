@@ -0,0 +1,59 @@
+/**
+ * Paged list endpoints as seen by client code
+ * GET /api/users, /api/suppliers, /api/products, /api/exhibitions,
+ * /api/product-lists, /api/orders and /api/audit answer with a Page (see
+ * `@/services/query` for the server side).
+ */
+
+import type { Page } from '@/services/query';
+import { describeProblem, readProblem } from './problem';
+
+export type { Page };
+
+// Largest page the server hands out (MAX_PAGE_SIZE)
+const MAX_LIMIT = 100;
+
+export type ListParams = Record<string, string | number | boolean | string[] | undefined | null>;
+
+/**
+ * URL for a list endpoint; empty values are left out and arrays become comma lists
+ */
+export function listUrl(path: string, params: ListParams = {}): string {
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value === undefined || value === null || value === '') continue;
+    if (Array.isArray(value)) {
+      if (value.length > 0) search.set(key, value.join(','));
+      continue;
+    }
+    search.set(key, String(value));
+  }
+  const query = search.toString();
+  return query ? `${path}?${query}` : path;
+}
+
+/**
+ * Fetch one page; throws with a readable message when the request fails
+ */
+export async function fetchPage<T>(path: string, params: ListParams = {}): Promise<Page<T>> {
+  const res = await fetch(listUrl(path, params));
+  if (!res.ok) {
+    throw new Error(describeProblem(await readProblem(res)));
+  }
+  return res.json();
+}
+
+/**
+ * Fetch every matching record by following nextCursor (for pickers and
+ * dashboards that need the whole list)
+ */
+export async function fetchAllPages<T>(path: string, params: ListParams = {}): Promise<T[]> {
+  const items: T[] = [];
+  let cursor: string | null | undefined;
+  do {
+    const page: Page<T> = await fetchPage<T>(path, { ...params, limit: MAX_LIMIT, cursor });
+    items.push(...page.items);
+    cursor = page.nextCursor;
+  } while (cursor);
+  return items;
+}
@@ -0,0 +1,54 @@
+/**
+ * Error responses as seen by client code
+ * Every failed API call answers with this shape (see ./errors for the server side).
+ * Branch on `code`; `detail` is meant for people.
+ */
+
+export type ErrorCode =
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'NOT_FOUND'
+  | 'CONFLICT'
+  | 'VERSION_CONFLICT'
+  | 'PRECONDITION_FAILED'
+  | 'REFERENCE_CONFLICT'
+  | 'VALIDATION_FAILED'
+  | 'BUSINESS_RULE_VIOLATION'
+  | 'RATE_LIMITED'
+  | 'IDEMPOTENCY_KEY_IN_USE'
+  | 'IDEMPOTENCY_KEY_REUSED'
+  | 'INVALID_TRANSITION'
+  | 'INTERNAL_ERROR';
+
+export interface ApiProblem {
+  status: number;
+  code: ErrorCode;
+  title: string;
+  detail: string;
+  requestId?: string;
+  // Present for VALIDATION_FAILED
+  fieldErrors?: { path: string; message: string }[];
+  [extension: string]: unknown;
+}
+
+/**
+ * Read the problem body of a failed response (falls back to a generic problem
+ * when the body is not JSON)
+ */
+export async function readProblem(res: Response): Promise<ApiProblem> {
+  try {
+    return (await res.json()) as ApiProblem;
+  } catch {
+    return { status: res.status, code: 'INTERNAL_ERROR', title: res.statusText, detail: res.statusText };
+  }
+}
+
+/**
+ * One human-readable message for a problem, listing field errors when present
+ */
+export function describeProblem(problem: ApiProblem): string {
+  if (problem.fieldErrors?.length) {
+    return problem.fieldErrors.map((e) => (e.path ? `${e.path}: ${e.message}` : e.message)).join('\n');
+  }
+  return problem.detail;
+}
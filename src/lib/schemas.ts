@@ -0,0 +1,501 @@
+/**
+ * Request body and query string schemas for the API routes
+ * Each schema is typed against the entity interfaces in mockDb, so a change to
+ * an entity that a schema no longer matches fails the type check.
+ * Server-owned fields (ids, versions, status on create, approval flags,
+ * timestamps) are deliberately absent and therefore rejected.
+ */
+
+import {
+  AUDIT_ENTITY_TYPES,
+  AUDIT_SORT_FIELDS,
+  EXHIBITION_SORT_FIELDS,
+  LIST_ORDER_MODES,
+  OVERALLOCATION_MODES,
+  PRODUCT_LIST_SORT_FIELDS,
+  PRODUCT_SORT_FIELDS,
+  SUPPLIER_SORT_FIELDS,
+  USER_SORT_FIELDS,
+  type ApiKey,
+  type AuditFilter,
+  type AuditSortField,
+  type Exhibition,
+  type ExhibitionFilter,
+  type ExhibitionMember,
+  type ExhibitionProduct,
+  type ExhibitionSortField,
+  type ListOrderMode,
+  type Order,
+  type OrderLine,
+  type OrderLineInput,
+  type Organization,
+  type Product,
+  type User,
+  type ProductFilter,
+  type ProductList,
+  type ProductListFilter,
+  type ProductListItem,
+  type ProductListSortField,
+  type ProductSortField,
+  type Role,
+  type Settings,
+  type Supplier,
+  type SupplierAddress,
+  type SupplierContact,
+  type SupplierFilter,
+  type SupplierInvitation,
+  type SupplierSortField,
+  type UserFilter,
+  type UserSortField,
+} from '@/services/mockDb';
+import { ListParams, MAX_PAGE_SIZE, Query } from '@/services/query';
+import { MIN_PASSWORD_LENGTH } from '@/services/auth';
+import { ALL_PERMISSIONS, EXHIBITION_ROLES, ROLE_NAME_PATTERN } from '@/services/permissions';
+import { CURRENCY_PATTERN } from '@/services/settings';
+import { ORGANIZATION_SLUG_PATTERN } from '@/services/organizations';
+import type { OrderTransitionInput } from '@/services/orderWorkflow';
+import { Infer, Shape, v } from './validation';
+
+const AVAILABILITY = ['In-stock', 'Out of stock', 'Low stock'] as const;
+const REVIEW_STATUSES = ['pending', 'approved', 'rejected'] as const;
+const EXHIBITION_STATUSES = ['PLANNING', 'ACTIVE', 'COMPLETED'] as const;
+const APPROVAL_MODES = ['manual', 'auto'] as const;
+const username = () => v.string({ min: 3, max: 50, pattern: /^[a-z0-9._-]+$/ });
+const password = () => v.string({ min: MIN_PASSWORD_LENGTH, max: 200 });
+// Roles are stored records, so routes also check that the named role exists
+const roleName = () => v.string({ min: 1, max: 30, pattern: ROLE_NAME_PATTERN });
+
+// ============================================================================
+// LIST QUERIES (query strings of the GET list routes)
+// ============================================================================
+
+const pageParams: Shape<Pick<Query<unknown, string>, 'limit' | 'offset' | 'cursor'>> = {
+  limit: v.optional(v.number({ min: 1, max: MAX_PAGE_SIZE, integer: true, coerce: true })),
+  offset: v.optional(v.number({ min: 0, integer: true, coerce: true })),
+  cursor: v.optional(v.string({ min: 1 })),
+};
+
+// GET /api/users
+export const userListQuerySchema = v.object<ListParams<UserFilter, UserSortField>>({
+  search: v.optional(v.string({ max: 200 })),
+  role: v.optional(v.array(roleName(), { coerce: true })),
+  active: v.optional(v.boolean({ coerce: true })),
+  sort: v.optional(v.sort(USER_SORT_FIELDS)),
+  ...pageParams,
+});
+
+// GET /api/suppliers
+export const supplierListQuerySchema = v.object<ListParams<SupplierFilter, SupplierSortField>>({
+  search: v.optional(v.string({ max: 200 })),
+  sort: v.optional(v.sort(SUPPLIER_SORT_FIELDS)),
+  ...pageParams,
+});
+
+// GET /api/products
+export const productListQuerySchema = v.object<ListParams<ProductFilter, ProductSortField>>({
+  search: v.optional(v.string({ max: 200 })),
+  category: v.optional(v.array(v.string(), { coerce: true })),
+  availability: v.optional(v.array(v.oneOf(AVAILABILITY), { coerce: true })),
+  isApproved: v.optional(v.boolean({ coerce: true })),
+  expiryFrom: v.optional(v.date()),
+  expiryTo: v.optional(v.date()),
+  sort: v.optional(v.sort(PRODUCT_SORT_FIELDS)),
+  ...pageParams,
+});
+
+// GET /api/exhibitions, GET /api/orders
+export const exhibitionListQuerySchema = v.object<ListParams<ExhibitionFilter, ExhibitionSortField>>({
+  search: v.optional(v.string({ max: 200 })),
+  status: v.optional(v.array(v.oneOf(EXHIBITION_STATUSES), { coerce: true })),
+  startFrom: v.optional(v.date()),
+  startTo: v.optional(v.date()),
+  sort: v.optional(v.sort(EXHIBITION_SORT_FIELDS)),
+  ...pageParams,
+});
+
+// GET /api/product-lists
+export const productListListQuerySchema = v.object<ListParams<ProductListFilter, ProductListSortField>>({
+  exhibitionId: v.optional(v.string({ min: 1 })),
+  supplierId: v.optional(v.array(v.string(), { coerce: true })),
+  status: v.optional(v.array(v.oneOf(REVIEW_STATUSES), { coerce: true })),
+  createdFrom: v.optional(v.date()),
+  createdTo: v.optional(v.date()),
+  sort: v.optional(v.sort(PRODUCT_LIST_SORT_FIELDS)),
+  ...pageParams,
+});
+
+// GET /api/audit
+export const auditListQuerySchema = v.object<ListParams<AuditFilter, AuditSortField>>({
+  entityType: v.optional(v.oneOf(AUDIT_ENTITY_TYPES)),
+  entityId: v.optional(v.string({ min: 1 })),
+  userId: v.optional(v.string({ min: 1 })),
+  from: v.optional(v.date()),
+  to: v.optional(v.date()),
+  sort: v.optional(v.sort(AUDIT_SORT_FIELDS)),
+  ...pageParams,
+});
+
+// ============================================================================
+// AUTH
+// ============================================================================
+
+// POST /api/auth/login
+export const loginSchema = v.object<Pick<User, 'username'> & { password: string }>({
+  username: v.string({ min: 1, max: 100 }),
+  password: v.string({ min: 1, max: 200 }),
+});
+
+// ============================================================================
+// USERS
+// ============================================================================
+
+// POST /api/users
+export const userCreateSchema = v.object<
+  Pick<User, 'username' | 'fullName' | 'role'> & Partial<Pick<User, 'supplierId'>> & { password: string }
+>({
+  username: username(),
+  fullName: v.string({ min: 1, max: 200 }),
+  role: roleName(),
+  supplierId: v.optional(v.string({ min: 1 })),
+  password: password(),
+});
+
+// PUT /api/users/[id]
+export const userUpdateSchema = v.object<Partial<Pick<User, 'fullName' | 'role' | 'active' | 'supplierId' | 'version'>>>({
+  fullName: v.optional(v.string({ min: 1, max: 200 })),
+  role: v.optional(roleName()),
+  active: v.optional(v.boolean()),
+  supplierId: v.optional(v.string({ min: 1 })),
+  version: v.optional(v.number({ min: 1, integer: true })),
+});
+
+// POST /api/users/[id]/password
+export const passwordResetSchema = v.object<{ password: string }>({
+  password: password(),
+});
+
+// ============================================================================
+// ROLES
+// ============================================================================
+
+// POST /api/roles
+export const roleCreateSchema = v.object<Pick<Role, 'name' | 'permissions'> & Partial<Pick<Role, 'description'>>>({
+  name: roleName(),
+  description: v.optional(v.string({ max: 500 })),
+  permissions: v.array(v.oneOf(ALL_PERMISSIONS)),
+});
+
+// PUT /api/roles/[id]
+export const roleUpdateSchema = v.object<Partial<Pick<Role, 'description' | 'permissions' | 'version'>>>({
+  description: v.optional(v.string({ max: 500 })),
+  permissions: v.optional(v.array(v.oneOf(ALL_PERMISSIONS))),
+  version: v.optional(v.number({ min: 1, integer: true })),
+});
+
+// ============================================================================
+// API KEYS
+// ============================================================================
+
+// POST /api/api-keys
+export const apiKeyCreateSchema = v.object<Pick<ApiKey, 'name' | 'permissions'> & Partial<Pick<ApiKey, 'expiresAt'>>>({
+  name: v.string({ min: 1, max: 100 }),
+  permissions: v.array(v.oneOf(ALL_PERMISSIONS), { min: 1 }),
+  expiresAt: v.optional(v.date()),
+});
+
+// ============================================================================
+// SETTINGS
+// ============================================================================
+
+type SettingsUpdate = Partial<
+  Pick<Settings, 'companyName' | 'currency' | 'unitsOfMeasure' | 'lowStockThreshold' | 'overallocation' | 'version'>
+> & {
+  approvalPolicy?: Partial<Settings['approvalPolicy']>;
+  notifications?: Partial<Settings['notifications']>;
+};
+
+// PUT /api/settings (approvalPolicy and notifications are merged into the stored groups)
+export const settingsUpdateSchema = v.object<SettingsUpdate>({
+  companyName: v.optional(v.string({ min: 1, max: 200 })),
+  currency: v.optional(v.string({ pattern: CURRENCY_PATTERN })),
+  // No leading or trailing blanks, so "Kg" and "Kg " cannot both exist
+  unitsOfMeasure: v.optional(v.array(v.string({ max: 50, pattern: /^\S(.*\S)?$/ }), { min: 1, max: 50 })),
+  lowStockThreshold: v.optional(v.number({ min: 0, integer: true })),
+  approvalPolicy: v.optional(
+    v.object<Partial<Settings['approvalPolicy']>>({
+      exhibitionProducts: v.optional(v.oneOf(APPROVAL_MODES)),
+      productLists: v.optional(v.oneOf(APPROVAL_MODES)),
+    })
+  ),
+  overallocation: v.optional(v.oneOf(OVERALLOCATION_MODES)),
+  notifications: v.optional(
+    v.object<Partial<Settings['notifications']>>({
+      recipients: v.optional(v.array(v.string({ max: 200, pattern: /^[^\s@]+@[^\s@]+$/ }), { max: 20 })),
+      lowStock: v.optional(v.boolean()),
+      productListSubmitted: v.optional(v.boolean()),
+      invitationAccepted: v.optional(v.boolean()),
+    })
+  ),
+  version: v.optional(v.number({ min: 1, integer: true })),
+});
+
+// ============================================================================
+// ORGANIZATIONS
+// ============================================================================
+
+// POST /api/organizations (admin is the organization's first user, an ADMIN)
+export const organizationCreateSchema = v.object<
+  Pick<Organization, 'name' | 'slug'> & { admin: Pick<User, 'username' | 'fullName'> & { password: string } }
+>({
+  name: v.string({ min: 1, max: 200 }),
+  slug: v.string({ min: 2, max: 50, pattern: ORGANIZATION_SLUG_PATTERN }),
+  admin: v.object({
+    username: username(),
+    fullName: v.string({ min: 1, max: 200 }),
+    password: password(),
+  }),
+});
+
+// ============================================================================
+// SUPPLIERS
+// ============================================================================
+
+const supplierContactSchema = v.object<SupplierContact>({
+  name: v.string({ min: 1, max: 200 }),
+  email: v.optional(v.string({ max: 200, pattern: /^[^\s@]+@[^\s@]+$/ })),
+  phone: v.optional(v.string({ max: 50 })),
+  position: v.optional(v.string({ max: 100 })),
+});
+
+const supplierAddressSchema = v.object<SupplierAddress>({
+  label: v.optional(v.string({ max: 100 })),
+  street: v.string({ min: 1, max: 200 }),
+  city: v.string({ min: 1, max: 100 }),
+  postalCode: v.optional(v.string({ max: 20 })),
+  country: v.string({ min: 1, max: 100 }),
+});
+
+// POST /api/suppliers
+export const supplierCreateSchema = v.object<
+  Pick<Supplier, 'companyName'> & Partial<Pick<Supplier, 'taxId' | 'contacts' | 'addresses'>>
+>({
+  companyName: v.string({ min: 1, max: 200 }),
+  taxId: v.optional(v.string({ min: 1, max: 50 })),
+  contacts: v.optional(v.array(supplierContactSchema)),
+  addresses: v.optional(v.array(supplierAddressSchema)),
+});
+
+// PUT /api/suppliers/[id]
+export const supplierUpdateSchema = v.object<
+  Partial<Pick<Supplier, 'companyName' | 'taxId' | 'contacts' | 'addresses' | 'version'>>
+>({
+  companyName: v.optional(v.string({ min: 1, max: 200 })),
+  taxId: v.optional(v.string({ min: 1, max: 50 })),
+  contacts: v.optional(v.array(supplierContactSchema)),
+  addresses: v.optional(v.array(supplierAddressSchema)),
+  version: v.optional(v.number({ min: 1, integer: true })),
+});
+
+// ============================================================================
+// PRODUCTS
+// ============================================================================
+
+type ProductFields = Pick<
+  Product,
+  'name' | 'category' | 'buyingPrice' | 'quantity' | 'unit' | 'thresholdValue' | 'expiryDate' | 'availability' | 'sku'
+>;
+
+// POST /api/products (multipart form, so numbers arrive as strings; thresholdValue defaults from the settings)
+export const productCreateSchema = v.object<Omit<ProductFields, 'thresholdValue'> & Partial<Pick<ProductFields, 'thresholdValue'>>>({
+  name: v.string({ min: 1, max: 200 }),
+  category: v.string({ max: 100 }),
+  buyingPrice: v.number({ min: 0, coerce: true }),
+  quantity: v.number({ min: 0, integer: true, coerce: true }),
+  unit: v.string({ max: 50 }),
+  thresholdValue: v.optional(v.number({ min: 0, integer: true, coerce: true })),
+  expiryDate: v.string(),
+  availability: v.oneOf(AVAILABILITY),
+  sku: v.optional(v.string({ max: 64 })),
+});
+
+// PUT /api/products/[id]
+export const productUpdateSchema = v.object<Partial<ProductFields & Pick<Product, 'image' | 'description' | 'version'>>>({
+  name: v.optional(v.string({ min: 1, max: 200 })),
+  category: v.optional(v.string({ max: 100 })),
+  buyingPrice: v.optional(v.number({ min: 0 })),
+  quantity: v.optional(v.number({ min: 0, integer: true })),
+  unit: v.optional(v.string({ max: 50 })),
+  thresholdValue: v.optional(v.number({ min: 0, integer: true })),
+  expiryDate: v.optional(v.string()),
+  availability: v.optional(v.oneOf(AVAILABILITY)),
+  sku: v.optional(v.string({ max: 64 })),
+  image: v.optional(v.string()),
+  description: v.optional(v.string({ max: 2000 })),
+  version: v.optional(v.number({ min: 1, integer: true })),
+});
+
+// ============================================================================
+// EXHIBITIONS
+// ============================================================================
+
+const exhibitionProductInputSchema = v.object<Pick<ExhibitionProduct, 'productId' | 'quantity' | 'price'>>({
+  productId: v.string({ min: 1 }),
+  quantity: v.number({ min: 1, integer: true }),
+  price: v.optional(v.number({ min: 0 })),
+});
+
+// POST /api/exhibitions
+export const exhibitionCreateSchema = v.object<
+  Pick<Exhibition, 'name' | 'description' | 'startDate' | 'endDate'> & {
+    products?: Infer<typeof exhibitionProductInputSchema>[];
+  }
+>({
+  name: v.string({ min: 1, max: 200 }),
+  description: v.optional(v.string({ max: 2000 })),
+  startDate: v.optional(v.string()),
+  endDate: v.optional(v.string()),
+  products: v.optional(v.array(exhibitionProductInputSchema)),
+});
+
+// POST /api/exhibitions/[id]/products
+export const exhibitionProductsAddSchema = v.object<{
+  products: Infer<typeof exhibitionProductInputSchema>[];
+}>({
+  products: v.array(exhibitionProductInputSchema, { min: 1 }),
+});
+
+// POST /api/exhibitions/approve
+export const exhibitionProductReviewSchema = v.object<
+  Pick<ExhibitionProduct, 'id'> & { status: Exclude<ExhibitionProduct['status'], 'pending'> }
+>({
+  id: v.string({ min: 1 }),
+  status: v.oneOf(['approved', 'rejected'] as const),
+});
+
+// POST /api/exhibitions/[id]/members
+export const exhibitionMemberCreateSchema = v.object<Pick<ExhibitionMember, 'userId' | 'role'>>({
+  userId: v.string({ min: 1 }),
+  role: v.oneOf(EXHIBITION_ROLES),
+});
+
+// PUT /api/exhibitions/[id]/members/[userId]
+export const exhibitionMemberUpdateSchema = v.object<Pick<ExhibitionMember, 'role'>>({
+  role: v.oneOf(EXHIBITION_ROLES),
+});
+
+// POST /api/exhibitions/[id]/invitations (a plain date deadline lasts until the end of that day)
+export const invitationCreateSchema = v.object<
+  Pick<SupplierInvitation, 'supplierId' | 'deadline'> & Partial<Pick<SupplierInvitation, 'email' | 'expiresAt'>>
+>({
+  supplierId: v.string({ min: 1 }),
+  email: v.optional(v.string({ max: 200, pattern: /^[^\s@]+@[^\s@]+$/ })),
+  deadline: v.date(),
+  expiresAt: v.optional(v.date()),
+});
+
+// POST /api/invitations/[token]/accept (account is omitted when signed in as a user of the supplier)
+export const invitationAcceptSchema = v.object<{
+  account?: Pick<User, 'username' | 'fullName'> & { password: string };
+}>({
+  account: v.optional(
+    v.object({
+      username: username(),
+      fullName: v.string({ min: 1, max: 200 }),
+      password: password(),
+    })
+  ),
+});
+
+// ============================================================================
+// ORDERS
+// ============================================================================
+
+// POST /api/orders; the exhibition name and the totals follow from the exhibition and the lines
+export const orderCreateSchema = v.object<
+  Pick<Order, 'exhibitionId' | 'expectedDelivery'> & {
+    items?: Pick<OrderLine, 'productId' | 'quantity' | 'price'>[];
+  }
+>({
+  exhibitionId: v.optional(v.string({ min: 1 })),
+  expectedDelivery: v.optional(v.string()),
+  items: v.optional(
+    v.array(
+      v.object<Pick<OrderLine, 'productId' | 'quantity' | 'price'>>({
+        productId: v.string({ min: 1 }),
+        quantity: v.number({ min: 1, integer: true }),
+        price: v.optional(v.number({ min: 0 })),
+      })
+    )
+  ),
+});
+
+// POST /api/orders/[id]/<transition> (see @/services/orderWorkflow)
+export const orderTransitionSchema = v.object<OrderTransitionInput & Partial<Pick<Order, 'version'>>>({
+  reason: v.optional(v.string({ min: 1, max: 500 })),
+  expectedDelivery: v.optional(v.date()),
+  lines: v.optional(
+    v.array(
+      v.object<NonNullable<OrderTransitionInput['lines']>[number]>({
+        id: v.string({ min: 1 }),
+        quantity: v.number({ min: 0, integer: true }),
+      })
+    )
+  ),
+  version: v.optional(v.number({ min: 1, integer: true })),
+});
+
+// PUT /api/orders/[id]; items replace the lines and are only accepted while the order is a draft
+export const orderUpdateSchema = v.object<
+  Partial<Pick<Order, 'expectedDelivery' | 'notes' | 'version'>> & { items?: OrderLineInput[] }
+>({
+  expectedDelivery: v.optional(v.date()),
+  notes: v.optional(v.string({ max: 2000 })),
+  items: v.optional(
+    v.array(
+      v.object<OrderLineInput>({
+        id: v.optional(v.string({ min: 1 })),
+        productId: v.string({ min: 1 }),
+        quantity: v.number({ min: 1, integer: true }),
+        price: v.optional(v.number({ min: 0 })),
+      })
+    )
+  ),
+  version: v.optional(v.number({ min: 1, integer: true })),
+});
+
+// ============================================================================
+// PRODUCT LISTS
+// ============================================================================
+
+const productListItemInputSchema = v.object<
+  Pick<ProductListItem, 'productId' | 'quantity'> & Partial<Pick<ProductListItem, 'price'>>
+>({
+  productId: v.string({ min: 1 }),
+  quantity: v.number({ min: 1, integer: true }),
+  price: v.optional(v.number({ min: 0 })),
+});
+
+// POST /api/product-lists
+// supplierId may be left out by supplier users, whose lists always belong to their own supplier
+export const productListCreateSchema = v.object<
+  Pick<ProductList, 'exhibitionId'> &
+    Partial<Pick<ProductList, 'supplierId'>> & { items: Infer<typeof productListItemInputSchema>[] }
+>({
+  exhibitionId: v.string({ min: 1 }),
+  supplierId: v.optional(v.string({ min: 1 })),
+  items: v.array(productListItemInputSchema, { min: 1 }),
+});
+
+// PUT /api/product-lists/[id]
+export const productListUpdateSchema = v.object<
+  Partial<Pick<ProductList, 'status' | 'version'>> & {
+    items?: Infer<typeof productListItemInputSchema>[];
+    // Where the lines go when the list is approved (default 'new')
+    orderMode?: ListOrderMode;
+  }
+>({
+  status: v.optional(v.oneOf(REVIEW_STATUSES)),
+  items: v.optional(v.array(productListItemInputSchema)),
+  orderMode: v.optional(v.oneOf(LIST_ORDER_MODES)),
+  version: v.optional(v.number({ min: 1, integer: true })),
+});
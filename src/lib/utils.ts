@@ -4,3 +4,11 @@ import { twMerge } from "tailwind-merge";
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
+
+/**
+ * Amount in the company currency (Settings.currency); a plain number while the
+ * settings are still loading
+ */
+export function formatMoney(amount: number, currency?: string) {
+  return currency ? amount.toLocaleString(undefined, { style: "currency", currency }) : amount.toLocaleString();
+}
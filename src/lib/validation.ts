@@ -0,0 +1,288 @@
+/**
+ * Request validation for API routes
+ * Schemas are small composable checkers (see ./schemas for the request types).
+ * Routes validate their input through parseBody() / validate() and get either
+ * typed data or a ValidationError, which apiHandler answers with a 422.
+ */
+
+import type { SortField } from '@/services/query';
+import { ValidationError } from './errors';
+
+export interface FieldError {
+  // Location of the offending value, e.g. "items[0].quantity" ("" for the body itself)
+  path: string;
+  message: string;
+}
+
+export interface Schema<T> {
+  // Missing keys are allowed when the schema is optional
+  readonly optional: boolean;
+  check(value: unknown, path: string, errors: FieldError[]): T;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+function schema<T>(check: Schema<T>['check']): Schema<T> {
+  return { optional: false, check };
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function joinPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+// ============================================================================
+// SCHEMA BUILDERS
+// ============================================================================
+
+interface StringOptions {
+  // Minimum length after trimming
+  min?: number;
+  max?: number;
+  pattern?: RegExp;
+}
+
+function string(options: StringOptions = {}): Schema<string> {
+  return schema((value, path, errors) => {
+    if (typeof value !== 'string') {
+      errors.push({ path, message: `Expected a string, received ${describe(value)}` });
+      return value as string;
+    }
+    const length = value.trim().length;
+    if (options.min !== undefined && length < options.min) {
+      errors.push({ path, message: options.min === 1 ? 'Must not be empty' : `Must be at least ${options.min} characters` });
+    }
+    if (options.max !== undefined && value.length > options.max) {
+      errors.push({ path, message: `Must be at most ${options.max} characters` });
+    }
+    if (options.pattern && !options.pattern.test(value)) {
+      errors.push({ path, message: 'Has an invalid format' });
+    }
+    return value;
+  });
+}
+
+interface NumberOptions {
+  min?: number;
+  max?: number;
+  integer?: boolean;
+  // Accept numeric strings (form fields, query parameters)
+  coerce?: boolean;
+}
+
+function number(options: NumberOptions = {}): Schema<number> {
+  return schema((value, path, errors) => {
+    let input = value;
+    if (options.coerce && typeof input === 'string' && input.trim() !== '') {
+      input = Number(input);
+    }
+    if (typeof input !== 'number' || !Number.isFinite(input)) {
+      errors.push({ path, message: `Expected a number, received ${describe(value)}` });
+      return input as number;
+    }
+    if (options.integer && !Number.isInteger(input)) {
+      errors.push({ path, message: 'Must be a whole number' });
+    }
+    if (options.min !== undefined && input < options.min) {
+      errors.push({ path, message: `Must be at least ${options.min}` });
+    }
+    if (options.max !== undefined && input > options.max) {
+      errors.push({ path, message: `Must be at most ${options.max}` });
+    }
+    return input;
+  });
+}
+
+interface BooleanOptions {
+  // Accept "true" / "false" (query parameters)
+  coerce?: boolean;
+}
+
+function boolean(options: BooleanOptions = {}): Schema<boolean> {
+  return schema((value, path, errors) => {
+    if (options.coerce && (value === 'true' || value === 'false')) {
+      return value === 'true';
+    }
+    if (typeof value !== 'boolean') {
+      errors.push({ path, message: `Expected a boolean, received ${describe(value)}` });
+    }
+    return value as boolean;
+  });
+}
+
+/**
+ * ISO date or date-time string (kept as the original string)
+ */
+function date(): Schema<string> {
+  return schema((value, path, errors) => {
+    if (typeof value !== 'string' || isNaN(Date.parse(value))) {
+      errors.push({ path, message: 'Must be a date (e.g. 2026-01-31)' });
+    }
+    return value as string;
+  });
+}
+
+function oneOf<const T extends readonly string[]>(values: T): Schema<T[number]> {
+  return schema((value, path, errors) => {
+    if (typeof value !== 'string' || !values.includes(value)) {
+      errors.push({ path, message: `Must be one of: ${values.join(', ')}` });
+    }
+    return value as T[number];
+  });
+}
+
+interface ArrayOptions {
+  min?: number;
+  max?: number;
+  // Accept a comma-separated string (query parameters)
+  coerce?: boolean;
+}
+
+function array<T>(item: Schema<T>, options: ArrayOptions = {}): Schema<T[]> {
+  return schema((input, path, errors) => {
+    const value = options.coerce && typeof input === 'string' ? input.split(',').filter(Boolean) : input;
+    if (!Array.isArray(value)) {
+      errors.push({ path, message: `Expected an array, received ${describe(value)}` });
+      return value as T[];
+    }
+    if (options.min !== undefined && value.length < options.min) {
+      errors.push({ path, message: `Must contain at least ${options.min} item(s)` });
+    }
+    if (options.max !== undefined && value.length > options.max) {
+      errors.push({ path, message: `Must contain at most ${options.max} item(s)` });
+    }
+    return value.map((entry, index) => item.check(entry, joinPath(path, index), errors));
+  });
+}
+
+// One schema per key of T; optional keys of T must use optional() schemas
+export type Shape<T> = { [K in keyof T]-?: Schema<T[K]> };
+
+/**
+ * Object with a fixed set of keys. Pass T explicitly (usually derived from an
+ * entity interface) so the shape is checked against it.
+ * Unknown keys are rejected so clients cannot slip server-owned fields
+ * (id, status, isApproved, ...) into a write. Only keys present in the input
+ * appear in the result.
+ */
+function object<T>(shape: Shape<T>): Schema<T> {
+  return schema((value, path, errors) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      errors.push({ path, message: `Expected an object, received ${describe(value)}` });
+      return value as T;
+    }
+
+    const input = value as Record<string, unknown>;
+    const result: Record<string, unknown> = {};
+
+    for (const key of Object.keys(input)) {
+      if (!(key in shape)) {
+        errors.push({ path: joinPath(path, key), message: 'Unknown field' });
+      }
+    }
+
+    for (const key of Object.keys(shape) as (keyof T & string)[]) {
+      const fieldSchema = shape[key] as Schema<unknown>;
+      const fieldPath = joinPath(path, key);
+      if (input[key] === undefined) {
+        if (!fieldSchema.optional) {
+          errors.push({ path: fieldPath, message: 'Required' });
+        }
+        continue;
+      }
+      result[key] = fieldSchema.check(input[key], fieldPath, errors);
+    }
+
+    return result as T;
+  });
+}
+
+/**
+ * Sort order such as "-createdAt,name" (a leading "-" sorts descending)
+ */
+function sort<const F extends readonly string[]>(fields: F): Schema<SortField<F[number]>[]> {
+  return schema((value, path, errors) => {
+    if (typeof value !== 'string') {
+      errors.push({ path, message: `Expected a string, received ${describe(value)}` });
+      return [];
+    }
+    const order: SortField<F[number]>[] = [];
+    for (const part of value.split(',').filter(Boolean)) {
+      const field = part.replace(/^[-+]/, '');
+      if (!fields.includes(field)) {
+        errors.push({ path, message: `Cannot sort by "${field}"; use one of: ${fields.join(', ')}` });
+        continue;
+      }
+      order.push({ field, direction: part.startsWith('-') ? 'desc' : 'asc' });
+    }
+    return order;
+  });
+}
+
+function optional<T>(inner: Schema<T>): Schema<T | undefined> {
+  return {
+    optional: true,
+    check: (value, path, errors) => (value === undefined ? undefined : inner.check(value, path, errors)),
+  };
+}
+
+export const v = { string, number, boolean, date, oneOf, array, object, sort, optional };
+
+// ============================================================================
+// ROUTE HELPERS
+// ============================================================================
+
+/**
+ * Validate an already parsed value; throws a ValidationError (422) listing every field error
+ */
+export function validate<T>(schema: Schema<T>, value: unknown): T {
+  const errors: FieldError[] = [];
+  const data = schema.check(value, '', errors);
+  if (errors.length > 0) {
+    throw new ValidationError(errors);
+  }
+  return data;
+}
+
+/**
+ * Read the JSON body of a request and validate it
+ */
+export async function parseBody<T>(request: Request, schema: Schema<T>): Promise<T> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    throw new ValidationError([{ path: '', message: 'Body must be valid JSON' }]);
+  }
+  return validate(schema, body);
+}
+
+/**
+ * Query parameters as a plain object; repeated keys are joined with commas
+ */
+export function queryFields(searchParams: URLSearchParams): Record<string, string> {
+  const fields: Record<string, string> = {};
+  searchParams.forEach((value, key) => {
+    fields[key] = key in fields ? `${fields[key]},${value}` : value;
+  });
+  return fields;
+}
+
+/**
+ * Text fields of a multipart/url-encoded form as a plain object (files are skipped)
+ */
+export function formFields(formData: FormData): Record<string, string> {
+  const fields: Record<string, string> = {};
+  formData.forEach((value, key) => {
+    if (typeof value === 'string') {
+      fields[key] = value;
+    }
+  });
+  return fields;
+}
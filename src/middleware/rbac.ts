@@ -1,10 +1,39 @@
 /**
  * RBAC (Role-Based Access Control) Middleware
- * Provides authorization checks for API routes based on user roles
+ * Provides authorization checks for API routes based on named permissions.
+ * A user holds the permissions of their role, as currently stored in MockDB
+ * (see @/services/permissions), so changes to the matrix apply immediately.
+ * Exhibition data is further limited to the exhibitions whose team the user
+ * belongs to (see EXHIBITION SCOPE below), and supplier users to the records
+ * of their own supplier and the exhibitions it was invited to (see SUPPLIER
+ * SCOPE). Integrations authenticate with an API key instead of a session and
+ * act as a service principal (see API KEYS). Authenticating a caller also
+ * selects their organization, so MockDB serves that tenant's data only (see
+ * @/services/organizations).
  */
 
 import { NextResponse } from 'next/server';
-import { mockDb, UserRole } from '@/services/mockDb';
+import { Located, mockDb, User, UserRole } from '@/services/mockDb';
+import {
+  hashSecretToken,
+  isDemoMode,
+  isSessionCurrent,
+  readBearerToken,
+  readCookie,
+  SESSION_COOKIE,
+  verifySessionToken,
+} from '@/services/auth';
+import {
+  ADMIN_ROLE,
+  ALL_PERMISSIONS,
+  EXHIBITION_ROLE_ACCESS,
+  ExhibitionAccess,
+  isPermission,
+  Permission,
+  PERMISSIONS,
+} from '@/services/permissions';
+import { getRequestId, setRequestActor, setRequestOrganization } from '@/services/requestContext';
+import { ApiError, BusinessRuleError, ForbiddenError, problemResponse, UnauthorizedError } from '@/lib/errors';
 
 export interface AuthContext {
   user: {
@@ -12,24 +41,78 @@ export interface AuthContext {
     username: string;
     role: UserRole;
     fullName: string;
+    // Set for supplier users (see SUPPLIER SCOPE)
+    supplierId?: string;
   };
+  // Resolved from the user's role (or the API key) when the request was authenticated
+  permissions: Permission[];
+  // Set when an integration authenticated with an API key; user then describes the key
+  apiKeyId?: string;
+  // Organization of the user (or key); the request only reaches its data
+  organizationId: string;
 }
 
+export { PERMISSIONS } from '@/services/permissions';
+export type { Permission } from '@/services/permissions';
+
 /**
- * Simulates user authentication
- * In a real app, this would decode JWT tokens or validate sessions
- * For demo purposes, we'll use a header or default user
+ * The user a request acts as, or null when it is not authenticated.
+ * Normally this is the user of a valid session cookie (see @/services/auth).
+ * A bearer token is taken as an API key and resolves to its service principal.
+ * In demo mode (DEMO_MODE=true) an x-user-id header selects the user instead,
+ * which lets scripts and API examples switch roles without signing in.
+ * Deactivated users are never authenticated.
  */
 export function authenticateUser(request: Request): AuthContext | null {
-  // Check for a user ID in headers (for demo purposes)
-  const userId = request.headers.get('x-user-id') || 'u3'; // Default to staff user
-  
-  const user = mockDb.getUserById(userId);
-  if (!user) {
+  const demoUserId = isDemoMode() ? request.headers.get('x-user-id') : null;
+  if (demoUserId) {
+    const located = mockDb.locateUser(demoUserId);
+    return located?.record.active ? toAuthContext(located) : null;
+  }
+
+  // A request that sends a key is judged by the key alone, never by a cookie
+  const apiKey = readBearerToken(request);
+  if (apiKey !== undefined) {
+    return authenticateApiKey(apiKey);
+  }
+
+  const session = verifySessionToken(readCookie(request, SESSION_COOKIE));
+  const located = session ? mockDb.locateUser(session.sub) : undefined;
+  if (!session || !located || !isSessionCurrent(session, located.record)) {
     return null;
   }
 
-  return { user };
+  return toAuthContext(located);
+}
+
+function toAuthContext({ organizationId, record: user }: Located<User>): AuthContext {
+  // Roles, and everything else the request reads, come from the user's organization
+  setRequestOrganization(organizationId);
+  return { user: toAuthUser(user), permissions: getRolePermissions(user.role), organizationId };
+}
+
+/**
+ * A user as exposed to the rest of the request (no credentials)
+ */
+export function toAuthUser(user: User): AuthContext['user'] {
+  return { id: user.id, username: user.username, role: user.role, fullName: user.fullName, supplierId: user.supplierId };
+}
+
+/**
+ * Id of the user behind the request; undefined for API keys, which are no users
+ * and so cannot lead exhibitions or be referenced as a record's author
+ */
+export function getActingUserId(context: AuthContext): string | undefined {
+  return context.apiKeyId ? undefined : context.user.id;
+}
+
+/**
+ * Permissions currently granted to a role (none for an unknown role).
+ * ADMIN always holds every permission.
+ */
+export function getRolePermissions(role: UserRole): Permission[] {
+  if (role === ADMIN_ROLE) return [...ALL_PERMISSIONS];
+  return [...(mockDb.getRoleByName(role)?.permissions ?? [])];
 }
 
 /**
@@ -41,78 +124,177 @@ export function hasRole(context: AuthContext | null, allowedRoles: UserRole[]):
 }
 
 /**
- * Middleware to require authentication
+ * Check if user holds a permission
  */
-export function requireAuth(request: Request): { authorized: true; context: AuthContext } | { authorized: false; response: NextResponse } {
-  const context = authenticateUser(request);
-  
+export function checkPermission(context: AuthContext | null, permission: Permission): boolean {
+  if (!context) return false;
+  return context.permissions.includes(permission);
+}
+
+/**
+ * Authenticate the caller and check that they hold the permission.
+ * Throws UnauthorizedError / ForbiddenError; apiHandler turns them into problem responses.
+ */
+export function authorize(request: Request, permission?: Permission): AuthContext {
+  return authorizeCaller(authenticateUser(request), permission);
+}
+
+/**
+ * The checks of authorize() for a caller that is already authenticated
+ * (apiHandler authenticates first so it can rate-limit by caller)
+ */
+export function authorizeCaller(context: AuthContext | null, permission?: Permission): AuthContext {
   if (!context) {
-    return {
-      authorized: false,
-      response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }),
-    };
+    throw new UnauthorizedError();
+  }
+
+  // Attribute MockDB mutations made during this request to the caller
+  setRequestActor({ id: context.user.id, username: context.user.username });
+
+  if (permission && !checkPermission(context, permission)) {
+    throw new ForbiddenError(`Missing permission "${permission}"`);
+  }
+
+  return context;
+}
+
+type AuthResult = { authorized: true; context: AuthContext } | { authorized: false; response: NextResponse };
+
+function toAuthResult(check: () => AuthContext): AuthResult {
+  try {
+    return { authorized: true, context: check() };
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return { authorized: false, response: problemResponse(error, getRequestId() ?? undefined) };
+    }
+    throw error;
   }
+}
 
-  return { authorized: true, context };
+/**
+ * Middleware to require authentication
+ */
+export function requireAuth(request: Request): AuthResult {
+  return toAuthResult(() => authorize(request));
 }
 
 /**
- * Middleware to require specific roles
+ * Middleware to require a permission
  */
-export function requireRoles(
-  request: Request,
-  allowedRoles: UserRole[]
-): { authorized: true; context: AuthContext } | { authorized: false; response: NextResponse } {
-  const authResult = requireAuth(request);
-  
-  if (!authResult.authorized) {
-    return authResult;
-  }
+export function requirePermission(request: Request, permission: Permission): AuthResult {
+  return toAuthResult(() => authorize(request, permission));
+}
+
+// ============================================================================
+// EXHIBITION SCOPE
+// ============================================================================
 
-  if (!hasRole(authResult.context, allowedRoles)) {
-    return {
-      authorized: false,
-      response: NextResponse.json(
-        { error: 'Forbidden - Insufficient permissions' },
-        { status: 403 }
-      ),
-    };
+/**
+ * Whether the caller may perform an operation on one exhibition: decided by
+ * their role on its team, unless they hold exhibition:all
+ */
+export function canAccessExhibition(context: AuthContext, exhibitionId: string, access: ExhibitionAccess): boolean {
+  if (checkPermission(context, PERMISSIONS.EXHIBITION_ALL)) return true;
+  const member = mockDb.getExhibitionMember(exhibitionId, context.user.id);
+  return member !== undefined && EXHIBITION_ROLE_ACCESS[member.role].includes(access);
+}
+
+/**
+ * Throw ForbiddenError unless the caller may perform the operation on the exhibition
+ */
+export function authorizeExhibition(context: AuthContext, exhibitionId: string, access: ExhibitionAccess): void {
+  if (!canAccessExhibition(context, exhibitionId, access)) {
+    const code = mockDb.getExhibitionById(exhibitionId)?.exhibitionId ?? exhibitionId;
+    const reason = mockDb.getExhibitionMember(exhibitionId, context.user.id)
+      ? `Your role on exhibition ${code} does not allow this (${access})`
+      : `Not a member of exhibition ${code}`;
+    throw new ForbiddenError(reason);
   }
+}
 
-  return authResult;
+/**
+ * Ids of the exhibitions the caller may see, for filtering list queries;
+ * undefined when they may see all of them
+ */
+export function getExhibitionScope(context: AuthContext): ReadonlySet<string> | undefined {
+  if (checkPermission(context, PERMISSIONS.EXHIBITION_ALL)) return undefined;
+  return new Set(mockDb.getMembershipsByUserId(context.user.id).map((m) => m.exhibitionId));
 }
 
+// ============================================================================
+// SUPPLIER SCOPE
+// ============================================================================
+
 /**
- * Permission constants for different operations
+ * The supplier a supplier user acts for; undefined for staff, who are not
+ * limited to one supplier
  */
-export const PERMISSIONS = {
-  // Product operations
-  PRODUCT_CREATE: ['ADMIN', 'MANAGER', 'USER'] as UserRole[],
-  PRODUCT_READ: ['ADMIN', 'MANAGER', 'USER', 'VIEWER'] as UserRole[],
-  PRODUCT_UPDATE: ['ADMIN', 'MANAGER'] as UserRole[],
-  PRODUCT_DELETE: ['ADMIN'] as UserRole[],
+export function getSupplierScope(context: AuthContext): string | undefined {
+  return context.user.supplierId;
+}
 
-  // Exhibition operations
-  EXHIBITION_CREATE: ['ADMIN', 'MANAGER'] as UserRole[],
-  EXHIBITION_READ: ['ADMIN', 'MANAGER', 'USER', 'VIEWER'] as UserRole[],
-  EXHIBITION_UPDATE: ['ADMIN', 'MANAGER'] as UserRole[],
+/**
+ * Throw ForbiddenError when a supplier user reaches for another supplier's record
+ */
+export function authorizeSupplier(context: AuthContext, supplierId: string | undefined): void {
+  const own = getSupplierScope(context);
+  if (own && own !== supplierId) {
+    throw new ForbiddenError('This record belongs to another supplier');
+  }
+}
 
-  // Approval operations
-  APPROVAL_APPROVE: ['ADMIN', 'MANAGER'] as UserRole[],
-  APPROVAL_READ: ['ADMIN', 'MANAGER', 'USER', 'VIEWER'] as UserRole[],
+/**
+ * Supplier users may submit product lists for an exhibition only once their
+ * supplier accepted an invitation to it, and only until its deadline.
+ * Staff are not bound by invitations.
+ */
+export function authorizeSubmission(context: AuthContext, exhibitionId: string, now: Date = new Date()): void {
+  const supplierId = getSupplierScope(context);
+  if (!supplierId) return;
 
-  // Order operations
-  ORDER_CREATE: ['ADMIN', 'MANAGER', 'USER'] as UserRole[],
-  ORDER_READ: ['ADMIN', 'MANAGER', 'USER', 'VIEWER'] as UserRole[],
-  ORDER_UPDATE: ['ADMIN', 'MANAGER'] as UserRole[],
-} as const;
+  const code = mockDb.getExhibitionById(exhibitionId)?.exhibitionId ?? exhibitionId;
+  const invitation = mockDb.getSupplierInvitation(exhibitionId, supplierId);
+  if (!invitation?.acceptedAt) {
+    throw new ForbiddenError(`Your supplier has not accepted an invitation to exhibition ${code}`);
+  }
+  if (Date.parse(invitation.deadline) < now.getTime()) {
+    throw new BusinessRuleError(`The submission deadline for exhibition ${code} has passed`, {
+      exhibitionId,
+      deadline: invitation.deadline,
+    });
+  }
+}
+
+// ============================================================================
+// API KEYS
+// ============================================================================
+
+// Shown as the role of a service principal; not a stored role, the key holds the permissions
+const API_KEY_ROLE = 'API_KEY';
 
 /**
- * Helper to check specific permissions
+ * The service principal of an API key: it acts under the key's id, prefix and
+ * name and holds exactly the permissions granted to the key. Like any caller
+ * it only reaches the exhibitions it may see, so integrations that work across
+ * exhibitions need exhibition:all. Unknown, revoked and expired keys are not
+ * authenticated.
  */
-export function checkPermission(
-  context: AuthContext | null,
-  permission: UserRole[]
-): boolean {
-  return hasRole(context, permission);
+function authenticateApiKey(key: string, now: Date = new Date()): AuthContext | null {
+  const located = mockDb.locateApiKeyByTokenHash(hashSecretToken(key));
+  if (!located) return null;
+  const apiKey = located.record;
+  if (apiKey.revokedAt || (apiKey.expiresAt && Date.parse(apiKey.expiresAt) <= now.getTime())) {
+    return null;
+  }
+
+  // A key belongs to the organization it was created in
+  setRequestOrganization(located.organizationId);
+  mockDb.recordApiKeyUse(apiKey.id, now);
+  return {
+    user: { id: apiKey.id, username: apiKey.prefix, role: API_KEY_ROLE, fullName: apiKey.name },
+    // Permissions dropped from the catalog since the key was created no longer count
+    permissions: apiKey.permissions.filter(isPermission),
+    apiKeyId: apiKey.id,
+    organizationId: located.organizationId,
+  };
 }
@@ -0,0 +1,33 @@
+/**
+ * Page access
+ * Sends visitors without a current session to /login. This only decides
+ * where the browser goes; API routes still verify the session signature
+ * themselves (see authenticateUser).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { peekSessionToken, SESSION_COOKIE } from '@/services/auth';
+
+const LOGIN_PATH = '/login';
+// Invitation links are opened by suppliers who have no account yet
+const PUBLIC_PREFIXES = ['/invite/'];
+
+export function proxy(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  const hasSession = peekSessionToken(request.cookies.get(SESSION_COOKIE)?.value) !== null;
+
+  const isPublic = pathname === LOGIN_PATH || PUBLIC_PREFIXES.some((prefix) => pathname.startsWith(prefix));
+
+  if (!hasSession && !isPublic) {
+    const loginUrl = new URL(LOGIN_PATH, request.url);
+    loginUrl.searchParams.set('next', `${pathname}${search}`);
+    return NextResponse.redirect(loginUrl);
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  // Pages only: API routes answer 401 themselves, assets stay public
+  matcher: ['/((?!api|_next/static|_next/image|favicon.ico|uploads|.*\\.(?:png|jpg|jpeg|svg|gif|webp)$).*)'],
+};
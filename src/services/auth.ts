@@ -0,0 +1,210 @@
+/**
+ * Credentials & Sessions
+ * Passwords are stored as scrypt hashes ("scrypt$<salt>$<hash>", hex encoded).
+ * A signed-in browser holds a session cookie: a base64url JSON payload
+ * ({ sub, iat, exp }) followed by its HMAC-SHA256 signature. The token is
+ * self-contained, so verifying it needs no lookup; MockDB is only consulted
+ * afterwards to load the user. Secret tokens handed out in links (supplier
+ * invitations) and API keys for integrations are random and stored as
+ * SHA-256 hashes; integrations send their key as "Authorization: Bearer <key>".
+ *
+ * Configuration (environment):
+ *   - AUTH_SECRET: signing key for session tokens. Without it a random key is
+ *     generated per process, so sessions end when the server restarts.
+ *   - SESSION_TTL_HOURS: session lifetime (default 8)
+ *   - DEMO_MODE=true: also accept the x-user-id header (see authenticateUser)
+ */
+
+import { createHash, createHmac, randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+import type { ApiKey, User } from './mockDb';
+
+export const SESSION_COOKIE = 'session';
+
+const DEFAULT_SESSION_TTL_HOURS = 8;
+const KEY_LENGTH = 64;
+
+export interface SessionPayload {
+  // User id
+  sub: string;
+  // Issued at / expires at (seconds since epoch)
+  iat: number;
+  exp: number;
+}
+
+// ============================================================================
+// PASSWORDS
+// ============================================================================
+
+export function hashPassword(password: string): string {
+  const salt = randomBytes(16).toString('hex');
+  const hash = scryptSync(password, salt, KEY_LENGTH).toString('hex');
+  return `scrypt$${salt}$${hash}`;
+}
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+export function verifyPassword(password: string, stored: string | undefined): boolean {
+  const [scheme, salt, hash] = stored?.split('$') ?? [];
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  const expected = Buffer.from(hash, 'hex');
+  const actual = scryptSync(password, salt, expected.length);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+// ============================================================================
+// SECRET TOKENS
+// ============================================================================
+
+/**
+ * Random URL-safe token, shown to its owner once
+ */
+export function createSecretToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+/**
+ * What is stored instead of a secret token; tokens are looked up by this hash
+ */
+export function hashSecretToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+// API keys carry a recognizable prefix so leaked keys are easy to spot
+const API_KEY_PREFIX = 'tpk_';
+// How much of a key is kept in clear to tell keys apart
+const API_KEY_DISPLAY_LENGTH = API_KEY_PREFIX.length + 8;
+
+/**
+ * A new API key and the part of it that may be displayed later
+ */
+export function createApiKey(): { key: string; prefix: string } {
+  const key = `${API_KEY_PREFIX}${createSecretToken()}`;
+  return { key, prefix: key.slice(0, API_KEY_DISPLAY_LENGTH) };
+}
+
+// ============================================================================
+// SESSIONS
+// ============================================================================
+
+let generatedSecret: string | null = null;
+
+function getSecret(env: NodeJS.ProcessEnv = process.env): string {
+  if (env.AUTH_SECRET) return env.AUTH_SECRET;
+  if (!generatedSecret) {
+    console.warn('[auth] AUTH_SECRET is not set; sessions will not survive a server restart');
+    generatedSecret = randomBytes(32).toString('hex');
+  }
+  return generatedSecret;
+}
+
+function sign(data: string): string {
+  return createHmac('sha256', getSecret()).update(data).digest('base64url');
+}
+
+export function getSessionTtlSeconds(env: NodeJS.ProcessEnv = process.env): number {
+  const hours = Number(env.SESSION_TTL_HOURS);
+  return Math.round((hours > 0 ? hours : DEFAULT_SESSION_TTL_HOURS) * 3600);
+}
+
+export function createSessionToken(userId: string, now: Date = new Date()): { token: string; expiresAt: Date } {
+  const iat = Math.floor(now.getTime() / 1000);
+  const payload: SessionPayload = { sub: userId, iat, exp: iat + getSessionTtlSeconds() };
+  const data = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return { token: `${data}.${sign(data)}`, expiresAt: new Date(payload.exp * 1000) };
+}
+
+/**
+ * Payload of a valid, unexpired token; null for anything else
+ */
+export function verifySessionToken(token: string | undefined, now: Date = new Date()): SessionPayload | null {
+  const [data, signature] = token?.split('.') ?? [];
+  if (!data || !signature) return null;
+
+  const expected = Buffer.from(sign(data));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+
+  return decodePayload(data, now);
+}
+
+/**
+ * Payload of an unexpired token WITHOUT checking its signature. Only for
+ * routing decisions (see src/proxy.ts); API routes must use verifySessionToken.
+ */
+export function peekSessionToken(token: string | undefined, now: Date = new Date()): SessionPayload | null {
+  const [data] = token?.split('.') ?? [];
+  return data ? decodePayload(data, now) : null;
+}
+
+function decodePayload(data: string, now: Date): SessionPayload | null {
+  try {
+    const payload = JSON.parse(Buffer.from(data, 'base64url').toString('utf8')) as SessionPayload;
+    if (typeof payload.sub !== 'string' || typeof payload.exp !== 'number') return null;
+    return payload.exp * 1000 > now.getTime() ? payload : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a session is still valid for its user: the account is active and
+ * the password has not been changed since the session was issued
+ */
+export function isSessionCurrent(session: SessionPayload, user: User): boolean {
+  if (!user.active) return false;
+  if (!user.passwordChangedAt) return true;
+  return session.iat >= Math.floor(Date.parse(user.passwordChangedAt) / 1000);
+}
+
+/**
+ * A user record without its credentials, as returned by the API
+ */
+export function toPublicUser(user: User): Omit<User, 'passwordHash'> {
+  const { passwordHash, ...publicFields } = user;
+  void passwordHash;
+  return publicFields;
+}
+
+/**
+ * An API key without its hash (safe to send to clients)
+ */
+export function toPublicApiKey(apiKey: ApiKey): Omit<ApiKey, 'tokenHash'> {
+  const { tokenHash, ...publicFields } = apiKey;
+  void tokenHash;
+  return publicFields;
+}
+
+/**
+ * Value of a cookie in a Cookie request header
+ */
+export function readCookie(request: Request, name: string): string | undefined {
+  const header = request.headers.get('cookie');
+  if (!header) return undefined;
+  for (const part of header.split(';')) {
+    const [key, ...rest] = part.trim().split('=');
+    if (key === name) return decodeURIComponent(rest.join('='));
+  }
+  return undefined;
+}
+
+/**
+ * Token of an "Authorization: Bearer <token>" request header
+ */
+export function readBearerToken(request: Request): string | undefined {
+  const match = /^Bearer\s+(\S+)\s*$/i.exec(request.headers.get('authorization') ?? '');
+  return match?.[1];
+}
+
+/**
+ * Set-Cookie value for a session token; pass null to clear the cookie
+ */
+export function sessionCookie(token: string | null, env: NodeJS.ProcessEnv = process.env): string {
+  const attributes = ['Path=/', 'HttpOnly', 'SameSite=Lax'];
+  if (env.NODE_ENV === 'production') attributes.push('Secure');
+  attributes.push(`Max-Age=${token ? getSessionTtlSeconds(env) : 0}`);
+  return `${SESSION_COOKIE}=${token ?? ''}; ${attributes.join('; ')}`;
+}
+
+export function isDemoMode(env: NodeJS.ProcessEnv = process.env): boolean {
+  return env.DEMO_MODE === 'true';
+}
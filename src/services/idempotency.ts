@@ -0,0 +1,146 @@
+/**
+ * Idempotency Keys
+ * Create routes accept an Idempotency-Key header so a client can retry a
+ * request whose response it never saw without creating a second record. The
+ * first request with a key stores its response; a retry with the same key and
+ * payload within the retention window gets that response replayed, and a key
+ * reused for a different payload is refused (see @/lib/apiHandler).
+ *
+ * Records are kept through the storage adapter (see ./storage), so with
+ * MOCKDB_STORAGE=json they survive restarts next to the data file.
+ *
+ * Configuration (environment):
+ *   - IDEMPOTENCY_TTL_HOURS: how long a stored response is replayed (default 24)
+ */
+
+import { createHash } from 'crypto';
+import { createStorageAdapter, StorageAdapter } from './storage';
+
+export interface StoredResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+}
+
+interface IdempotencyRecord {
+  // Hash of method, path and payload of the first request
+  fingerprint: string;
+  createdAt: string;
+  // Missing while the first request is still running
+  response?: StoredResponse;
+}
+
+type IdempotencyRecords = Record<string, IdempotencyRecord>;
+
+export type IdempotencyStart =
+  | { outcome: 'started' }
+  | { outcome: 'replay'; response: StoredResponse }
+  | { outcome: 'in-progress' }
+  | { outcome: 'mismatch' };
+
+const DEFAULT_TTL_HOURS = 24;
+
+// A request still unfinished after this long is assumed lost (e.g. the server restarted)
+const PENDING_TIMEOUT_MS = 60 * 1000;
+
+// Name of the adapter state that holds the records (see StorageAdapter.saveState)
+const STATE_NAMESPACE = 'idempotency';
+
+export class IdempotencyStore {
+  constructor(
+    private readonly adapter: StorageAdapter,
+    private readonly ttlMs: number
+  ) {}
+
+  /**
+   * Claim the key for a request, or report what became of an earlier request with it
+   */
+  begin(key: string, fingerprint: string, now: number = Date.now()): IdempotencyStart {
+    const records = this.load(now);
+    const existing = records[key];
+    const abandoned =
+      existing && !existing.response && now - Date.parse(existing.createdAt) > PENDING_TIMEOUT_MS;
+
+    if (existing && !abandoned) {
+      if (existing.fingerprint !== fingerprint) return { outcome: 'mismatch' };
+      return existing.response ? { outcome: 'replay', response: existing.response } : { outcome: 'in-progress' };
+    }
+
+    records[key] = { fingerprint, createdAt: new Date(now).toISOString() };
+    this.adapter.saveState(STATE_NAMESPACE, records);
+    return { outcome: 'started' };
+  }
+
+  /**
+   * Store the response of a claimed key for replay
+   */
+  complete(key: string, response: StoredResponse): void {
+    const records = this.load(Date.now());
+    if (!records[key]) return;
+    records[key].response = response;
+    this.adapter.saveState(STATE_NAMESPACE, records);
+  }
+
+  /**
+   * Give up a claimed key (the request failed unexpectedly) so a retry runs again
+   */
+  release(key: string): void {
+    const records = this.load(Date.now());
+    delete records[key];
+    this.adapter.saveState(STATE_NAMESPACE, records);
+  }
+
+  // Records without the expired ones
+  private load(now: number): IdempotencyRecords {
+    const records = (this.adapter.loadState(STATE_NAMESPACE) as IdempotencyRecords | null) ?? {};
+    for (const [key, record] of Object.entries(records)) {
+      if (now - Date.parse(record.createdAt) > this.ttlMs) delete records[key];
+    }
+    return records;
+  }
+}
+
+/**
+ * Hash of what makes two requests "the same": method, path and payload.
+ * Form payloads are hashed by their entries (files by content), not their
+ * bytes, because clients pick a new multipart boundary on every retry.
+ */
+export async function requestFingerprint(method: string, path: string, payload: string | FormData): Promise<string> {
+  const hash = createHash('sha256').update(`${method} ${path}\n`);
+  if (typeof payload === 'string') {
+    hash.update(payload);
+  } else {
+    for (const [name, value] of payload.entries()) {
+      if (typeof value === 'string') {
+        hash.update(`${name}=${value}\n`);
+      } else {
+        const content = createHash('sha256').update(Buffer.from(await value.arrayBuffer())).digest('hex');
+        hash.update(`${name}=file:${value.name}:${value.type}:${content}\n`);
+      }
+    }
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * Build the store configured through the environment
+ */
+export function createIdempotencyStore(env: NodeJS.ProcessEnv = process.env): IdempotencyStore {
+  const ttlHours = Number(env.IDEMPOTENCY_TTL_HOURS || DEFAULT_TTL_HOURS);
+  if (!(ttlHours > 0)) {
+    throw new Error(`Invalid IDEMPOTENCY_TTL_HOURS "${env.IDEMPOTENCY_TTL_HOURS}" (expected a positive number)`);
+  }
+  return new IdempotencyStore(createStorageAdapter(env), ttlHours * 60 * 60 * 1000);
+}
+
+let store: IdempotencyStore | undefined;
+
+/**
+ * The process-wide store (created on first use)
+ */
+export function getIdempotencyStore(): IdempotencyStore {
+  if (!store) {
+    store = createIdempotencyStore();
+  }
+  return store;
+}
@@ -0,0 +1,135 @@
+/**
+ * ID & Document Number Generation
+ * Record IDs are prefixed per entity type and sort by creation time
+ * (e.g. "pl_0lz3k9a1b00x9f2k1c"). Document numbers are the human-readable,
+ * sequential numbers printed on exhibitions and orders (e.g. "EX-2026-0001").
+ * Uniqueness against existing records is enforced by MockDB, which owns the
+ * data and the sequence counters.
+ */
+
+import { randomBytes } from 'crypto';
+import type { CollectionName } from './mockDb';
+
+export type IdType = CollectionName | 'auditLog' | 'organizations' | 'orderLines';
+
+export const ID_PREFIXES: Record<IdType, string> = {
+  users: 'usr',
+  roles: 'rol',
+  apiKeys: 'key',
+  suppliers: 'sup',
+  ingredients: 'ing',
+  packaging: 'pkg',
+  products: 'prd',
+  exhibitions: 'exh',
+  exhibitionMembers: 'exm',
+  supplierInvitations: 'inv',
+  exhibitionProducts: 'exp',
+  orders: 'ord',
+  reservations: 'rsv',
+  productLists: 'pl',
+  productListItems: 'pli',
+  auditLog: 'aud',
+  organizations: 'org',
+  orderLines: 'oln',
+};
+
+const ALPHABET = '0123456789abcdefghijklmnopqrstuvwxyz';
+const TIME_LENGTH = 9;
+const COUNTER_LENGTH = 2;
+const RANDOM_LENGTH = 8;
+
+let lastTime = 0;
+let counter = 0;
+
+function toBase36(value: number, length: number): string {
+  return value.toString(36).padStart(length, '0').slice(-length);
+}
+
+function randomChars(length: number): string {
+  const bytes = randomBytes(length);
+  let out = '';
+  for (let i = 0; i < length; i++) {
+    out += ALPHABET[bytes[i] % ALPHABET.length];
+  }
+  return out;
+}
+
+/**
+ * New prefixed ID. IDs created later sort after earlier ones, including
+ * several IDs created within the same millisecond.
+ */
+export function createId(type: IdType): string {
+  return createPrefixedId(ID_PREFIXES[type]);
+}
+
+/**
+ * Id for an incoming API request (e.g. "req_0mvfkojfn00ckk9luu0")
+ */
+export function createRequestId(): string {
+  return createPrefixedId('req');
+}
+
+/**
+ * Name for an uploaded file, without extension (e.g. "img_0mvfkojfn00ckk9luu0")
+ */
+export function createUploadId(): string {
+  return createPrefixedId('img');
+}
+
+function createPrefixedId(prefix: string): string {
+  const now = Date.now();
+  if (now === lastTime) {
+    counter++;
+  } else {
+    lastTime = now;
+    counter = 0;
+  }
+  return `${prefix}_${toBase36(now, TIME_LENGTH)}${toBase36(counter, COUNTER_LENGTH)}${randomChars(RANDOM_LENGTH)}`;
+}
+
+// ============================================================================
+// DOCUMENT NUMBERS
+// ============================================================================
+
+export type DocumentType = 'exhibition' | 'order';
+
+export interface DocumentNumberFormat {
+  prefix: string;
+  // Zero-padded width of the sequence part
+  digits: number;
+  // Include the year and restart the sequence every year
+  yearly: boolean;
+}
+
+const DEFAULT_DOCUMENT_NUMBER_FORMATS: Record<DocumentType, DocumentNumberFormat> = {
+  exhibition: { prefix: 'EX', digits: 4, yearly: true },
+  order: { prefix: 'ORD', digits: 4, yearly: true },
+};
+
+/**
+ * Format for a document type. Each part can be overridden through the
+ * environment, e.g. DOCNUM_ORDER_PREFIX=PO, DOCNUM_ORDER_DIGITS=6, DOCNUM_ORDER_YEARLY=false.
+ */
+export function getDocumentNumberFormat(type: DocumentType, env: NodeJS.ProcessEnv = process.env): DocumentNumberFormat {
+  const defaults = DEFAULT_DOCUMENT_NUMBER_FORMATS[type];
+  const key = `DOCNUM_${type.toUpperCase()}`;
+  const digits = Number(env[`${key}_DIGITS`]);
+
+  return {
+    prefix: env[`${key}_PREFIX`] || defaults.prefix,
+    digits: Number.isInteger(digits) && digits > 0 ? digits : defaults.digits,
+    yearly: env[`${key}_YEARLY`] ? env[`${key}_YEARLY`] !== 'false' : defaults.yearly,
+  };
+}
+
+/**
+ * Counter key for a document type: one sequence per year when the format is yearly
+ */
+export function sequenceKey(type: DocumentType, format: DocumentNumberFormat, date: Date): string {
+  return format.yearly ? `${type}:${date.getFullYear()}` : type;
+}
+
+export function formatDocumentNumber(format: DocumentNumberFormat, sequence: number, date: Date): string {
+  const seq = String(sequence).padStart(format.digits, '0');
+  return format.yearly ? `${format.prefix}-${date.getFullYear()}-${seq}` : `${format.prefix}-${seq}`;
+}
@@ -0,0 +1,39 @@
+/**
+ * Supplier Invitations
+ * The exhibition team invites a supplier by handing out a link that carries a
+ * secret token (only its hash is stored, see ./auth). Accepting the link puts
+ * a supplier user on the exhibition team; supplier users may then submit
+ * product lists for that exhibition until the invitation's deadline
+ * (see authorizeSubmission in @/middleware/rbac).
+ */
+
+import { InvitationStatus, mockDb, SupplierInvitation } from './mockDb';
+
+// How long an invitation link stays valid unless the inviter says otherwise
+export const INVITATION_TTL_DAYS = 14;
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * A deadline given as a plain date lasts until the end of that day (UTC)
+ */
+export function toDeadline(value: string): string {
+  return new Date(DATE_ONLY.test(value) ? `${value}T23:59:59.999Z` : value).toISOString();
+}
+
+/**
+ * An invitation as returned by the API: without the token hash, with its
+ * current status and the supplier's name
+ */
+export function toInvitationView(
+  invitation: SupplierInvitation,
+  now: Date = new Date()
+): Omit<SupplierInvitation, 'tokenHash'> & { status: InvitationStatus; supplierName?: string } {
+  const { tokenHash, ...publicFields } = invitation;
+  void tokenHash;
+  return {
+    ...publicFields,
+    status: mockDb.getInvitationStatus(invitation, now),
+    supplierName: mockDb.getSupplierById(invitation.supplierId)?.companyName,
+  };
+}
@@ -0,0 +1,381 @@
+/**
+ * Data Migrations
+ * Snapshots written by the storage adapter record the schema version they
+ * were saved with. When MockDB loads an older snapshot it runs every newer
+ * migration in order before serving requests. Migrations must be idempotent.
+ * Each organization's data set is versioned and migrated on its own.
+ */
+
+import type { ExhibitionMember, MockDatabase, OrderLine, OrderStatus, Supplier, SupplierInvitation, User } from './mockDb';
+import { ADMIN_ROLE, defaultRoles, ExhibitionRole } from './permissions';
+import { createId } from './ids';
+import { createSecretToken, hashSecretToken } from './auth';
+import { defaultSettings } from './settings';
+import { orderTotals } from './orderWorkflow';
+
+export interface Migration {
+  version: number;
+  description: string;
+  up(data: MockDatabase): void;
+}
+
+// Password hashes of the seeded demo users ("<username>123")
+export const DEMO_PASSWORD_HASHES: Record<string, string> = {
+  admin:
+    'scrypt$45c6291910b742fd15aba45f1600c687$7b8aaa9678258575f3a1dec87b427de1b63c653fdbf300940387dcbe81d92ca8038718fcdcb0101a18edacd4c77d322aa7bcbc336bbbcb94c283c62bb079d8e6',
+  manager:
+    'scrypt$3b6aba9ce416e783b835864f6574d387$2ba671c9ae3e1910c8950e4a6ad8bad58d1b406188d11ba87751366a14785d44d2bf7c7f093f000951edc656eafc09c1fcf3e021c10f991fd97e46124816f2c8',
+  staff:
+    'scrypt$2fe0e9a136adde9900333adc3161521d$e28251d00d049a1622c7af69780ab2110747dfd4ed517e85405f3d4b4dc5251b3108756e4a2cf08fe5b96ae32f5ca84075e698037af57def8430c0936c019a15',
+  viewer:
+    'scrypt$7ad27c481e100407aa068f3e3bf0aab6$24e9e08c888191a634e3e7ad38d232af83adf3e201fc9b83f24d694e2dd10a1711ce85daba03db65da483a8058742f34963c31192929aa625031a7daebb94fd9',
+  supplier:
+    'scrypt$1a5d7d44649840cf72abb094bffc676e$940a9fd65b79a6bf80132cee585f69ddee77af5e6a0d1b3e69b52fe85e2145d55b4f670139902abb7b87fc15c02926af34479090363caf98792001a7bc64dc06',
+};
+
+// Supplier of the seeded product lists (they used to carry the placeholder 'current-user')
+export const DEMO_SUPPLIER_ID = 'sup_demo';
+
+export function demoSupplier(): Supplier {
+  return {
+    id: DEMO_SUPPLIER_ID,
+    companyName: 'Demo Foods Ltd.',
+    taxId: 'DE123456789',
+    contacts: [{ name: 'Sam Supplier', email: 'sam@demofoods.example', phone: '+49 30 1234567', position: 'Sales' }],
+    addresses: [{ label: 'Head office', street: 'Market Street 1', city: 'Berlin', postalCode: '10115', country: 'DE' }],
+    createdAt: '2025-12-01T00:00:00.000Z',
+    version: 1,
+  };
+}
+
+// Portal user of the demo supplier
+export function demoSupplierUser(): User {
+  return {
+    id: 'u5',
+    username: 'supplier',
+    role: 'SUPPLIER',
+    fullName: 'Sam Supplier',
+    active: true,
+    passwordHash: DEMO_PASSWORD_HASHES.supplier,
+    supplierId: DEMO_SUPPLIER_ID,
+    version: 1,
+  };
+}
+
+// Team roles of the seeded demo users on the seeded exhibitions
+const DEMO_EXHIBITION_ROLES: Record<string, ExhibitionRole> = {
+  u2: 'LEAD',
+  u3: 'MEMBER',
+  u4: 'VIEWER',
+  u5: 'MEMBER',
+};
+
+/**
+ * Memberships of the demo users (those in userIds) on the given exhibitions
+ */
+export function demoExhibitionMembers(
+  exhibitionIds: string[],
+  userIds: string[] = Object.keys(DEMO_EXHIBITION_ROLES)
+): ExhibitionMember[] {
+  const createdAt = new Date().toISOString();
+  return exhibitionIds.flatMap((exhibitionId) =>
+    userIds
+      .filter((userId) => DEMO_EXHIBITION_ROLES[userId])
+      .map((userId) => ({
+        id: createId('exhibitionMembers'),
+        exhibitionId,
+        userId,
+        role: DEMO_EXHIBITION_ROLES[userId],
+        createdAt,
+      }))
+  );
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * An invitation that is already accepted, with a deadline a month ahead so the
+ * supplier user can submit right away
+ */
+function acceptedInvitation(exhibitionId: string, supplierId: string, userId: string): SupplierInvitation {
+  const now = Date.now();
+  return {
+    id: createId('supplierInvitations'),
+    exhibitionId,
+    supplierId,
+    // Nobody knows the token: the invitation is already accepted
+    tokenHash: hashSecretToken(createSecretToken()),
+    expiresAt: new Date(now + 14 * DAY_MS).toISOString(),
+    deadline: new Date(now + 30 * DAY_MS).toISOString(),
+    createdAt: new Date(now).toISOString(),
+    acceptedAt: new Date(now).toISOString(),
+    acceptedBy: userId,
+  };
+}
+
+/**
+ * Accepted invitations of the demo supplier to the given exhibitions
+ */
+export function demoSupplierInvitations(exhibitionIds: string[]): SupplierInvitation[] {
+  return exhibitionIds.map((exhibitionId) => acceptedInvitation(exhibitionId, DEMO_SUPPLIER_ID, demoSupplierUser().id));
+}
+
+// Statuses orders had before the order workflow (see ./orderWorkflow)
+const LEGACY_ORDER_STATUSES: Record<string, OrderStatus> = {
+  Delayed: 'SHIPPED',
+  'Out for delivery': 'SHIPPED',
+  'Waiting for check': 'DELIVERED',
+  Received: 'DELIVERED',
+  Returned: 'RETURNED',
+};
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Exhibition foreign keys reference Exhibition.id instead of the human exhibition code',
+    up(data) {
+      const idByCode = new Map(data.exhibitions.map((e) => [e.exhibitionId, e.id]));
+      const ids = new Set(data.exhibitions.map((e) => e.id));
+      const toCanonical = (ref: string) => (ids.has(ref) ? ref : idByCode.get(ref) ?? ref);
+
+      data.productLists.forEach((pl) => {
+        pl.exhibitionId = toCanonical(pl.exhibitionId);
+      });
+      data.exhibitionProducts.forEach((ep) => {
+        ep.exhibitionId = toCanonical(ep.exhibitionId);
+      });
+      data.orders.forEach((o) => {
+        if (o.exhibitionId) o.exhibitionId = toCanonical(o.exhibitionId);
+      });
+    },
+  },
+  {
+    version: 2,
+    description: 'Seeded demo users get password hashes so they can sign in',
+    up(data) {
+      data.users.forEach((user) => {
+        if (!user.passwordHash && DEMO_PASSWORD_HASHES[user.username]) {
+          user.passwordHash = DEMO_PASSWORD_HASHES[user.username];
+        }
+      });
+    },
+  },
+  {
+    version: 3,
+    description: 'Users can be deactivated; existing users start out active',
+    up(data) {
+      data.users.forEach((user) => {
+        if (user.active === undefined) user.active = true;
+      });
+    },
+  },
+  {
+    version: 4,
+    description: 'Permissions come from stored roles; seed the built-in roles',
+    up(data) {
+      data.roles = data.roles ?? [];
+      for (const role of defaultRoles()) {
+        if (!data.roles.some((r) => r.name === role.name)) data.roles.push(role);
+      }
+    },
+  },
+  {
+    version: 5,
+    description: 'Exhibitions have teams; demo users join the exhibitions that already exist',
+    up(data) {
+      data.exhibitionMembers = data.exhibitionMembers ?? [];
+      if (data.exhibitionMembers.length > 0) return;
+      data.exhibitionMembers.push(
+        ...demoExhibitionMembers(
+          data.exhibitions.map((e) => e.id),
+          data.users.map((u) => u.id)
+        )
+      );
+    },
+  },
+  {
+    version: 6,
+    description: 'Product lists reference a Supplier; seed the demo supplier, its portal user and the SUPPLIER role',
+    up(data) {
+      data.suppliers = data.suppliers ?? [];
+      if (!data.suppliers.some((s) => s.id === DEMO_SUPPLIER_ID)) data.suppliers.push(demoSupplier());
+
+      data.productLists.forEach((pl) => {
+        if (pl.supplierId === 'current-user') pl.supplierId = DEMO_SUPPLIER_ID;
+      });
+      data.exhibitionProducts.forEach((ep) => {
+        if (ep.supplierId === 'current-user') ep.supplierId = DEMO_SUPPLIER_ID;
+      });
+
+      // Built-in roles gain the new supplier permissions they hold by default
+      for (const role of defaultRoles()) {
+        const stored = data.roles.find((r) => r.name === role.name);
+        if (!stored) {
+          data.roles.push(role);
+          continue;
+        }
+        for (const permission of role.permissions.filter((p) => p.startsWith('supplier:'))) {
+          if (!stored.permissions.includes(permission)) stored.permissions.push(permission);
+        }
+      }
+
+      const supplierUser = demoSupplierUser();
+      if (!data.users.some((u) => u.id === supplierUser.id || u.username === supplierUser.username)) {
+        data.users.push(supplierUser);
+        data.exhibitionMembers.push(...demoExhibitionMembers(data.exhibitions.map((e) => e.id), [supplierUser.id]));
+      }
+    },
+  },
+  {
+    version: 7,
+    description: 'Suppliers submit product lists through exhibition invitations; supplier users keep access to their exhibitions',
+    up(data) {
+      data.supplierInvitations = data.supplierInvitations ?? [];
+      const supplierIdByUser = new Map(data.users.filter((u) => u.supplierId).map((u) => [u.id, u.supplierId!]));
+      data.exhibitionMembers.forEach((member) => {
+        const supplierId = supplierIdByUser.get(member.userId);
+        const invited = data.supplierInvitations.some(
+          (i) => i.exhibitionId === member.exhibitionId && i.supplierId === supplierId
+        );
+        if (supplierId && !invited) {
+          data.supplierInvitations.push(acceptedInvitation(member.exhibitionId, supplierId, member.userId));
+        }
+      });
+    },
+  },
+  {
+    version: 8,
+    description: 'Integrations authenticate with API keys; administrators manage them',
+    up(data) {
+      data.apiKeys = data.apiKeys ?? [];
+      const admin = data.roles.find((r) => r.name === ADMIN_ROLE);
+      if (admin && !admin.permissions.includes('apikey:manage')) admin.permissions.push('apikey:manage');
+    },
+  },
+  {
+    version: 9,
+    description: 'Company settings replace hard-coded constants; administrators manage them',
+    up(data) {
+      data.settings = data.settings ?? defaultSettings(data.products.map((p) => p.unit));
+      const admin = data.roles.find((r) => r.name === ADMIN_ROLE);
+      if (admin && !admin.permissions.includes('settings:manage')) admin.permissions.push('settings:manage');
+    },
+  },
+  {
+    version: 10,
+    description: 'Client companies are isolated organizations; operator administrators onboard them',
+    up(data) {
+      const admin = data.roles.find((r) => r.name === ADMIN_ROLE);
+      if (admin && !admin.permissions.includes('organization:manage')) admin.permissions.push('organization:manage');
+    },
+  },
+  {
+    version: 11,
+    description: 'Orders follow the order workflow; legacy statuses map onto it and staff gain the transition permissions',
+    up(data) {
+      data.orders.forEach((order) => {
+        order.status = LEGACY_ORDER_STATUSES[order.status as string] ?? order.status ?? 'DRAFT';
+        order.statusHistory = order.statusHistory ?? [];
+      });
+
+      const workflowPermissions: string[] = ['order:confirm', 'order:fulfil', 'order:cancel'];
+      for (const role of defaultRoles()) {
+        const stored = data.roles.find((r) => r.name === role.name);
+        for (const permission of role.permissions.filter((p) => workflowPermissions.includes(p))) {
+          if (stored && !stored.permissions.includes(permission)) stored.permissions.push(permission);
+        }
+      }
+    },
+  },
+  {
+    version: 12,
+    description: 'Approved product lists become orders; lists approved earlier get a draft order of their own',
+    up(data) {
+      const ordered = new Set(data.orders.flatMap((order) => order.productListIds ?? []));
+      for (const list of data.productLists.filter((pl) => pl.status === 'approved' && !ordered.has(pl.id))) {
+        const items: OrderLine[] = data.productListItems
+          .filter((item) => item.productListId === list.id)
+          .map((item) => ({
+            id: createId('orderLines'),
+            productId: item.productId,
+            quantity: item.quantity,
+            price: item.price,
+            productListId: list.id,
+            supplierId: list.supplierId,
+          }));
+        // Left without an order number, like the orders written before numbering
+        data.orders.push({
+          id: createId('orders'),
+          exhibition: data.exhibitions.find((e) => e.id === list.exhibitionId)?.name,
+          exhibitionId: list.exhibitionId,
+          ...orderTotals(items, (productId) => data.products.find((p) => p.id === productId)?.unit),
+          status: 'DRAFT',
+          statusHistory: [],
+          createdAt: list.createdAt,
+          items,
+          productListIds: [list.id],
+          version: 1,
+        });
+      }
+    },
+  },
+  {
+    version: 13,
+    description: 'Order lines have ids so drafts can be edited line by line',
+    up(data) {
+      data.orders.forEach((order) => {
+        order.items?.forEach((line) => {
+          line.id = line.id ?? createId('orderLines');
+        });
+      });
+    },
+  },
+  {
+    version: 14,
+    description: 'Confirmed orders reserve stock; orders confirmed but not yet shipped get their reservations',
+    up(data) {
+      data.reservations = data.reservations ?? [];
+      data.settings.overallocation = data.settings.overallocation ?? 'block';
+
+      const allocated = new Map<string, number>();
+      for (const reservation of data.reservations.filter((r) => !r.releasedAt)) {
+        allocated.set(reservation.productId, (allocated.get(reservation.productId) ?? 0) + reservation.quantity);
+      }
+      const reserved = new Set(data.reservations.map((r) => r.orderId));
+      const holding: OrderStatus[] = ['CONFIRMED', 'PICKING', 'PACKED'];
+      const createdAt = new Date().toISOString();
+
+      for (const order of data.orders.filter((o) => holding.includes(o.status) && !reserved.has(o.id))) {
+        for (const line of order.items ?? []) {
+          const onHand = data.products.find((p) => p.id === line.productId)?.quantity ?? 0;
+          const available = Math.max(0, onHand - (allocated.get(line.productId) ?? 0));
+          data.reservations.push({
+            id: createId('reservations'),
+            productId: line.productId,
+            orderId: order.id,
+            orderLineId: line.id,
+            quantity: line.quantity,
+            shortfall: Math.max(0, line.quantity - available),
+            createdAt,
+          });
+          allocated.set(line.productId, (allocated.get(line.productId) ?? 0) + line.quantity);
+        }
+      }
+    },
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Bring a snapshot up to the latest schema version in place.
+ * Returns true when at least one migration ran.
+ */
+export function migrate(data: MockDatabase): boolean {
+  const pending = MIGRATIONS.filter((m) => m.version > (data.schemaVersion ?? 0));
+  for (const migration of pending) {
+    migration.up(data);
+    data.schemaVersion = migration.version;
+  }
+  return pending.length > 0;
+}
@@ -2,20 +2,136 @@
  * In-Memory Mock Database (Singleton Pattern)
  * This service provides a centralized, in-memory data store for demo deployment
  * without requiring an actual database connection.
+ * Every mutation is handed to the configured storage adapter (see ./storage),
+ * which decides whether the data survives a server restart.
+ * Each organization (tenant) has a data set of its own; every method works on
+ * the data set of the organization selected for the current request (see
+ * ./organizations), so tenants are isolated without filtering each query.
  */
 
+import { createStorageAdapter, StorageAdapter } from './storage';
+import { getRequestActor, getRequestOrganization, RequestActor } from './requestContext';
+import {
+  DEMO_PASSWORD_HASHES,
+  DEMO_SUPPLIER_ID,
+  demoExhibitionMembers,
+  demoSupplier,
+  demoSupplierInvitations,
+  demoSupplierUser,
+  LATEST_SCHEMA_VERSION,
+  migrate,
+} from './migrations';
+import { defaultRoles, ExhibitionRole, Permission } from './permissions';
+import { defaultSettings, SETTINGS_ID } from './settings';
+import { DEFAULT_ORGANIZATION_ID, defaultOrganization } from './organizations';
+import {
+  InvalidOrderTransitionError,
+  ORDER_WORKFLOW,
+  OrderTransition,
+  OrderTransitionInput,
+  orderTotals,
+  recordLineQuantities,
+} from './orderWorkflow';
+import { isHeld, StockAllocation, stockAvailability } from './reservations';
+import { inDateRange, inSet, matchesText, Page, predicates, Query, runQuery, SortField } from './query';
+import {
+  createId,
+  DocumentType,
+  formatDocumentNumber,
+  getDocumentNumberFormat,
+  IdType,
+  sequenceKey,
+} from './ids';
+
 // ============================================================================
 // TYPE DEFINITIONS
 // ============================================================================
 
+// --- Concurrency Types ---
+// Entities edited by several users carry a version that MockDB bumps on every write
+export interface Versioned {
+  version: number;
+}
+
+// Shape accepted by add* methods: MockDB assigns the initial version
+export type NewRecord<T extends Versioned> = Omit<T, 'version'>;
+
 // --- RBAC Types ---
-export type UserRole = 'ADMIN' | 'MANAGER' | 'USER' | 'VIEWER';
+// Name of a Role: one of the built-ins (see ./permissions) or a custom role
+export type UserRole = string;
 
-export interface User {
+export interface Role extends Versioned {
+  id: string;
+  // Unique and immutable; User.role references it
+  name: UserRole;
+  description: string;
+  permissions: Permission[];
+  // Built-in roles cannot be deleted
+  builtIn: boolean;
+}
+
+export interface User extends Versioned {
   id: string;
   username: string;
   role: UserRole;
   fullName: string;
+  // Deactivated users cannot sign in and their sessions stop working
+  active: boolean;
+  // scrypt hash (see ./auth); never sent to clients
+  passwordHash?: string;
+  // Sessions issued before this moment are no longer accepted
+  passwordChangedAt?: string;
+  // References Supplier.id; set for supplier users, who only act for that supplier
+  supplierId?: string;
+}
+
+// Credential of a machine-to-machine integration (see API KEYS in @/middleware/rbac)
+export interface ApiKey {
+  id: string;
+  // What the key is used for, e.g. "Warehouse scanner"
+  name: string;
+  // First characters of the key, shown to tell keys apart
+  prefix: string;
+  // SHA-256 of the key (see ./auth); the key itself is only shown once
+  tokenHash: string;
+  // Checked like a user's role permissions
+  permissions: Permission[];
+  // References User.id
+  createdBy?: string;
+  createdAt: string;
+  expiresAt?: string;
+  lastUsedAt?: string;
+  // Revoked keys are kept for the audit trail but no longer authenticate
+  revokedAt?: string;
+}
+
+// --- Supplier Types ---
+export interface SupplierContact {
+  name: string;
+  email?: string;
+  phone?: string;
+  // Function at the supplier, e.g. "Sales"
+  position?: string;
+}
+
+export interface SupplierAddress {
+  // e.g. "Head office", "Warehouse"
+  label?: string;
+  street: string;
+  city: string;
+  postalCode?: string;
+  country: string;
+}
+
+// A company that submits product lists for exhibitions
+export interface Supplier extends Versioned {
+  id: string;
+  companyName: string;
+  // Unique when present
+  taxId?: string;
+  contacts: SupplierContact[];
+  addresses: SupplierAddress[];
+  createdAt: string;
 }
 
 // --- Packaging Hierarchy Types ---
@@ -39,7 +155,7 @@ export interface Ingredient {
   stockLevel: number;
 }
 
-export interface Product {
+export interface Product extends Versioned {
   id: string;
   name: string;
   category: string;
@@ -58,8 +174,9 @@ export interface Product {
 }
 
 // --- Exhibition Types ---
-export interface Exhibition {
+export interface Exhibition extends Versioned {
   id: string;
+  // Human-readable code (e.g. "EX-2941"); may change, so never used as a foreign key
   exhibitionId: string;
   name: string;
   description?: string;
@@ -68,35 +185,160 @@ export interface Exhibition {
   status?: 'PLANNING' | 'ACTIVE' | 'COMPLETED';
 }
 
+// A user on an exhibition's team (see EXHIBITION MEMBERSHIP in ./permissions)
+export interface ExhibitionMember {
+  id: string;
+  // References Exhibition.id
+  exhibitionId: string;
+  // References User.id
+  userId: string;
+  role: ExhibitionRole;
+  createdAt: string;
+}
+
+// Invitation of a supplier to submit product lists for an exhibition
+export interface SupplierInvitation {
+  id: string;
+  // References Exhibition.id
+  exhibitionId: string;
+  // References Supplier.id
+  supplierId: string;
+  // Who the link is meant for (informational; the inviter hands the link out)
+  email?: string;
+  // SHA-256 of the invitation token (see ./auth); the token is only shown once
+  tokenHash: string;
+  // The link can be accepted until then
+  expiresAt: string;
+  // Supplier users can submit product lists until then
+  deadline: string;
+  // References User.id
+  invitedBy?: string;
+  createdAt: string;
+  acceptedAt?: string;
+  // References User.id
+  acceptedBy?: string;
+}
+
+/**
+ * Progress of an invitation as shown to the exhibition team:
+ *   - invited: the link has not been used yet
+ *   - expired: the link was not used in time
+ *   - accepted: the supplier joined but has not submitted a product list
+ *   - submitted: the supplier submitted at least one product list
+ *   - overdue: the supplier joined but the deadline passed without a submission
+ */
+export type InvitationStatus = 'invited' | 'expired' | 'accepted' | 'submitted' | 'overdue';
+
 export interface ExhibitionProduct {
   id: string;
+  // References Exhibition.id
   exhibitionId: string;
   productId: string;
   quantity: number;
   price?: number;
   status: 'pending' | 'approved' | 'rejected';
-  supplierId: string;
+  // References Supplier.id; absent when staff added the product
+  supplierId?: string;
   complianceNotes?: string;
 }
 
 // --- Order Types ---
-export interface Order {
+export const ORDER_STATUSES = [
+  'DRAFT',
+  'CONFIRMED',
+  'PICKING',
+  'PACKED',
+  'SHIPPED',
+  'DELIVERED',
+  'RETURNED',
+  'CLOSED',
+  'CANCELLED',
+] as const;
+export type OrderStatus = (typeof ORDER_STATUSES)[number];
+
+export interface OrderStatusChange {
+  transition: OrderTransition;
+  from: OrderStatus;
+  to: OrderStatus;
+  at: string;
+  by: RequestActor | null;
+  // Given when an order is cancelled or returned
+  reason?: string;
+}
+
+export interface Order extends Versioned {
   id: string;
+  // Sequential document number (e.g. "ORD-2026-0001"); absent on legacy orders
+  orderNumber?: string;
   exhibition?: string;
+  // References Exhibition.id
   exhibitionId?: string;
   orderValue?: number;
   quantity: number;
   unit: string;
   expectedDelivery?: string;
-  status?: 'Delayed' | 'Received' | 'Returned' | 'Out for delivery' | 'Waiting for check' | 'DRAFT' | 'CONFIRMED' | 'SHIPPED';
+  notes?: string;
+  // Changed only through workflow transitions (see ./orderWorkflow)
+  status: OrderStatus;
+  // Every transition taken, oldest first; empty for orders older than the workflow
+  statusHistory: OrderStatusChange[];
   createdAt?: string;
-  items?: { productId: string; quantity: number }[];
+  items?: OrderLine[];
+  // Approved product lists the lines were copied from (see MockDB.orderProductList)
+  productListIds?: string[];
+}
+
+export interface OrderLine {
+  id: string;
+  productId: string;
+  quantity: number;
+  // Unit price; lines copied from a product list keep the approved price
+  price?: number;
+  // Source list and its supplier, for lines copied from a product list
+  productListId?: string;
+  supplierId?: string;
+  // Recorded by the pack, ship and deliver transitions (see LINE_QUANTITY_STAGES)
+  pickedQuantity?: number;
+  shippedQuantity?: number;
+  receivedQuantity?: number;
+}
+
+// A line as written while the order is a draft: with the id of the line it
+// replaces, or without one for a new line
+export type OrderLineInput = Pick<OrderLine, 'productId' | 'quantity' | 'price'> & { id?: string };
+
+// How an approved product list becomes an order: a new draft, or merged into
+// the exhibition's latest draft
+export const LIST_ORDER_MODES = ['new', 'merge'] as const;
+export type ListOrderMode = (typeof LIST_ORDER_MODES)[number];
+
+// Stock held for an order line from confirmation until it ships or the order
+// is cancelled (see ./reservations)
+export interface Reservation {
+  id: string;
+  // References Product.id
+  productId: string;
+  // References Order.id; orderLineId is the OrderLine.id within it
+  orderId: string;
+  orderLineId: string;
+  quantity: number;
+  // Part of the quantity that was not available when reserved (overallocation 'flag')
+  shortfall: number;
+  createdAt: string;
+  // Set once the stock is no longer held
+  releasedAt?: string;
+  releaseReason?: 'shipped' | 'cancelled';
 }
 
+// Shape accepted by addOrder: every order starts as a draft
+export type NewOrder = Omit<NewRecord<Order>, 'status' | 'statusHistory'>;
+
 // --- Product List Types ---
-export interface ProductList {
+export interface ProductList extends Versioned {
   id: string;
+  // References Exhibition.id
   exhibitionId: string;
+  // References Supplier.id
   supplierId: string;
   status: 'pending' | 'approved' | 'rejected';
   createdAt: string;
@@ -111,32 +353,446 @@ export interface ProductListItem {
   price: number;
 }
 
+// --- Settings Types ---
+// manual: waits for a reviewer; auto: approved as soon as it is submitted
+export type ApprovalMode = 'manual' | 'auto';
+
+// block: confirming an order needs enough available stock for every line;
+// flag: the order is confirmed anyway and the reservation records the shortfall
+export const OVERALLOCATION_MODES = ['block', 'flag'] as const;
+export type OverallocationMode = (typeof OVERALLOCATION_MODES)[number];
+
+export interface Settings extends Versioned {
+  companyName: string;
+  // ISO 4217 code prices are shown in (e.g. "THB")
+  currency: string;
+  // Units products can be stocked in (Product.unit)
+  unitsOfMeasure: string[];
+  // Threshold value of new products that do not name one
+  lowStockThreshold: number;
+  approvalPolicy: {
+    // Products added to an exhibition (ExhibitionProduct.status)
+    exhibitionProducts: ApprovalMode;
+    // Submitted product lists (ProductList.status)
+    productLists: ApprovalMode;
+  };
+  // Confirming orders for more than the available stock (see ./reservations)
+  overallocation: OverallocationMode;
+  notifications: {
+    // Addresses that receive the notifications switched on below
+    recipients: string[];
+    lowStock: boolean;
+    productListSubmitted: boolean;
+    invitationAccepted: boolean;
+  };
+  updatedAt?: string;
+}
+
+// --- Tenancy Types ---
+// A client company; its records live in a data set of their own (see MockDataStore)
+export interface Organization extends Versioned {
+  id: string;
+  name: string;
+  // Unique, URL-friendly name (e.g. "acme-foods")
+  slug: string;
+  createdAt: string;
+}
+
+// --- Audit Types ---
+export type AuditAction = 'create' | 'update' | 'delete';
+
+export const AUDIT_ENTITY_TYPES = [
+  'User',
+  'Role',
+  'ApiKey',
+  'Supplier',
+  'Ingredient',
+  'PackagingUnit',
+  'Product',
+  'Exhibition',
+  'ExhibitionMember',
+  'SupplierInvitation',
+  'ExhibitionProduct',
+  'Order',
+  'Reservation',
+  'ProductList',
+  'ProductListItem',
+  'Settings',
+  'Organization',
+] as const;
+export type AuditEntityType = (typeof AUDIT_ENTITY_TYPES)[number];
+
+export interface AuditFieldChange {
+  field: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface AuditEntry {
+  id: string;
+  timestamp: string;
+  actor: RequestActor | null;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string;
+  changes: AuditFieldChange[];
+}
+
+export interface AuditFilter {
+  entityType?: AuditEntityType;
+  entityId?: string;
+  // Acting user
+  userId?: string;
+  from?: string;
+  to?: string;
+}
+
+// --- Query Types (see ./query) ---
+export const USER_SORT_FIELDS = ['username', 'fullName', 'role', 'active'] as const;
+export type UserSortField = (typeof USER_SORT_FIELDS)[number];
+export const DEFAULT_USER_SORT: SortField<UserSortField>[] = [{ field: 'username', direction: 'asc' }];
+
+export interface UserFilter {
+  // Matches username or full name
+  search?: string;
+  role?: UserRole[];
+  active?: boolean;
+}
+
+export const SUPPLIER_SORT_FIELDS = ['companyName', 'taxId', 'createdAt'] as const;
+export type SupplierSortField = (typeof SUPPLIER_SORT_FIELDS)[number];
+export const DEFAULT_SUPPLIER_SORT: SortField<SupplierSortField>[] = [{ field: 'companyName', direction: 'asc' }];
+
+export interface SupplierFilter {
+  // Matches company name or tax id
+  search?: string;
+}
+
+export const PRODUCT_SORT_FIELDS = [
+  'name',
+  'category',
+  'buyingPrice',
+  'quantity',
+  'thresholdValue',
+  'expiryDate',
+  'availability',
+] as const;
+export type ProductSortField = (typeof PRODUCT_SORT_FIELDS)[number];
+export const DEFAULT_PRODUCT_SORT: SortField<ProductSortField>[] = [{ field: 'name', direction: 'asc' }];
+
+export interface ProductFilter {
+  // Matches name or SKU
+  search?: string;
+  category?: string[];
+  availability?: Product['availability'][];
+  isApproved?: boolean;
+  expiryFrom?: string;
+  expiryTo?: string;
+}
+
+export const EXHIBITION_SORT_FIELDS = ['name', 'exhibitionId', 'startDate', 'endDate', 'status'] as const;
+export type ExhibitionSortField = (typeof EXHIBITION_SORT_FIELDS)[number];
+export const DEFAULT_EXHIBITION_SORT: SortField<ExhibitionSortField>[] = [{ field: 'startDate', direction: 'desc' }];
+
+export interface ExhibitionFilter {
+  // Matches name or exhibition code
+  search?: string;
+  status?: NonNullable<Exhibition['status']>[];
+  startFrom?: string;
+  startTo?: string;
+}
+
+export const PRODUCT_LIST_SORT_FIELDS = ['createdAt', 'status', 'totalQuantity', 'supplierId'] as const;
+export type ProductListSortField = (typeof PRODUCT_LIST_SORT_FIELDS)[number];
+export const DEFAULT_PRODUCT_LIST_SORT: SortField<ProductListSortField>[] = [{ field: 'createdAt', direction: 'desc' }];
+
+export const AUDIT_SORT_FIELDS = ['timestamp', 'entityType', 'action'] as const;
+export type AuditSortField = (typeof AUDIT_SORT_FIELDS)[number];
+export const DEFAULT_AUDIT_SORT: SortField<AuditSortField>[] = [{ field: 'timestamp', direction: 'desc' }];
+
+export interface ProductListFilter {
+  // Exhibition id or code
+  exhibitionId?: string;
+  supplierId?: string[];
+  status?: ProductList['status'][];
+  createdFrom?: string;
+  createdTo?: string;
+}
+
 // ============================================================================
 // IN-MEMORY DATA STORE
 // ============================================================================
 
-interface MockDatabase {
+export interface MockDatabase {
+  // Schema version of the snapshot, see ./migrations
+  schemaVersion: number;
   users: User[];
+  roles: Role[];
+  apiKeys: ApiKey[];
+  suppliers: Supplier[];
   ingredients: Ingredient[];
   packaging: PackagingUnit[];
   products: Product[];
   exhibitions: Exhibition[];
+  exhibitionMembers: ExhibitionMember[];
+  supplierInvitations: SupplierInvitation[];
   exhibitionProducts: ExhibitionProduct[];
   orders: Order[];
+  reservations: Reservation[];
   productLists: ProductList[];
   productListItems: ProductListItem[];
+  auditLog: AuditEntry[];
+  settings: Settings;
+  // Last issued document number per sequence (e.g. "exhibition:2026" -> 12)
+  sequences: Record<string, number>;
+}
+
+// What the storage adapter persists: the organizations and one data set per organization
+export interface MockDataStore {
+  organizations: Organization[];
+  // Keyed by Organization.id
+  tenants: Record<string, MockDatabase>;
+}
+
+// A record found by a lookup across organizations, with the organization it belongs to
+export interface Located<T> {
+  organizationId: string;
+  record: T;
+}
+
+// ============================================================================
+// RELATIONS (REFERENTIAL INTEGRITY)
+// ============================================================================
+
+export type CollectionName = Exclude<keyof MockDatabase, 'auditLog' | 'schemaVersion' | 'sequences' | 'settings'>;
+
+/**
+ * What happens to dependent records when the record they point at is deleted:
+ *   - restrict: the delete is refused while dependents exist
+ *   - cascade: dependents are deleted too
+ *   - nullify: the dependent's foreign key is cleared
+ */
+export type DeleteRule = 'restrict' | 'cascade' | 'nullify';
+
+export interface Relation {
+  child: CollectionName;
+  // Field on the child; 'items.productId' reaches into an array of objects (restrict/cascade only)
+  foreignKey: string;
+  parent: CollectionName;
+  parentKey: string;
+  onDelete: DeleteRule;
+}
+
+export const RELATIONS: Relation[] = [
+  { child: 'users', foreignKey: 'role', parent: 'roles', parentKey: 'name', onDelete: 'restrict' },
+  { child: 'users', foreignKey: 'supplierId', parent: 'suppliers', parentKey: 'id', onDelete: 'restrict' },
+  { child: 'productLists', foreignKey: 'supplierId', parent: 'suppliers', parentKey: 'id', onDelete: 'restrict' },
+  { child: 'exhibitionProducts', foreignKey: 'supplierId', parent: 'suppliers', parentKey: 'id', onDelete: 'nullify' },
+  { child: 'products', foreignKey: 'packagingId', parent: 'packaging', parentKey: 'id', onDelete: 'nullify' },
+  { child: 'products', foreignKey: 'ingredients.ingredientId', parent: 'ingredients', parentKey: 'id', onDelete: 'restrict' },
+  { child: 'exhibitionProducts', foreignKey: 'productId', parent: 'products', parentKey: 'id', onDelete: 'restrict' },
+  { child: 'productListItems', foreignKey: 'productId', parent: 'products', parentKey: 'id', onDelete: 'restrict' },
+  { child: 'orders', foreignKey: 'items.productId', parent: 'products', parentKey: 'id', onDelete: 'restrict' },
+  { child: 'exhibitionProducts', foreignKey: 'exhibitionId', parent: 'exhibitions', parentKey: 'id', onDelete: 'cascade' },
+  { child: 'exhibitionMembers', foreignKey: 'exhibitionId', parent: 'exhibitions', parentKey: 'id', onDelete: 'cascade' },
+  { child: 'exhibitionMembers', foreignKey: 'userId', parent: 'users', parentKey: 'id', onDelete: 'cascade' },
+  { child: 'supplierInvitations', foreignKey: 'exhibitionId', parent: 'exhibitions', parentKey: 'id', onDelete: 'cascade' },
+  { child: 'supplierInvitations', foreignKey: 'supplierId', parent: 'suppliers', parentKey: 'id', onDelete: 'cascade' },
+  { child: 'supplierInvitations', foreignKey: 'invitedBy', parent: 'users', parentKey: 'id', onDelete: 'nullify' },
+  { child: 'supplierInvitations', foreignKey: 'acceptedBy', parent: 'users', parentKey: 'id', onDelete: 'nullify' },
+  { child: 'apiKeys', foreignKey: 'createdBy', parent: 'users', parentKey: 'id', onDelete: 'nullify' },
+  { child: 'productLists', foreignKey: 'exhibitionId', parent: 'exhibitions', parentKey: 'id', onDelete: 'restrict' },
+  { child: 'orders', foreignKey: 'exhibitionId', parent: 'exhibitions', parentKey: 'id', onDelete: 'nullify' },
+  { child: 'productListItems', foreignKey: 'productListId', parent: 'productLists', parentKey: 'id', onDelete: 'cascade' },
+  { child: 'orders', foreignKey: 'items.productListId', parent: 'productLists', parentKey: 'id', onDelete: 'restrict' },
+  { child: 'reservations', foreignKey: 'orderId', parent: 'orders', parentKey: 'id', onDelete: 'cascade' },
+  { child: 'reservations', foreignKey: 'productId', parent: 'products', parentKey: 'id', onDelete: 'restrict' },
+];
+
+const ENTITY_TYPES: Record<CollectionName, AuditEntityType> = {
+  users: 'User',
+  roles: 'Role',
+  apiKeys: 'ApiKey',
+  suppliers: 'Supplier',
+  ingredients: 'Ingredient',
+  packaging: 'PackagingUnit',
+  products: 'Product',
+  exhibitions: 'Exhibition',
+  exhibitionMembers: 'ExhibitionMember',
+  supplierInvitations: 'SupplierInvitation',
+  exhibitionProducts: 'ExhibitionProduct',
+  orders: 'Order',
+  reservations: 'Reservation',
+  productLists: 'ProductList',
+  productListItems: 'ProductListItem',
+};
+
+type AnyRecord = { id: string } & Record<string, unknown>;
+
+/**
+ * Does the child record point at the given key through the relation's foreign key?
+ */
+function referencesKey(record: AnyRecord, foreignKey: string, key: unknown): boolean {
+  const [field, nested] = foreignKey.split('.');
+  const value = record[field];
+  if (nested) {
+    return Array.isArray(value) && value.some((entry) => entry?.[nested] === key);
+  }
+  return value !== undefined && value === key;
+}
+
+export interface DependentRecord {
+  entityType: AuditEntityType;
+  id: string;
+  field: string;
+}
+
+/**
+ * Thrown when a delete is refused because other records still depend on the entity
+ */
+export class ReferentialIntegrityError extends Error {
+  constructor(
+    public readonly entity: AuditEntityType,
+    public readonly id: string,
+    public readonly dependents: DependentRecord[]
+  ) {
+    super(`${entity} ${id} is still referenced by ${dependents.length} record(s)`);
+    this.name = 'ReferentialIntegrityError';
+  }
+}
+
+/**
+ * Thrown when a write points a record at a parent that does not exist
+ */
+export class MissingReferenceError extends Error {
+  constructor(
+    public readonly entity: AuditEntityType,
+    public readonly field: string,
+    public readonly parent: AuditEntityType,
+    public readonly key: unknown
+  ) {
+    super(`${entity}.${field} references unknown ${parent} "${key}"`);
+    this.name = 'MissingReferenceError';
+  }
+}
+
+// Collections whose records carry a version (see Versioned)
+const VERSIONED_COLLECTIONS = ['users', 'roles', 'suppliers', 'products', 'exhibitions', 'orders', 'productLists'] as const;
+
+// Bookkeeping fields that are not reported as changes in the audit log
+const AUDIT_IGNORED_FIELDS = new Set(['version']);
+
+// Secrets whose changes are recorded without their values
+const AUDIT_REDACTED_FIELDS = new Set(['passwordHash', 'tokenHash']);
+const REDACTED = '[redacted]';
+
+// How an audited record leads to the exhibition it belongs to: its own field,
+// or a field naming a parent record that does (see queryAuditLog's scope)
+const AUDIT_EXHIBITION_PATHS: Partial<Record<AuditEntityType, { field: string; via?: AuditEntityType }>> = {
+  ExhibitionMember: { field: 'exhibitionId' },
+  SupplierInvitation: { field: 'exhibitionId' },
+  ExhibitionProduct: { field: 'exhibitionId' },
+  Order: { field: 'exhibitionId' },
+  ProductList: { field: 'exhibitionId' },
+  ProductListItem: { field: 'productListId', via: 'ProductList' },
+  Reservation: { field: 'orderId', via: 'Order' },
+};
+
+// How often the last use of an API key is written to storage (see recordApiKeyUse)
+const API_KEY_USE_PERSIST_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Field-level differences between two versions of a record.
+ * Missing before/after means the record was created/deleted.
+ */
+function diffFields(before?: object, after?: object): AuditFieldChange[] {
+  const b = (before ?? {}) as Record<string, unknown>;
+  const a = (after ?? {}) as Record<string, unknown>;
+  const fields = new Set([...Object.keys(b), ...Object.keys(a)]);
+  const changes: AuditFieldChange[] = [];
+
+  for (const field of fields) {
+    if (AUDIT_IGNORED_FIELDS.has(field)) continue;
+    if (JSON.stringify(b[field]) === JSON.stringify(a[field])) continue;
+    if (AUDIT_REDACTED_FIELDS.has(field)) {
+      changes.push({ field, before: b[field] === undefined ? undefined : REDACTED, after: a[field] === undefined ? undefined : REDACTED });
+      continue;
+    }
+    changes.push({ field, before: b[field], after: a[field] });
+  }
+  return changes;
+}
+
+/**
+ * Thrown when a write was based on a stale version of a record
+ */
+export class VersionConflictError extends Error {
+  constructor(
+    public readonly entity: string,
+    public readonly id: string,
+    public readonly expectedVersion: number,
+    public readonly currentVersion: number
+  ) {
+    super(`${entity} ${id} is at version ${currentVersion}, expected ${expectedVersion}`);
+    this.name = 'VersionConflictError';
+  }
 }
 
-// Initial seed data combining existing mock data
+// Initial seed data of the default organization, combining existing mock data
 const INITIAL_DATA: MockDatabase = {
+  schemaVersion: LATEST_SCHEMA_VERSION,
+
   // --- Users for RBAC ---
+  // Demo passwords are "<username>123" (see DEMO_PASSWORD_HASHES in ./migrations)
   users: [
-    { id: 'u1', username: 'admin', role: 'ADMIN', fullName: 'Super Admin' },
-    { id: 'u2', username: 'manager', role: 'MANAGER', fullName: 'Project Manager' },
-    { id: 'u3', username: 'staff', role: 'USER', fullName: 'Operational Staff' },
-    { id: 'u4', username: 'viewer', role: 'VIEWER', fullName: 'Read Only Viewer' },
+    {
+      id: 'u1',
+      username: 'admin',
+      role: 'ADMIN',
+      fullName: 'Super Admin',
+      active: true,
+      passwordHash: DEMO_PASSWORD_HASHES.admin,
+      version: 1,
+    },
+    {
+      id: 'u2',
+      username: 'manager',
+      role: 'MANAGER',
+      fullName: 'Project Manager',
+      active: true,
+      passwordHash: DEMO_PASSWORD_HASHES.manager,
+      version: 1,
+    },
+    {
+      id: 'u3',
+      username: 'staff',
+      role: 'USER',
+      fullName: 'Operational Staff',
+      active: true,
+      passwordHash: DEMO_PASSWORD_HASHES.staff,
+      version: 1,
+    },
+    {
+      id: 'u4',
+      username: 'viewer',
+      role: 'VIEWER',
+      fullName: 'Read Only Viewer',
+      active: true,
+      passwordHash: DEMO_PASSWORD_HASHES.viewer,
+      version: 1,
+    },
+    demoSupplierUser(),
   ],
 
+  // --- Roles (see ./permissions) ---
+  roles: defaultRoles(),
+
+  // --- API Keys (created by administrators at runtime) ---
+  apiKeys: [],
+
+  // --- Suppliers ---
+  suppliers: [demoSupplier()],
+
   // --- Ingredients ---
   ingredients: [
     { id: 'ing1', name: 'Organic Polymer', precision: 0.01, stockLevel: 500 },
@@ -169,6 +825,7 @@ const INITIAL_DATA: MockDatabase = {
       image: '/placeholder.png',
       sku: 'SKU-456567',
       isApproved: true,
+      version: 1,
     },
     {
       id: '456568',
@@ -183,6 +840,7 @@ const INITIAL_DATA: MockDatabase = {
       image: '/placeholder.png',
       sku: 'SKU-456568',
       isApproved: false,
+      version: 1,
     },
     {
       id: '456569',
@@ -197,6 +855,7 @@ const INITIAL_DATA: MockDatabase = {
       image: '/placeholder.png',
       sku: 'SKU-456569',
       isApproved: true,
+      version: 1,
     },
     {
       id: '456570',
@@ -211,6 +870,7 @@ const INITIAL_DATA: MockDatabase = {
       image: '/placeholder.png',
       sku: 'SKU-456570',
       isApproved: false,
+      version: 1,
     },
     {
       id: '456571',
@@ -225,6 +885,7 @@ const INITIAL_DATA: MockDatabase = {
       image: '/placeholder.png',
       sku: 'SKU-456571',
       isApproved: true,
+      version: 1,
     },
   ],
 
@@ -238,6 +899,7 @@ const INITIAL_DATA: MockDatabase = {
       startDate: '2025-12-02',
       endDate: '2025-12-17',
       status: 'PLANNING',
+      version: 1,
     },
     {
       id: 'ui61d3cma',
@@ -247,6 +909,7 @@ const INITIAL_DATA: MockDatabase = {
       startDate: '2025-12-17',
       endDate: '2025-12-17',
       status: 'PLANNING',
+      version: 1,
     },
     {
       id: 'fs13x086f',
@@ -256,42 +919,49 @@ const INITIAL_DATA: MockDatabase = {
       startDate: '2025-12-03',
       endDate: '2025-12-06',
       status: 'ACTIVE',
+      version: 1,
     },
   ],
 
+  // --- Exhibition Teams (demo users on every seeded exhibition) ---
+  exhibitionMembers: demoExhibitionMembers(['oxurt5ywn', 'ui61d3cma', 'fs13x086f']),
+
+  // --- Supplier Invitations (the demo supplier has accepted every seeded exhibition) ---
+  supplierInvitations: demoSupplierInvitations(['oxurt5ywn', 'ui61d3cma', 'fs13x086f']),
+
   // --- Exhibition Products (merged from data.json) ---
   exhibitionProducts: [
     {
       id: 'd7gyiq52d',
-      exhibitionId: 'EX-2941',
+      exhibitionId: 'oxurt5ywn',
       productId: '456567',
       quantity: 1,
       status: 'approved',
-      supplierId: 'current-user',
+      supplierId: DEMO_SUPPLIER_ID,
     },
     {
       id: 'cszttszpu',
-      exhibitionId: 'EX-2941',
+      exhibitionId: 'oxurt5ywn',
       productId: '456568',
       quantity: 1,
       status: 'pending',
-      supplierId: 'current-user',
+      supplierId: DEMO_SUPPLIER_ID,
     },
     {
       id: 'is0w5qty1',
-      exhibitionId: 'EX-2941',
+      exhibitionId: 'oxurt5ywn',
       productId: '456570',
       quantity: 1,
       status: 'pending',
-      supplierId: 'current-user',
+      supplierId: DEMO_SUPPLIER_ID,
     },
     {
       id: '7cajr3r7o',
-      exhibitionId: 'EX-2941',
+      exhibitionId: 'oxurt5ywn',
       productId: '456571',
       quantity: 1,
       status: 'pending',
-      supplierId: 'current-user',
+      supplierId: DEMO_SUPPLIER_ID,
     },
   ],
 
@@ -304,7 +974,9 @@ const INITIAL_DATA: MockDatabase = {
       quantity: 43,
       unit: 'Packets',
       expectedDelivery: '2022-12-11',
-      status: 'Delayed',
+      status: 'SHIPPED',
+      statusHistory: [],
+      version: 1,
     },
     {
       id: '5724',
@@ -313,7 +985,9 @@ const INITIAL_DATA: MockDatabase = {
       quantity: 22,
       unit: 'Packets',
       expectedDelivery: '2022-12-21',
-      status: 'Received',
+      status: 'DELIVERED',
+      statusHistory: [],
+      version: 1,
     },
     {
       id: '2775',
@@ -322,27 +996,34 @@ const INITIAL_DATA: MockDatabase = {
       quantity: 36,
       unit: 'Packets',
       expectedDelivery: '2022-12-05',
-      status: 'Returned',
+      status: 'RETURNED',
+      statusHistory: [],
+      version: 1,
     },
   ],
 
+  // Seeded orders are past shipping, so nothing is held
+  reservations: [],
+
   // --- Product Lists (merged from data.json) ---
   productLists: [
     {
       id: 'a1e8x088e',
-      exhibitionId: 'EX-2941',
-      supplierId: 'current-user',
+      exhibitionId: 'oxurt5ywn',
+      supplierId: DEMO_SUPPLIER_ID,
       status: 'pending',
       createdAt: '2025-12-03T03:05:05.799Z',
       totalQuantity: 12,
+      version: 1,
     },
     {
       id: 'r2is3icfx',
-      exhibitionId: 'EX-7460',
-      supplierId: 'current-user',
+      exhibitionId: 'fs13x086f',
+      supplierId: DEMO_SUPPLIER_ID,
       status: 'pending',
       createdAt: '2025-12-03T03:06:14.423Z',
       totalQuantity: 3,
+      version: 1,
     },
   ],
 
@@ -384,31 +1065,462 @@ const INITIAL_DATA: MockDatabase = {
       price: 405,
     },
   ],
+
+  // --- Audit Log (append-only) ---
+  auditLog: [],
+
+  // --- Settings ---
+  settings: defaultSettings(),
+
+  // --- Document Number Sequences ---
+  sequences: {},
 };
 
 // ============================================================================
 // MOCK DB SINGLETON CLASS
 // ============================================================================
 
+/**
+ * A fresh installation: the default organization with the demo data
+ */
+function initialStore(): MockDataStore {
+  // Deep clone initial data to avoid mutations affecting the template
+  const data: MockDatabase = JSON.parse(JSON.stringify(INITIAL_DATA));
+  return {
+    organizations: [defaultOrganization(data.settings.companyName)],
+    tenants: { [DEFAULT_ORGANIZATION_ID]: data },
+  };
+}
+
 export class MockDB {
   private static instance: MockDB;
-  private data: MockDatabase;
-
-  private constructor() {
-    // Deep clone initial data to avoid mutations affecting the template
-    this.data = JSON.parse(JSON.stringify(INITIAL_DATA));
+  private store: MockDataStore;
+  private storage: StorageAdapter;
+  // Snapshot taken when the outermost transaction began (null when none is open)
+  private transactionSnapshot: string | null = null;
+  private transactionDepth = 0;
+
+  private constructor(storage: StorageAdapter) {
+    this.storage = storage;
+
+    const stored = storage.load();
+    if (stored) {
+      this.store = MockDB.hydrateStore(stored);
+      // Every organization's data set carries its own schema version
+      let migrated = !stored.tenants;
+      for (const data of Object.values(this.store.tenants)) {
+        if (migrate(data)) migrated = true;
+      }
+      if (migrated) {
+        this.persist();
+      }
+    } else {
+      this.store = initialStore();
+      this.persist();
+    }
   }
 
   public static getInstance(): MockDB {
     if (!MockDB.instance) {
-      MockDB.instance = new MockDB();
+      MockDB.instance = new MockDB(createStorageAdapter());
     }
     return MockDB.instance;
   }
 
-  // Reset data (useful for testing)
+  /**
+   * Snapshots written before organizations existed hold a single data set,
+   * which becomes the default organization's
+   */
+  private static hydrateStore(stored: Partial<MockDataStore & MockDatabase>): MockDataStore {
+    if (!stored.tenants) {
+      const data = MockDB.hydrate(stored);
+      return {
+        organizations: [defaultOrganization(data.settings?.companyName)],
+        tenants: { [DEFAULT_ORGANIZATION_ID]: data },
+      };
+    }
+    const tenants: Record<string, MockDatabase> = {};
+    for (const [organizationId, data] of Object.entries(stored.tenants)) {
+      tenants[organizationId] = MockDB.hydrate(data);
+    }
+    return { organizations: [...(stored.organizations ?? [])], tenants };
+  }
+
+  /**
+   * Fill in collections that are missing from a data set written by an older version
+   */
+  private static hydrate(stored: Partial<MockDatabase>): MockDatabase {
+    const data = {
+      schemaVersion: stored.schemaVersion ?? 0,
+      sequences: { ...stored.sequences },
+      // Missing before schema version 9; the migration fills it in
+      settings: stored.settings,
+    } as MockDatabase;
+    for (const key of Object.keys(INITIAL_DATA) as (keyof MockDatabase)[]) {
+      if (key === 'schemaVersion' || key === 'sequences' || key === 'settings') continue;
+      (data[key] as unknown[]) = Array.isArray(stored[key]) ? [...(stored[key] as unknown[])] : [];
+    }
+    for (const key of VERSIONED_COLLECTIONS) {
+      data[key] = (data[key] as Versioned[]).map((record) => ({ ...record, version: record.version ?? 1 })) as never;
+    }
+    return data;
+  }
+
+  /**
+   * Data set of the organization selected for the current request. There is
+   * deliberately no fallback: a request that has not resolved its caller's
+   * organization must not reach any tenant's data.
+   */
+  private get data(): MockDatabase {
+    const organizationId = getRequestOrganization();
+    if (!organizationId) {
+      throw new Error('No organization selected for this request');
+    }
+    const data = this.store.tenants[organizationId];
+    if (!data) {
+      throw new Error(`Unknown organization "${organizationId}"`);
+    }
+    return data;
+  }
+
+  /**
+   * Hand every organization's data to the storage adapter.
+   * Inside a transaction nothing is written until the outermost commit.
+   */
+  private persist(): void {
+    if (this.transactionDepth > 0) return;
+    this.storage.save(this.store);
+  }
+
+  /**
+   * Reject a write when the caller based it on an older version of the record
+   */
+  private assertVersion(entity: string, record: Versioned & { id: string }, expectedVersion?: number): void {
+    if (expectedVersion !== undefined && record.version !== expectedVersion) {
+      throw new VersionConflictError(entity, record.id, expectedVersion, record.version);
+    }
+  }
+
+  /**
+   * Append an audit entry for a mutation, attributed to the current request's actor.
+   * Entries live in the same data set, so a rolled back transaction drops them too.
+   */
+  private recordAudit(
+    action: AuditAction,
+    entityType: AuditEntityType,
+    entityId: string,
+    before?: object,
+    after?: object
+  ): void {
+    const changes = diffFields(before, after);
+    if (action === 'update' && changes.length === 0) return;
+
+    this.data.auditLog.push({
+      id: this.generateId('auditLog'),
+      timestamp: new Date().toISOString(),
+      actor: getRequestActor(),
+      action,
+      entityType,
+      entityId,
+      changes,
+    });
+  }
+
+  /**
+   * Refuse a write whose foreign keys point at parents that do not exist.
+   * Pass the fields being written: a whole new record, or an update's changes.
+   */
+  private assertParentsExist(collection: CollectionName, fields: object): void {
+    for (const relation of RELATIONS.filter((r) => r.child === collection)) {
+      const [field, nested] = relation.foreignKey.split('.');
+      const value = (fields as Record<string, unknown>)[field];
+      const keys = nested ? (Array.isArray(value) ? value.map((entry) => entry?.[nested]) : []) : [value];
+      const parents = this.data[relation.parent] as unknown as AnyRecord[];
+      const missing = keys.find(
+        (key) => key !== undefined && key !== null && !parents.some((p) => p[relation.parentKey] === key)
+      );
+      if (missing !== undefined) {
+        throw new MissingReferenceError(ENTITY_TYPES[collection], relation.foreignKey, ENTITY_TYPES[relation.parent], missing);
+      }
+    }
+  }
+
+  /**
+   * Dependents of a record through one relation
+   */
+  private findDependents(relation: Relation, record: AnyRecord): AnyRecord[] {
+    const key = record[relation.parentKey];
+    const children = this.data[relation.child] as unknown as AnyRecord[];
+    return children.filter((child) => referencesKey(child, relation.foreignKey, key));
+  }
+
+  /**
+   * Walk the cascade tree below a record and collect every dependent that
+   * would block its deletion
+   */
+  private collectBlockers(collection: CollectionName, record: AnyRecord, visited = new Set<string>()): DependentRecord[] {
+    const visitKey = `${collection}:${record.id}`;
+    if (visited.has(visitKey)) return [];
+    visited.add(visitKey);
+
+    const blockers: DependentRecord[] = [];
+    for (const relation of RELATIONS.filter((r) => r.parent === collection)) {
+      for (const dependent of this.findDependents(relation, record)) {
+        if (relation.onDelete === 'restrict') {
+          blockers.push({ entityType: ENTITY_TYPES[relation.child], id: dependent.id, field: relation.foreignKey });
+        } else if (relation.onDelete === 'cascade') {
+          blockers.push(...this.collectBlockers(relation.child, dependent, visited));
+        }
+      }
+    }
+    return blockers;
+  }
+
+  /**
+   * Delete a record applying the declared relations: refuse on restrict,
+   * then cascade and nullify dependents. Call inside a transaction.
+   */
+  private deleteRecord(collection: CollectionName, id: string): void {
+    const records = this.data[collection] as unknown as AnyRecord[];
+    const record = records.find((r) => r.id === id);
+    if (!record) return;
+
+    const blockers = this.collectBlockers(collection, record);
+    if (blockers.length > 0) {
+      throw new ReferentialIntegrityError(ENTITY_TYPES[collection], id, blockers);
+    }
+
+    for (const relation of RELATIONS.filter((r) => r.parent === collection)) {
+      for (const dependent of this.findDependents(relation, record)) {
+        if (relation.onDelete === 'cascade') {
+          this.deleteRecord(relation.child, dependent.id);
+        } else if (relation.onDelete === 'nullify') {
+          const children = this.data[relation.child] as unknown as AnyRecord[];
+          const index = children.indexOf(dependent);
+          const updated: AnyRecord = { ...dependent, [relation.foreignKey]: undefined };
+          if (typeof dependent.version === 'number') {
+            updated.version = dependent.version + 1;
+          }
+          children[index] = updated;
+          this.recordAudit('update', ENTITY_TYPES[relation.child], dependent.id, dependent, updated);
+        }
+      }
+    }
+
+    const current = this.data[collection] as unknown as AnyRecord[];
+    current.splice(current.indexOf(record), 1);
+    this.recordAudit('delete', ENTITY_TYPES[collection], id, record, undefined);
+  }
+
+  // ============================================================================
+  // TRANSACTIONS (UNIT OF WORK)
+  // ============================================================================
+
+  /**
+   * Start a unit of work. Nested calls join the transaction that is already open.
+   */
+  beginTransaction(): void {
+    if (this.transactionDepth === 0) {
+      this.transactionSnapshot = JSON.stringify(this.store);
+    }
+    this.transactionDepth++;
+  }
+
+  /**
+   * Commit the current unit of work. Data is persisted once the outermost
+   * transaction commits.
+   */
+  commit(): void {
+    if (this.transactionDepth === 0) {
+      throw new Error('commit() called without an open transaction');
+    }
+    this.transactionDepth--;
+    if (this.transactionDepth === 0) {
+      this.transactionSnapshot = null;
+      this.persist();
+    }
+  }
+
+  /**
+   * Discard every change made since the outermost transaction began.
+   * Safe to call when no transaction is open.
+   */
+  rollback(): void {
+    if (this.transactionSnapshot !== null) {
+      this.store = JSON.parse(this.transactionSnapshot);
+    }
+    this.transactionSnapshot = null;
+    this.transactionDepth = 0;
+  }
+
+  isInTransaction(): boolean {
+    return this.transactionDepth > 0;
+  }
+
+  /**
+   * Run a synchronous unit of work: commit if it returns, roll back and
+   * rethrow if it throws, so multi-entity writes either fully apply or not at all.
+   */
+  transaction<T>(work: (db: MockDB) => T): T {
+    this.beginTransaction();
+    let result: T;
+    try {
+      result = work(this);
+      if (result instanceof Promise) {
+        throw new Error('transaction() work must be synchronous');
+      }
+    } catch (error) {
+      this.rollback();
+      throw error;
+    }
+    this.commit();
+    return result;
+  }
+
+  // ============================================================================
+  // IDS & DOCUMENT NUMBERS
+  // ============================================================================
+
+  /**
+   * New prefixed, time-sortable ID (see ./ids) that no record of the type uses yet
+   */
+  generateId(type: IdType): string {
+    const records = (
+      type === 'organizations'
+        ? this.store.organizations
+        : type === 'orderLines'
+          ? this.data.orders.flatMap((o) => o.items ?? [])
+          : this.data[type]
+    ) as { id: string }[];
+    let id = createId(type);
+    while (records.some((r) => r.id === id)) {
+      id = createId(type);
+    }
+    return id;
+  }
+
+  /**
+   * Issue the next human-readable document number (e.g. "EX-2026-0001").
+   * Numbers already present in the store are skipped, so imported or
+   * hand-edited records can never be duplicated. Inside a transaction the
+   * number is released again on rollback.
+   */
+  nextDocumentNumber(type: DocumentType, date: Date = new Date()): string {
+    const format = getDocumentNumberFormat(type);
+    const key = sequenceKey(type, format, date);
+
+    let sequence = (this.data.sequences[key] ?? 0) + 1;
+    let number = formatDocumentNumber(format, sequence, date);
+    while (this.isDocumentNumberTaken(type, number)) {
+      sequence++;
+      number = formatDocumentNumber(format, sequence, date);
+    }
+
+    this.data.sequences[key] = sequence;
+    this.persist();
+    return number;
+  }
+
+  private isDocumentNumberTaken(type: DocumentType, number: string): boolean {
+    switch (type) {
+      case 'exhibition':
+        return this.data.exhibitions.some((e) => e.exhibitionId === number);
+      case 'order':
+        return this.data.orders.some((o) => o.orderNumber === number);
+    }
+  }
+
+  // Name of the active storage adapter (e.g. 'memory', 'json')
+  public getStorageName(): string {
+    return this.storage.name;
+  }
+
+  // Reset data of every organization (useful for testing)
   public reset(): void {
-    this.data = JSON.parse(JSON.stringify(INITIAL_DATA));
+    this.store = initialStore();
+    this.persist();
+  }
+
+  // ============================================================================
+  // ORGANIZATIONS (TENANTS)
+  // ============================================================================
+
+  getOrganizations() {
+    return [...this.store.organizations];
+  }
+
+  getOrganizationById(id: string) {
+    return this.store.organizations.find((o) => o.id === id);
+  }
+
+  getOrganizationBySlug(slug: string) {
+    return this.store.organizations.find((o) => o.slug === slug);
+  }
+
+  /**
+   * Register an organization with the data set it starts with (see
+   * seedOrganizationData). The creation is audited in the current organization.
+   */
+  addOrganization(organization: NewRecord<Organization>, data: MockDatabase) {
+    const created: Organization = { ...organization, version: 1 };
+    this.store.organizations.push(created);
+    this.store.tenants[created.id] = data;
+    this.recordAudit('create', 'Organization', created.id, undefined, created);
+    this.persist();
+    return created;
+  }
+
+  // ============================================================================
+  // DIRECTORY (LOOKUPS ACROSS ORGANIZATIONS)
+  // ============================================================================
+  // Credentials identify the caller before an organization is selected; these
+  // lookups tell which organization the caller belongs to. Usernames are
+  // unique across organizations so signing in needs nothing but the username.
+
+  private locate<T>(find: (data: MockDatabase) => T | undefined): Located<T> | undefined {
+    for (const [organizationId, data] of Object.entries(this.store.tenants)) {
+      const record = find(data);
+      if (record) return { organizationId, record };
+    }
+    return undefined;
+  }
+
+  locateUser(id: string) {
+    return this.locate((data) => data.users.find((u) => u.id === id));
+  }
+
+  locateUserByUsername(username: string) {
+    return this.locate((data) => data.users.find((u) => u.username === username));
+  }
+
+  locateApiKeyByTokenHash(tokenHash: string) {
+    return this.locate((data) => data.apiKeys.find((k) => k.tokenHash === tokenHash));
+  }
+
+  locateInvitationByTokenHash(tokenHash: string) {
+    return this.locate((data) => data.supplierInvitations.find((i) => i.tokenHash === tokenHash));
+  }
+
+  // ============================================================================
+  // SETTINGS
+  // ============================================================================
+
+  getSettings() {
+    return this.data.settings;
+  }
+
+  updateSettings(updates: Partial<Omit<Settings, 'version' | 'updatedAt'>>, expectedVersion?: number) {
+    const current = this.data.settings;
+    this.assertVersion('Settings', { id: SETTINGS_ID, version: current.version }, expectedVersion);
+    this.data.settings = {
+      ...current,
+      ...updates,
+      version: current.version + 1,
+      updatedAt: new Date().toISOString(),
+    };
+    this.recordAudit('update', 'Settings', SETTINGS_ID, current, this.data.settings);
+    this.persist();
+    return this.data.settings;
   }
 
   // ============================================================================
@@ -427,6 +1539,164 @@ export class MockDB {
     return this.data.users.find((u) => u.username === username);
   }
 
+  addUser(user: NewRecord<User>) {
+    const created: User = { ...user, version: 1 };
+    this.data.users.push(created);
+    this.recordAudit('create', 'User', created.id, undefined, created);
+    this.persist();
+    return created;
+  }
+
+  updateUser(id: string, updates: Partial<User>, expectedVersion?: number) {
+    const index = this.data.users.findIndex((u) => u.id === id);
+    if (index === -1) return null;
+    const current = this.data.users[index];
+    this.assertVersion('User', current, expectedVersion);
+    this.data.users[index] = { ...current, ...updates, version: current.version + 1 };
+    this.recordAudit('update', 'User', id, current, this.data.users[index]);
+    this.persist();
+    return this.data.users[index];
+  }
+
+  deleteUser(id: string, expectedVersion?: number) {
+    const index = this.data.users.findIndex((u) => u.id === id);
+    if (index === -1) return false;
+    this.assertVersion('User', this.data.users[index], expectedVersion);
+    this.transaction(() => this.deleteRecord('users', id));
+    return true;
+  }
+
+  // ============================================================================
+  // ROLES & PERMISSIONS
+  // ============================================================================
+
+  getRoles() {
+    return [...this.data.roles];
+  }
+
+  getRoleById(id: string) {
+    return this.data.roles.find((r) => r.id === id);
+  }
+
+  getRoleByName(name: string) {
+    return this.data.roles.find((r) => r.name === name);
+  }
+
+  addRole(role: NewRecord<Role>) {
+    const created: Role = { ...role, version: 1 };
+    this.data.roles.push(created);
+    this.recordAudit('create', 'Role', created.id, undefined, created);
+    this.persist();
+    return created;
+  }
+
+  updateRole(id: string, updates: Partial<Pick<Role, 'description' | 'permissions'>>, expectedVersion?: number) {
+    const index = this.data.roles.findIndex((r) => r.id === id);
+    if (index === -1) return null;
+    const current = this.data.roles[index];
+    this.assertVersion('Role', current, expectedVersion);
+    this.data.roles[index] = { ...current, ...updates, version: current.version + 1 };
+    this.recordAudit('update', 'Role', id, current, this.data.roles[index]);
+    this.persist();
+    return this.data.roles[index];
+  }
+
+  // Refused (ReferentialIntegrityError) while users still have the role
+  deleteRole(id: string, expectedVersion?: number) {
+    const index = this.data.roles.findIndex((r) => r.id === id);
+    if (index === -1) return false;
+    this.assertVersion('Role', this.data.roles[index], expectedVersion);
+    this.transaction(() => this.deleteRecord('roles', id));
+    return true;
+  }
+
+  // ============================================================================
+  // API KEYS
+  // ============================================================================
+
+  getApiKeys() {
+    return [...this.data.apiKeys];
+  }
+
+  getApiKeyById(id: string) {
+    return this.data.apiKeys.find((k) => k.id === id);
+  }
+
+  addApiKey(apiKey: ApiKey) {
+    this.data.apiKeys.push(apiKey);
+    this.recordAudit('create', 'ApiKey', apiKey.id, undefined, apiKey);
+    this.persist();
+    return apiKey;
+  }
+
+  revokeApiKey(id: string, revokedAt: string = new Date().toISOString()) {
+    const index = this.data.apiKeys.findIndex((k) => k.id === id);
+    if (index === -1) return null;
+    const current = this.data.apiKeys[index];
+    this.data.apiKeys[index] = { ...current, revokedAt };
+    this.recordAudit('update', 'ApiKey', id, current, this.data.apiKeys[index]);
+    this.persist();
+    return this.data.apiKeys[index];
+  }
+
+  /**
+   * Note that a key was used. Not audited, and written to storage at most once
+   * a minute per key so busy integrations do not rewrite the store on every call.
+   */
+  recordApiKeyUse(id: string, usedAt: Date = new Date()) {
+    const apiKey = this.data.apiKeys.find((k) => k.id === id);
+    if (!apiKey) return;
+    const previous = apiKey.lastUsedAt ? Date.parse(apiKey.lastUsedAt) : 0;
+    apiKey.lastUsedAt = usedAt.toISOString();
+    if (usedAt.getTime() - previous >= API_KEY_USE_PERSIST_INTERVAL_MS) {
+      this.persist();
+    }
+  }
+
+  // ============================================================================
+  // SUPPLIERS
+  // ============================================================================
+
+  getSuppliers() {
+    return [...this.data.suppliers];
+  }
+
+  getSupplierById(id: string) {
+    return this.data.suppliers.find((s) => s.id === id);
+  }
+
+  getSupplierByTaxId(taxId: string) {
+    return this.data.suppliers.find((s) => s.taxId === taxId);
+  }
+
+  addSupplier(supplier: NewRecord<Supplier>) {
+    const created: Supplier = { ...supplier, version: 1 };
+    this.data.suppliers.push(created);
+    this.recordAudit('create', 'Supplier', created.id, undefined, created);
+    this.persist();
+    return created;
+  }
+
+  updateSupplier(id: string, updates: Partial<Supplier>, expectedVersion?: number) {
+    const index = this.data.suppliers.findIndex((s) => s.id === id);
+    if (index === -1) return null;
+    const current = this.data.suppliers[index];
+    this.assertVersion('Supplier', current, expectedVersion);
+    this.data.suppliers[index] = { ...current, ...updates, version: current.version + 1 };
+    this.recordAudit('update', 'Supplier', id, current, this.data.suppliers[index]);
+    this.persist();
+    return this.data.suppliers[index];
+  }
+
+  // Refused (ReferentialIntegrityError) while users or product lists reference the supplier
+  deleteSupplier(id: string, expectedVersion?: number) {
+    const index = this.data.suppliers.findIndex((s) => s.id === id);
+    if (index === -1) return false;
+    this.assertVersion('Supplier', this.data.suppliers[index], expectedVersion);
+    this.transaction(() => this.deleteRecord('suppliers', id));
+    return true;
+  }
+
   // ============================================================================
   // INGREDIENTS
   // ============================================================================
@@ -441,13 +1711,18 @@ export class MockDB {
 
   addIngredient(ingredient: Ingredient) {
     this.data.ingredients.push(ingredient);
+    this.recordAudit('create', 'Ingredient', ingredient.id, undefined, ingredient);
+    this.persist();
     return ingredient;
   }
 
   updateIngredient(id: string, updates: Partial<Ingredient>) {
     const index = this.data.ingredients.findIndex((i) => i.id === id);
     if (index === -1) return null;
-    this.data.ingredients[index] = { ...this.data.ingredients[index], ...updates };
+    const current = this.data.ingredients[index];
+    this.data.ingredients[index] = { ...current, ...updates };
+    this.recordAudit('update', 'Ingredient', id, current, this.data.ingredients[index]);
+    this.persist();
     return this.data.ingredients[index];
   }
 
@@ -465,6 +1740,8 @@ export class MockDB {
 
   addPackaging(packaging: PackagingUnit) {
     this.data.packaging.push(packaging);
+    this.recordAudit('create', 'PackagingUnit', packaging.id, undefined, packaging);
+    this.persist();
     return packaging;
   }
 
@@ -480,22 +1757,38 @@ export class MockDB {
     return this.data.products.find((p) => p.id === id);
   }
 
-  addProduct(product: Product) {
-    this.data.products.push(product);
-    return product;
+  getProductBySku(sku: string) {
+    return this.data.products.find((p) => p.sku === sku);
   }
 
-  updateProduct(id: string, updates: Partial<Product>) {
+  addProduct(product: NewRecord<Product>) {
+    const created: Product = { ...product, version: 1 };
+    this.data.products.push(created);
+    this.recordAudit('create', 'Product', created.id, undefined, created);
+    this.persist();
+    return created;
+  }
+
+  /**
+   * Pass expectedVersion to reject the write with a VersionConflictError when
+   * the record changed since the caller read it
+   */
+  updateProduct(id: string, updates: Partial<Product>, expectedVersion?: number) {
     const index = this.data.products.findIndex((p) => p.id === id);
     if (index === -1) return null;
-    this.data.products[index] = { ...this.data.products[index], ...updates };
+    const current = this.data.products[index];
+    this.assertVersion('Product', current, expectedVersion);
+    this.data.products[index] = { ...current, ...updates, version: current.version + 1 };
+    this.recordAudit('update', 'Product', id, current, this.data.products[index]);
+    this.persist();
     return this.data.products[index];
   }
 
-  deleteProduct(id: string) {
+  deleteProduct(id: string, expectedVersion?: number) {
     const index = this.data.products.findIndex((p) => p.id === id);
     if (index === -1) return false;
-    this.data.products.splice(index, 1);
+    this.assertVersion('Product', this.data.products[index], expectedVersion);
+    this.transaction(() => this.deleteRecord('products', id));
     return true;
   }
 
@@ -515,18 +1808,132 @@ export class MockDB {
     return this.data.exhibitions.find((e) => e.exhibitionId === exhibitionId);
   }
 
-  addExhibition(exhibition: Exhibition) {
-    this.data.exhibitions.push(exhibition);
-    return exhibition;
+  /**
+   * Look up an exhibition by its id or its human-readable code
+   */
+  findExhibition(ref: string) {
+    return this.getExhibitionById(ref) ?? this.getExhibitionByExhibitionId(ref);
+  }
+
+  /**
+   * Canonical foreign key (Exhibition.id) for an id or code, undefined when unknown
+   */
+  resolveExhibitionId(ref: string) {
+    return this.findExhibition(ref)?.id;
+  }
+
+  addExhibition(exhibition: NewRecord<Exhibition>) {
+    const created: Exhibition = { ...exhibition, version: 1 };
+    this.data.exhibitions.push(created);
+    this.recordAudit('create', 'Exhibition', created.id, undefined, created);
+    this.persist();
+    return created;
   }
 
-  updateExhibition(id: string, updates: Partial<Exhibition>) {
-    const index = this.data.exhibitions.findIndex((e) => e.id === id);
+  /**
+   * Pass expectedVersion to reject the write with a VersionConflictError when
+   * the record changed since the caller read it
+   */
+  updateExhibition(ref: string, updates: Partial<Exhibition>, expectedVersion?: number) {
+    const index = this.data.exhibitions.findIndex((e) => e.id === ref || e.exhibitionId === ref);
     if (index === -1) return null;
-    this.data.exhibitions[index] = { ...this.data.exhibitions[index], ...updates };
+    const current = this.data.exhibitions[index];
+    this.assertVersion('Exhibition', current, expectedVersion);
+    this.data.exhibitions[index] = { ...current, ...updates, id: current.id, version: current.version + 1 };
+    this.recordAudit('update', 'Exhibition', current.id, current, this.data.exhibitions[index]);
+    this.persist();
     return this.data.exhibitions[index];
   }
 
+  /**
+   * Deletes the exhibition with its exhibition products; refused while product lists exist
+   */
+  deleteExhibition(ref: string, expectedVersion?: number) {
+    const exhibition = this.findExhibition(ref);
+    if (!exhibition) return false;
+    this.assertVersion('Exhibition', exhibition, expectedVersion);
+    this.transaction(() => this.deleteRecord('exhibitions', exhibition.id));
+    return true;
+  }
+
+  // ============================================================================
+  // EXHIBITION MEMBERS
+  // ============================================================================
+
+  getExhibitionMembers(exhibitionId: string) {
+    return this.data.exhibitionMembers.filter((m) => m.exhibitionId === exhibitionId);
+  }
+
+  getExhibitionMember(exhibitionId: string, userId: string) {
+    return this.data.exhibitionMembers.find((m) => m.exhibitionId === exhibitionId && m.userId === userId);
+  }
+
+  getMembershipsByUserId(userId: string) {
+    return this.data.exhibitionMembers.filter((m) => m.userId === userId);
+  }
+
+  addExhibitionMember(member: ExhibitionMember) {
+    this.data.exhibitionMembers.push(member);
+    this.recordAudit('create', 'ExhibitionMember', member.id, undefined, member);
+    this.persist();
+    return member;
+  }
+
+  updateExhibitionMember(id: string, updates: Partial<Pick<ExhibitionMember, 'role'>>) {
+    const index = this.data.exhibitionMembers.findIndex((m) => m.id === id);
+    if (index === -1) return null;
+    const current = this.data.exhibitionMembers[index];
+    this.data.exhibitionMembers[index] = { ...current, ...updates };
+    this.recordAudit('update', 'ExhibitionMember', id, current, this.data.exhibitionMembers[index]);
+    this.persist();
+    return this.data.exhibitionMembers[index];
+  }
+
+  removeExhibitionMember(id: string) {
+    if (!this.data.exhibitionMembers.some((m) => m.id === id)) return false;
+    this.transaction(() => this.deleteRecord('exhibitionMembers', id));
+    return true;
+  }
+
+  // ============================================================================
+  // SUPPLIER INVITATIONS
+  // ============================================================================
+
+  getInvitationsByExhibitionId(exhibitionId: string) {
+    return this.data.supplierInvitations.filter((i) => i.exhibitionId === exhibitionId);
+  }
+
+  getInvitationById(id: string) {
+    return this.data.supplierInvitations.find((i) => i.id === id);
+  }
+
+  getSupplierInvitation(exhibitionId: string, supplierId: string) {
+    return this.data.supplierInvitations.find((i) => i.exhibitionId === exhibitionId && i.supplierId === supplierId);
+  }
+
+  addSupplierInvitation(invitation: SupplierInvitation) {
+    this.data.supplierInvitations.push(invitation);
+    this.recordAudit('create', 'SupplierInvitation', invitation.id, undefined, invitation);
+    this.persist();
+    return invitation;
+  }
+
+  updateSupplierInvitation(id: string, updates: Partial<Pick<SupplierInvitation, 'acceptedAt' | 'acceptedBy'>>) {
+    const index = this.data.supplierInvitations.findIndex((i) => i.id === id);
+    if (index === -1) return null;
+    const current = this.data.supplierInvitations[index];
+    this.data.supplierInvitations[index] = { ...current, ...updates };
+    this.recordAudit('update', 'SupplierInvitation', id, current, this.data.supplierInvitations[index]);
+    this.persist();
+    return this.data.supplierInvitations[index];
+  }
+
+  removeSupplierInvitation(id: string) {
+    if (!this.data.supplierInvitations.some((i) => i.id === id)) return false;
+    this.transaction(() => this.deleteRecord('supplierInvitations', id));
+    return true;
+  }
+
   // ============================================================================
   // EXHIBITION PRODUCTS
   // ============================================================================
@@ -539,19 +1946,27 @@ export class MockDB {
     return this.data.exhibitionProducts.find((ep) => ep.id === id);
   }
 
-  getExhibitionProductsByExhibitionId(exhibitionId: string) {
+  getExhibitionProductsByExhibitionId(exhibitionRef: string) {
+    const exhibitionId = this.resolveExhibitionId(exhibitionRef);
     return this.data.exhibitionProducts.filter((ep) => ep.exhibitionId === exhibitionId);
   }
 
   addExhibitionProduct(exhibitionProduct: ExhibitionProduct) {
+    this.assertParentsExist('exhibitionProducts', exhibitionProduct);
     this.data.exhibitionProducts.push(exhibitionProduct);
+    this.recordAudit('create', 'ExhibitionProduct', exhibitionProduct.id, undefined, exhibitionProduct);
+    this.persist();
     return exhibitionProduct;
   }
 
   updateExhibitionProduct(id: string, updates: Partial<ExhibitionProduct>) {
     const index = this.data.exhibitionProducts.findIndex((ep) => ep.id === id);
     if (index === -1) return null;
-    this.data.exhibitionProducts[index] = { ...this.data.exhibitionProducts[index], ...updates };
+    const current = this.data.exhibitionProducts[index];
+    this.assertParentsExist('exhibitionProducts', updates);
+    this.data.exhibitionProducts[index] = { ...current, ...updates };
+    this.recordAudit('update', 'ExhibitionProduct', id, current, this.data.exhibitionProducts[index]);
+    this.persist();
     return this.data.exhibitionProducts[index];
   }
 
@@ -567,18 +1982,185 @@ export class MockDB {
     return this.data.orders.find((o) => o.id === id);
   }
 
-  addOrder(order: Order) {
-    this.data.orders.push(order);
-    return order;
+  /**
+   * The order holding a product list's lines, unless it was cancelled
+   */
+  getOrderByProductListId(productListId: string) {
+    return this.data.orders.find((o) => o.status !== 'CANCELLED' && o.productListIds?.includes(productListId));
+  }
+
+  addOrder(order: NewOrder) {
+    // Orders are created as drafts; everything after that is a transition
+    const created: Order = { ...order, status: 'DRAFT', statusHistory: [], version: 1 };
+    this.assertParentsExist('orders', created);
+    this.data.orders.push(created);
+    this.recordAudit('create', 'Order', created.id, undefined, created);
+    this.persist();
+    return created;
   }
 
-  updateOrder(id: string, updates: Partial<Order>) {
+  /**
+   * Pass expectedVersion to reject the write with a VersionConflictError when
+   * the record changed since the caller read it
+   */
+  updateOrder(id: string, updates: Partial<Omit<Order, 'status' | 'statusHistory'>>, expectedVersion?: number) {
     const index = this.data.orders.findIndex((o) => o.id === id);
     if (index === -1) return null;
-    this.data.orders[index] = { ...this.data.orders[index], ...updates };
+    const current = this.data.orders[index];
+    this.assertVersion('Order', current, expectedVersion);
+    this.assertParentsExist('orders', updates);
+    this.data.orders[index] = { ...current, ...updates, version: current.version + 1 };
+    this.recordAudit('update', 'Order', id, current, this.data.orders[index]);
+    this.persist();
     return this.data.orders[index];
   }
 
+  /**
+   * Fields of the order once its lines are replaced by the given ones, for
+   * addOrder (POST /api/orders, with no lines yet) and updateOrder (drafts
+   * only, see PUT /api/orders/[id]). A line naming the id of an existing line
+   * keeps where it came from and its price; a new line without a price takes
+   * the price its product was approved at for the exhibition. Totals and the
+   * linked product lists follow the new lines.
+   */
+  orderLineChanges(
+    order: Pick<Order, 'exhibitionId' | 'items' | 'productListIds'>,
+    lines: OrderLineInput[]
+  ): Pick<Order, 'quantity' | 'orderValue' | 'unit' | 'items' | 'productListIds'> {
+    const approved = order.exhibitionId ? this.getApprovedExhibitionProducts(order.exhibitionId) : [];
+    const items: OrderLine[] = lines.map(({ id: lineId, ...line }) => {
+      const previous = order.items?.find((item) => item.id === lineId);
+      return {
+        ...(previous && { productListId: previous.productListId, supplierId: previous.supplierId }),
+        ...line,
+        price: line.price ?? (previous ? previous.price : approved.find((ep) => ep.productId === line.productId)?.price),
+        id: previous?.id ?? this.generateId('orderLines'),
+      };
+    });
+    const productListIds = (order.productListIds ?? []).filter((listId) =>
+      items.some((item) => item.productListId === listId)
+    );
+    return { ...this.totalsOf(items), items, productListIds };
+  }
+
+  /**
+   * Take a workflow transition, the only way an order's status changes.
+   * Throws InvalidOrderTransitionError unless the transition starts from the
+   * order's current status; records when, by whom and why it was taken.
+   * Reserving, consuming or releasing the order's stock is part of the same write.
+   */
+  transitionOrder(id: string, transition: OrderTransition, input: OrderTransitionInput = {}, expectedVersion?: number) {
+    const index = this.data.orders.findIndex((o) => o.id === id);
+    if (index === -1) return null;
+    const current = this.data.orders[index];
+    this.assertVersion('Order', current, expectedVersion);
+
+    const rule = ORDER_WORKFLOW[transition];
+    if (!rule.from.includes(current.status)) {
+      throw new InvalidOrderTransitionError(id, current.status, transition);
+    }
+
+    const change: OrderStatusChange = {
+      transition,
+      from: current.status,
+      to: rule.to,
+      at: new Date().toISOString(),
+      by: getRequestActor(),
+      ...(input.reason && { reason: input.reason }),
+    };
+    return this.transaction(() => {
+      const updated: Order = {
+        ...current,
+        ...(input.expectedDelivery && { expectedDelivery: input.expectedDelivery }),
+        ...(rule.records && current.items && { items: recordLineQuantities(current.items, rule.records, input.lines) }),
+        status: rule.to,
+        statusHistory: [...(current.statusHistory ?? []), change],
+        version: current.version + 1,
+      };
+      this.data.orders[index] = updated;
+      this.recordAudit('update', 'Order', id, current, updated);
+
+      switch (rule.stock) {
+        case 'reserve':
+          this.reserveStock(updated);
+          break;
+        case 'consume':
+          this.consumeStock(updated);
+          break;
+        case 'release':
+          this.releaseStock(updated.id, 'cancelled');
+          break;
+      }
+      this.persist();
+      return updated;
+    });
+  }
+
+  // ============================================================================
+  // RESERVATIONS (see ./reservations)
+  // ============================================================================
+
+  getReservations() {
+    return [...this.data.reservations];
+  }
+
+  getReservationsByOrderId(orderId: string) {
+    return this.data.reservations.filter((r) => r.orderId === orderId);
+  }
+
+  /**
+   * Stock of a product on hand, reserved for confirmed orders and left over
+   */
+  getStockAllocation(productId: string): StockAllocation {
+    const quantity = this.getProductById(productId)?.quantity ?? 0;
+    const allocated = this.data.reservations
+      .filter((r) => r.productId === productId && isHeld(r))
+      .reduce((sum, r) => sum + r.quantity, 0);
+    return { productId, quantity, allocated, available: quantity - allocated };
+  }
+
+  // Hold the stock of every line; what was not available is recorded as the shortfall
+  private reserveStock(order: Order) {
+    const createdAt = new Date().toISOString();
+    for (const line of order.items ?? []) {
+      const available = Math.max(0, this.getStockAllocation(line.productId).available);
+      const reservation: Reservation = {
+        id: this.generateId('reservations'),
+        productId: line.productId,
+        orderId: order.id,
+        orderLineId: line.id,
+        quantity: line.quantity,
+        shortfall: Math.max(0, line.quantity - available),
+        createdAt,
+      };
+      this.data.reservations.push(reservation);
+      this.recordAudit('create', 'Reservation', reservation.id, undefined, reservation);
+    }
+  }
+
+  // The shipped quantities leave the stock on hand and the reservations end
+  private consumeStock(order: Order) {
+    for (const line of order.items ?? []) {
+      const product = this.getProductById(line.productId);
+      const shipped = line.shippedQuantity ?? line.quantity;
+      if (product && shipped > 0) {
+        const quantity = Math.max(0, product.quantity - shipped);
+        this.updateProduct(product.id, { quantity, availability: stockAvailability(quantity, product.thresholdValue) });
+      }
+    }
+    this.releaseStock(order.id, 'shipped');
+  }
+
+  private releaseStock(orderId: string, reason: NonNullable<Reservation['releaseReason']>) {
+    const releasedAt = new Date().toISOString();
+    this.data.reservations = this.data.reservations.map((reservation) => {
+      if (reservation.orderId !== orderId || !isHeld(reservation)) return reservation;
+      const released = { ...reservation, releasedAt, releaseReason: reason };
+      this.recordAudit('update', 'Reservation', reservation.id, reservation, released);
+      return released;
+    });
+  }
+
   // ============================================================================
   // PRODUCT LISTS
   // ============================================================================
@@ -591,22 +2173,47 @@ export class MockDB {
     return this.data.productLists.find((pl) => pl.id === id);
   }
 
-  getProductListsByExhibitionId(exhibitionId: string) {
+  getProductListsByExhibitionId(exhibitionRef: string) {
+    const exhibitionId = this.resolveExhibitionId(exhibitionRef);
     return this.data.productLists.filter((pl) => pl.exhibitionId === exhibitionId);
   }
 
-  addProductList(productList: ProductList) {
-    this.data.productLists.push(productList);
-    return productList;
+  addProductList(productList: NewRecord<ProductList>) {
+    const created: ProductList = { ...productList, version: 1 };
+    this.assertParentsExist('productLists', created);
+    this.data.productLists.push(created);
+    this.recordAudit('create', 'ProductList', created.id, undefined, created);
+    this.persist();
+    return created;
   }
 
-  updateProductList(id: string, updates: Partial<ProductList>) {
+  /**
+   * Pass expectedVersion to reject the write with a VersionConflictError when
+   * the record changed since the caller read it
+   */
+  updateProductList(id: string, updates: Partial<ProductList>, expectedVersion?: number) {
     const index = this.data.productLists.findIndex((pl) => pl.id === id);
     if (index === -1) return null;
-    this.data.productLists[index] = { ...this.data.productLists[index], ...updates };
+    const current = this.data.productLists[index];
+    this.assertVersion('ProductList', current, expectedVersion);
+    this.assertParentsExist('productLists', updates);
+    this.data.productLists[index] = { ...current, ...updates, version: current.version + 1 };
+    this.recordAudit('update', 'ProductList', id, current, this.data.productLists[index]);
+    this.persist();
     return this.data.productLists[index];
   }
 
+  /**
+   * Deletes the product list together with its items
+   */
+  deleteProductList(id: string, expectedVersion?: number) {
+    const productList = this.getProductListById(id);
+    if (!productList) return false;
+    this.assertVersion('ProductList', productList, expectedVersion);
+    this.transaction(() => this.deleteRecord('productLists', id));
+    return true;
+  }
+
   // ============================================================================
   // PRODUCT LIST ITEMS
   // ============================================================================
@@ -620,14 +2227,165 @@ export class MockDB {
   }
 
   addProductListItem(item: ProductListItem) {
+    this.assertParentsExist('productListItems', item);
     this.data.productListItems.push(item);
+    this.recordAudit('create', 'ProductListItem', item.id, undefined, item);
+    this.persist();
     return item;
   }
 
   deleteProductListItemsByProductListId(productListId: string) {
+    const removed = this.data.productListItems.filter((item) => item.productListId === productListId);
     this.data.productListItems = this.data.productListItems.filter(
       (item) => item.productListId !== productListId
     );
+    removed.forEach((item) => this.recordAudit('delete', 'ProductListItem', item.id, item, undefined));
+    this.persist();
+  }
+
+  // ============================================================================
+  // QUERIES (FILTER, SORT, PAGINATE)
+  // ============================================================================
+
+  queryUsers(query: Query<UserFilter, UserSortField> = {}): Page<User> {
+    const filter = query.filter ?? {};
+    return runQuery(
+      this.data.users,
+      predicates<User>(
+        matchesText([(u) => u.username, (u) => u.fullName], filter.search),
+        inSet((u) => u.role, filter.role),
+        filter.active === undefined ? null : (u) => u.active === filter.active
+      ),
+      { ...query, sort: query.sort?.length ? query.sort : DEFAULT_USER_SORT }
+    );
+  }
+
+  querySuppliers(query: Query<SupplierFilter, SupplierSortField> = {}, scope?: ReadonlySet<string>): Page<Supplier> {
+    const filter = query.filter ?? {};
+    return runQuery(
+      this.data.suppliers,
+      predicates<Supplier>(
+        scope ? (s) => scope.has(s.id) : null,
+        matchesText([(s) => s.companyName, (s) => s.taxId], filter.search)
+      ),
+      { ...query, sort: query.sort?.length ? query.sort : DEFAULT_SUPPLIER_SORT }
+    );
+  }
+
+  queryProducts(query: Query<ProductFilter, ProductSortField> = {}): Page<Product> {
+    const filter = query.filter ?? {};
+    return runQuery(
+      this.data.products,
+      predicates<Product>(
+        matchesText([(p) => p.name, (p) => p.sku], filter.search),
+        inSet((p) => p.category, filter.category),
+        inSet((p) => p.availability, filter.availability),
+        filter.isApproved === undefined ? null : (p) => Boolean(p.isApproved) === filter.isApproved,
+        inDateRange((p) => p.expiryDate, filter.expiryFrom, filter.expiryTo)
+      ),
+      { ...query, sort: query.sort?.length ? query.sort : DEFAULT_PRODUCT_SORT }
+    );
+  }
+
+  /**
+   * Pass scope (ids of the exhibitions the caller may see) to leave out the rest
+   */
+  queryExhibitions(query: Query<ExhibitionFilter, ExhibitionSortField> = {}, scope?: ReadonlySet<string>): Page<Exhibition> {
+    const filter = query.filter ?? {};
+    return runQuery(
+      this.data.exhibitions,
+      predicates<Exhibition>(
+        scope ? (e) => scope.has(e.id) : null,
+        matchesText([(e) => e.name, (e) => e.exhibitionId], filter.search),
+        inSet((e) => e.status, filter.status),
+        inDateRange((e) => e.startDate, filter.startFrom, filter.startTo)
+      ),
+      { ...query, sort: query.sort?.length ? query.sort : DEFAULT_EXHIBITION_SORT }
+    );
+  }
+
+  queryProductLists(query: Query<ProductListFilter, ProductListSortField> = {}, scope?: ReadonlySet<string>): Page<ProductList> {
+    const filter = query.filter ?? {};
+    // An unknown exhibition matches nothing rather than everything
+    const exhibitionId = filter.exhibitionId ? this.resolveExhibitionId(filter.exhibitionId) ?? null : undefined;
+    return runQuery(
+      this.data.productLists,
+      predicates<ProductList>(
+        scope ? (pl) => scope.has(pl.exhibitionId) : null,
+        exhibitionId === undefined ? null : (pl) => pl.exhibitionId === exhibitionId,
+        inSet((pl) => pl.supplierId, filter.supplierId),
+        inSet((pl) => pl.status, filter.status),
+        inDateRange((pl) => pl.createdAt, filter.createdFrom, filter.createdTo)
+      ),
+      { ...query, sort: query.sort?.length ? query.sort : DEFAULT_PRODUCT_LIST_SORT }
+    );
+  }
+
+  // ============================================================================
+  // AUDIT LOG (read-only)
+  // ============================================================================
+
+  /**
+   * Query the audit log, newest first unless sorted otherwise. Entries are
+   * returned as copies so callers cannot alter the recorded history. With a
+   * scope (exhibition ids), entries of records that belong to other
+   * exhibitions are left out.
+   */
+  queryAuditLog(query: Query<AuditFilter, AuditSortField> = {}, scope?: ReadonlySet<string>): Page<AuditEntry> {
+    const filter = query.filter ?? {};
+    const logged = scope ? this.loggedAuditFields() : null;
+    const page = runQuery(
+      this.data.auditLog,
+      predicates<AuditEntry>(
+        scope && logged
+          ? (entry) => {
+              const exhibitionId = this.auditedExhibitionId(entry.entityType, entry.entityId, logged);
+              return exhibitionId === null || (exhibitionId !== undefined && scope.has(exhibitionId));
+            }
+          : null,
+        filter.entityType ? (entry) => entry.entityType === filter.entityType : null,
+        filter.entityId ? (entry) => entry.entityId === filter.entityId : null,
+        filter.userId ? (entry) => entry.actor?.id === filter.userId : null,
+        inDateRange((entry) => entry.timestamp, filter.from, filter.to)
+      ),
+      { ...query, sort: query.sort?.length ? query.sort : DEFAULT_AUDIT_SORT }
+    );
+    return { ...page, items: page.items.map((entry) => JSON.parse(JSON.stringify(entry)) as AuditEntry) };
+  }
+
+  /**
+   * The exhibition an audited record belongs to: null for records outside
+   * any exhibition, undefined when it can no longer be told
+   */
+  private auditedExhibitionId(
+    entityType: AuditEntityType,
+    entityId: string,
+    logged: Map<string, Record<string, unknown>>
+  ): string | null | undefined {
+    if (entityType === 'Exhibition') return entityId;
+    const path = AUDIT_EXHIBITION_PATHS[entityType];
+    if (!path) return null;
+    // The record as it is now, or as the log last saw it once it is deleted
+    const collection = (Object.keys(ENTITY_TYPES) as CollectionName[]).find((c) => ENTITY_TYPES[c] === entityType)!;
+    const record = (this.data[collection] as unknown as AnyRecord[]).find((r) => r.id === entityId);
+    const value = record ? record[path.field] : logged.get(`${entityType}:${entityId}`)?.[path.field];
+    if (typeof value !== 'string') return undefined;
+    return path.via ? this.auditedExhibitionId(path.via, value, logged) : value;
+  }
+
+  // Last recorded value of every field that leads to an exhibition, per audited record
+  private loggedAuditFields(): Map<string, Record<string, unknown>> {
+    const fields = new Set(Object.values(AUDIT_EXHIBITION_PATHS).map((path) => path.field));
+    const logged = new Map<string, Record<string, unknown>>();
+    for (const entry of this.data.auditLog) {
+      for (const change of entry.changes) {
+        const value = change.after ?? change.before;
+        if (!fields.has(change.field) || value === undefined) continue;
+        const key = `${entry.entityType}:${entry.entityId}`;
+        logged.set(key, { ...logged.get(key), [change.field]: value });
+      }
+    }
+    return logged;
   }
 
   // ============================================================================
@@ -640,7 +2398,10 @@ export class MockDB {
   approveExhibitionProduct(exhibitionProductId: string) {
     const ep = this.data.exhibitionProducts.find((ep) => ep.id === exhibitionProductId);
     if (ep) {
+      const before = { ...ep };
       ep.status = 'approved';
+      this.recordAudit('update', 'ExhibitionProduct', ep.id, before, ep);
+      this.persist();
       return ep;
     }
     return null;
@@ -652,7 +2413,10 @@ export class MockDB {
   rejectExhibitionProduct(exhibitionProductId: string) {
     const ep = this.data.exhibitionProducts.find((ep) => ep.id === exhibitionProductId);
     if (ep) {
+      const before = { ...ep };
       ep.status = 'rejected';
+      this.recordAudit('update', 'ExhibitionProduct', ep.id, before, ep);
+      this.persist();
       return ep;
     }
     return null;
@@ -662,7 +2426,8 @@ export class MockDB {
    * Get only approved exhibition products for a specific exhibition
    * (Used for order creation - only approved products can be ordered)
    */
-  getApprovedExhibitionProducts(exhibitionId: string) {
+  getApprovedExhibitionProducts(exhibitionRef: string) {
+    const exhibitionId = this.resolveExhibitionId(exhibitionRef);
     return this.data.exhibitionProducts.filter(
       (ep) => ep.exhibitionId === exhibitionId && ep.status === 'approved'
     );
@@ -671,19 +2436,103 @@ export class MockDB {
   /**
    * Check if a product is approved for a specific exhibition
    */
-  isProductApprovedForExhibition(exhibitionId: string, productId: string): boolean {
+  isProductApprovedForExhibition(exhibitionRef: string, productId: string): boolean {
+    const exhibitionId = this.resolveExhibitionId(exhibitionRef);
     const ep = this.data.exhibitionProducts.find(
       (ep) => ep.exhibitionId === exhibitionId && ep.productId === productId
     );
     return ep ? ep.status === 'approved' : false;
   }
 
+  /**
+   * Check if an order line may be ordered for an exhibition: its product is
+   * approved for the exhibition, or the line came from an approved product
+   * list of the exhibition that carries the product
+   */
+  isOrderLineApproved(exhibitionRef: string, line: Pick<OrderLine, 'productId' | 'productListId'>): boolean {
+    if (this.isProductApprovedForExhibition(exhibitionRef, line.productId)) return true;
+    const list = line.productListId ? this.getProductListById(line.productListId) : undefined;
+    return (
+      list?.status === 'approved' &&
+      list.exhibitionId === this.resolveExhibitionId(exhibitionRef) &&
+      this.getProductListItemsByProductListId(list.id).some((item) => item.productId === line.productId)
+    );
+  }
+
+  /**
+   * Turn an approved product list into order lines at the list's prices:
+   * either a new draft order for the exhibition, or (mode 'merge') added to
+   * the exhibition's latest draft, falling back to a new one when there is
+   * none. A list is ordered once; asking again returns the order holding it
+   * until that order is cancelled.
+   */
+  orderProductList(productListId: string, mode: ListOrderMode = 'new') {
+    const list = this.getProductListById(productListId);
+    if (!list) return null;
+    const existing = this.getOrderByProductListId(list.id);
+    if (existing) return existing;
+
+    const exhibition = this.getExhibitionById(list.exhibitionId);
+    const lines: OrderLine[] = this.getProductListItemsByProductListId(list.id).map((item) => ({
+      id: this.generateId('orderLines'),
+      productId: item.productId,
+      quantity: item.quantity,
+      price: item.price,
+      productListId: list.id,
+      supplierId: list.supplierId,
+    }));
+
+    const draft =
+      mode === 'merge'
+        ? this.data.orders.filter((o) => o.exhibitionId === list.exhibitionId && o.status === 'DRAFT').at(-1)
+        : undefined;
+    if (draft) {
+      const items = [...(draft.items ?? []), ...lines];
+      return this.updateOrder(draft.id, {
+        ...this.totalsOf(items),
+        items,
+        productListIds: [...(draft.productListIds ?? []), list.id],
+      });
+    }
+
+    return this.addOrder({
+      id: this.generateId('orders'),
+      orderNumber: this.nextDocumentNumber('order'),
+      exhibition: exhibition?.name,
+      exhibitionId: list.exhibitionId,
+      ...this.totalsOf(lines),
+      items: lines,
+      productListIds: [list.id],
+      createdAt: new Date().toISOString(),
+    });
+  }
+
+  // Totals of an order carrying the given lines (see orderTotals)
+  private totalsOf(lines: OrderLine[]) {
+    return orderTotals(lines, (productId) => this.getProductById(productId)?.unit);
+  }
+
   /**
    * Get all pending exhibition products (for approval page)
    */
   getPendingExhibitionProducts() {
     return this.data.exhibitionProducts.filter((ep) => ep.status === 'pending');
   }
+
+  /**
+   * Where an invitation stands (see InvitationStatus)
+   */
+  getInvitationStatus(invitation: SupplierInvitation, now: Date = new Date()): InvitationStatus {
+    const submitted = this.data.productLists.some(
+      (pl) => pl.exhibitionId === invitation.exhibitionId && pl.supplierId === invitation.supplierId
+    );
+    if (submitted) return 'submitted';
+    // Only a supplier who joined can miss the deadline; an unused link just expires
+    if (!invitation.acceptedAt) {
+      return Date.parse(invitation.expiresAt) < now.getTime() ? 'expired' : 'invited';
+    }
+    return Date.parse(invitation.deadline) < now.getTime() ? 'overdue' : 'accepted';
+  }
 }
 
 // Export singleton instance for convenient access
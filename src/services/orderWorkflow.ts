@@ -0,0 +1,187 @@
+/**
+ * Order Workflow
+ * Orders move through an explicit state machine:
+ *
+ *   DRAFT → CONFIRMED → PICKING → PACKED → SHIPPED → DELIVERED → CLOSED
+ *                                                        ↓
+ *                                                    RETURNED → CLOSED
+ *   DRAFT, CONFIRMED, PICKING or PACKED → CANCELLED
+ *
+ * Every move is a named transition with its own endpoint
+ * (POST /api/orders/[id]/<transition>), the permission it needs and a
+ * precondition the order has to meet. MockDB refuses a transition that does
+ * not start from the order's current status and records each one taken in
+ * Order.statusHistory, so there is no other way to change an order's status.
+ *
+ * Packing, shipping and delivering also record how much of each line was
+ * picked, shipped and received: everything that reached the previous stage
+ * unless the transition names a smaller count for the line.
+ *
+ * Confirming reserves the lines' stock, shipping consumes it and cancelling
+ * releases it (see ./reservations).
+ */
+
+import type { MockDB, Order, OrderLine, OrderStatus } from './mockDb';
+import { Permission, PERMISSIONS } from './permissions';
+import { stockShortfalls } from './reservations';
+
+export const ORDER_TRANSITIONS = ['confirm', 'pick', 'pack', 'ship', 'deliver', 'return', 'close', 'cancel'] as const;
+export type OrderTransition = (typeof ORDER_TRANSITIONS)[number];
+
+// Sent along with a transition
+export interface OrderTransitionInput {
+  // Why the order is cancelled or returned
+  reason?: string;
+  // Replaces Order.expectedDelivery (e.g. the carrier's date when shipping)
+  expectedDelivery?: string;
+  // Counted quantities of lines that fell short (pack, ship and deliver)
+  lines?: { id: string; quantity: number }[];
+}
+
+// Per-line quantities recorded while the order is fulfilled, in order
+export const LINE_QUANTITY_STAGES = ['pickedQuantity', 'shippedQuantity', 'receivedQuantity'] as const;
+export type LineQuantityStage = (typeof LINE_QUANTITY_STAGES)[number];
+
+export interface OrderTransitionRule {
+  from: OrderStatus[];
+  to: OrderStatus;
+  permission: Permission;
+  // The caller has to say why (reason)
+  requiresReason?: boolean;
+  // Line quantity the transition records
+  records?: LineQuantityStage;
+  // What happens to the stock reserved for the order
+  stock?: 'reserve' | 'consume' | 'release';
+  // Why the order cannot take the transition yet, or null when it can
+  precondition?: (order: Order, input: OrderTransitionInput, db: MockDB) => string | null;
+}
+
+export const ORDER_WORKFLOW: Record<OrderTransition, OrderTransitionRule> = {
+  confirm: {
+    from: ['DRAFT'],
+    to: 'CONFIRMED',
+    permission: PERMISSIONS.ORDER_CONFIRM,
+    stock: 'reserve',
+    precondition: (order, _input, db) => {
+      if (!order.items?.length) {
+        return 'An order needs at least one line item to be confirmed';
+      }
+      // Products may have been rejected for the exhibition since the draft was written
+      const unapproved = order.exhibitionId
+        ? order.items.find((item) => !db.isOrderLineApproved(order.exhibitionId!, item))
+        : undefined;
+      if (unapproved) {
+        return `Product ${unapproved.productId} is not approved for this exhibition`;
+      }
+      if (db.getSettings().overallocation === 'flag') return null;
+      const [shortfall] = stockShortfalls(order.items, (productId) => db.getStockAllocation(productId).available);
+      return shortfall
+        ? `Not enough stock of product ${shortfall.productId}: ${shortfall.requested} ordered, ${Math.max(0, shortfall.available)} available`
+        : null;
+    },
+  },
+  pick: { from: ['CONFIRMED'], to: 'PICKING', permission: PERMISSIONS.ORDER_FULFIL },
+  pack: { from: ['PICKING'], to: 'PACKED', permission: PERMISSIONS.ORDER_FULFIL, records: 'pickedQuantity' },
+  ship: {
+    from: ['PACKED'],
+    to: 'SHIPPED',
+    permission: PERMISSIONS.ORDER_FULFIL,
+    records: 'shippedQuantity',
+    stock: 'consume',
+    precondition: (order, input) =>
+      input.expectedDelivery || order.expectedDelivery ? null : 'An expected delivery date is required to ship an order',
+  },
+  deliver: { from: ['SHIPPED'], to: 'DELIVERED', permission: PERMISSIONS.ORDER_FULFIL, records: 'receivedQuantity' },
+  return: { from: ['DELIVERED'], to: 'RETURNED', permission: PERMISSIONS.ORDER_FULFIL, requiresReason: true },
+  close: { from: ['DELIVERED', 'RETURNED'], to: 'CLOSED', permission: PERMISSIONS.ORDER_CONFIRM },
+  cancel: {
+    from: ['DRAFT', 'CONFIRMED', 'PICKING', 'PACKED'],
+    to: 'CANCELLED',
+    permission: PERMISSIONS.ORDER_CANCEL,
+    requiresReason: true,
+    stock: 'release',
+  },
+};
+
+/**
+ * Transitions an order in the given status can take
+ */
+export function availableTransitions(status: OrderStatus): OrderTransition[] {
+  return ORDER_TRANSITIONS.filter((transition) => ORDER_WORKFLOW[transition].from.includes(status));
+}
+
+/**
+ * How much of the line reached the stage before the given one (the ordered
+ * quantity for picking)
+ */
+export function previousStageQuantity(line: OrderLine, stage: LineQuantityStage): number {
+  const index = LINE_QUANTITY_STAGES.indexOf(stage);
+  return index === 0 ? line.quantity : (line[LINE_QUANTITY_STAGES[index - 1]] ?? line.quantity);
+}
+
+/**
+ * Lines with the stage's quantity recorded: the counted quantity where one is
+ * given, everything from the previous stage otherwise
+ */
+export function recordLineQuantities(
+  lines: OrderLine[],
+  stage: LineQuantityStage,
+  counted: OrderTransitionInput['lines'] = []
+): OrderLine[] {
+  return lines.map((line) => ({
+    ...line,
+    [stage]: counted.find((c) => c.id === line.id)?.quantity ?? previousStageQuantity(line, stage),
+  }));
+}
+
+export type OrderLineStatus = 'OPEN' | 'PICKED' | 'SHIPPED' | 'RECEIVED' | 'SHORT';
+
+/**
+ * Furthest stage the line reached, or SHORT when that stage counted less than was ordered
+ */
+export function orderLineStatus(line: OrderLine): OrderLineStatus {
+  const reached = [...LINE_QUANTITY_STAGES].reverse().find((stage) => line[stage] !== undefined);
+  if (!reached) return 'OPEN';
+  if (line[reached]! < line.quantity) return 'SHORT';
+  return ({ pickedQuantity: 'PICKED', shippedQuantity: 'SHIPPED', receivedQuantity: 'RECEIVED' } as const)[reached];
+}
+
+/**
+ * Quantity, value and unit of an order carrying the given lines; the unit is
+ * 'Mixed' when the products are measured differently
+ */
+export function orderTotals(
+  lines: OrderLine[],
+  unitOf: (productId: string) => string | undefined
+): Pick<Order, 'quantity' | 'orderValue' | 'unit'> {
+  const units = new Set(lines.map((line) => unitOf(line.productId) ?? ''));
+  return {
+    quantity: lines.reduce((sum, line) => sum + line.quantity, 0),
+    orderValue: lines.reduce((sum, line) => sum + (line.price ?? 0) * line.quantity, 0),
+    unit: units.size > 1 ? 'Mixed' : ([...units][0] ?? ''),
+  };
+}
+
+/**
+ * The part of an order a supplier user may see: the lines copied from their
+ * own product lists, totalled on their own. Null when the order has none.
+ */
+export function orderForSupplier(order: Order, supplierId: string, db: MockDB): Order | null {
+  const items = order.items?.filter((line) => line.supplierId === supplierId) ?? [];
+  if (items.length === 0) return null;
+  return { ...order, ...orderTotals(items, (productId) => db.getProductById(productId)?.unit), items };
+}
+
+/**
+ * Thrown by MockDB when a transition does not start from the order's status
+ */
+export class InvalidOrderTransitionError extends Error {
+  constructor(
+    public readonly orderId: string,
+    public readonly status: OrderStatus,
+    public readonly transition: OrderTransition
+  ) {
+    super(`Cannot ${transition} an order that is ${status} (${transition} needs ${ORDER_WORKFLOW[transition].from.join(' or ')})`);
+    this.name = 'InvalidOrderTransitionError';
+  }
+}
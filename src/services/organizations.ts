@@ -0,0 +1,73 @@
+/**
+ * Organizations (Tenants)
+ * Every client company is an organization with a data set of its own: MockDB
+ * keeps one MockDatabase per organization and serves the one selected for the
+ * current request (see setRequestOrganization). The organization is resolved
+ * from the authenticated caller, so users, API keys and queries never see
+ * another company's products, exhibitions or orders.
+ *
+ * The default organization hosts the installation and holds the demo data.
+ * Its administrators are the operators who onboard further organizations
+ * (organization:manage); a new organization is seeded with the built-in roles,
+ * default settings and its first administrator.
+ */
+
+import type { MockDatabase, Organization, User } from './mockDb';
+import { LATEST_SCHEMA_VERSION } from './migrations';
+import { defaultRoles } from './permissions';
+import { defaultSettings } from './settings';
+
+export const DEFAULT_ORGANIZATION_ID = 'org_default';
+
+// Lower case letters and digits, words separated by single dashes (e.g. "acme-foods")
+export const ORGANIZATION_SLUG_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+/**
+ * The organization hosting the installation; data written before
+ * organizations existed belongs to it
+ */
+export function defaultOrganization(name = 'My Company'): Organization {
+  return {
+    id: DEFAULT_ORGANIZATION_ID,
+    name,
+    slug: 'default',
+    createdAt: new Date().toISOString(),
+    version: 1,
+  };
+}
+
+/**
+ * Whether members of the organization may onboard other organizations
+ */
+export function isOperatorOrganization(organizationId: string | undefined): boolean {
+  return organizationId === DEFAULT_ORGANIZATION_ID;
+}
+
+/**
+ * Data set a new organization starts with. Everything beyond the built-in
+ * roles, the default settings (under the company's name) and the first
+ * administrator is created by the organization itself.
+ */
+export function seedOrganizationData(companyName: string, admin: User): MockDatabase {
+  return {
+    schemaVersion: LATEST_SCHEMA_VERSION,
+    users: [admin],
+    roles: defaultRoles(),
+    apiKeys: [],
+    suppliers: [],
+    ingredients: [],
+    packaging: [],
+    products: [],
+    exhibitions: [],
+    exhibitionMembers: [],
+    supplierInvitations: [],
+    exhibitionProducts: [],
+    orders: [],
+    reservations: [],
+    productLists: [],
+    productListItems: [],
+    auditLog: [],
+    settings: { ...defaultSettings(), companyName },
+    sequences: {},
+  };
+}
@@ -0,0 +1,196 @@
+/**
+ * Permission Catalog
+ * Routes require a named permission (e.g. 'product:delete'); users hold the
+ * permissions of their role. Roles and their permissions are stored in MockDB
+ * (collection 'roles') and can be changed at runtime through /api/roles.
+ *
+ * The built-in roles below are seeded with DEFAULT_ROLE_PERMISSIONS. ADMIN is
+ * special: it always holds every permission, so administrators cannot lock
+ * themselves out by editing the matrix.
+ *
+ * Exhibition data is additionally scoped by team membership: a permission
+ * says what kind of operation a user may perform, their role on the
+ * exhibition says where. Users linked to a supplier are further limited to
+ * that supplier's records (see SUPPLIER SCOPE in @/middleware/rbac).
+ */
+
+import type { Role } from './mockDb';
+
+export const PERMISSIONS = {
+  // Product operations
+  PRODUCT_CREATE: 'product:create',
+  PRODUCT_READ: 'product:read',
+  PRODUCT_UPDATE: 'product:update',
+  PRODUCT_DELETE: 'product:delete',
+
+  // Exhibition operations
+  EXHIBITION_CREATE: 'exhibition:create',
+  EXHIBITION_READ: 'exhibition:read',
+  EXHIBITION_UPDATE: 'exhibition:update',
+  // Act on every exhibition without being a member (see EXHIBITION MEMBERSHIP)
+  EXHIBITION_ALL: 'exhibition:all',
+
+  // Approval operations
+  APPROVAL_APPROVE: 'approval:approve',
+  APPROVAL_READ: 'approval:read',
+
+  // Order operations
+  ORDER_CREATE: 'order:create',
+  ORDER_READ: 'order:read',
+  ORDER_UPDATE: 'order:update',
+  // Order workflow transitions (see @/services/orderWorkflow)
+  ORDER_CONFIRM: 'order:confirm',
+  ORDER_FULFIL: 'order:fulfil',
+  ORDER_CANCEL: 'order:cancel',
+
+  // Audit operations
+  AUDIT_READ: 'audit:read',
+
+  // User and role administration
+  USER_MANAGE: 'user:manage',
+  ROLE_READ: 'role:read',
+  ROLE_MANAGE: 'role:manage',
+
+  // Supplier administration
+  SUPPLIER_READ: 'supplier:read',
+  SUPPLIER_MANAGE: 'supplier:manage',
+
+  // Machine-to-machine access
+  APIKEY_MANAGE: 'apikey:manage',
+
+  // Company-wide configuration
+  SETTINGS_MANAGE: 'settings:manage',
+
+  // Client onboarding (operator organization only, see @/services/organizations)
+  ORGANIZATION_MANAGE: 'organization:manage',
+} as const;
+
+export type Permission = (typeof PERMISSIONS)[keyof typeof PERMISSIONS];
+
+export const ALL_PERMISSIONS: Permission[] = Object.values(PERMISSIONS);
+
+export const PERMISSION_DESCRIPTIONS: Record<Permission, string> = {
+  'product:create': 'Create products',
+  'product:read': 'View products',
+  'product:update': 'Edit products (including prices and stock)',
+  'product:delete': 'Delete products',
+  'exhibition:create': 'Create exhibitions and add products to them',
+  'exhibition:read': 'View exhibitions',
+  'exhibition:update': 'Edit exhibitions',
+  'exhibition:all': 'Access every exhibition without being a member of its team',
+  'approval:approve': 'Approve or reject exhibition products',
+  'approval:read': 'View pending approvals',
+  'order:create': 'Create orders and product lists',
+  'order:read': 'View orders and product lists',
+  'order:update': 'Edit orders and review product lists',
+  'order:confirm': 'Confirm and close orders',
+  'order:fulfil': 'Pick, pack, ship and deliver orders, and take returns',
+  'order:cancel': 'Cancel orders that have not shipped',
+  'audit:read': 'View the audit log',
+  'user:manage': 'Create, edit and deactivate users',
+  'role:read': 'View roles and their permissions',
+  'role:manage': 'Create, edit and delete roles',
+  'supplier:read': 'View suppliers',
+  'supplier:manage': 'Create, edit and delete suppliers',
+  'apikey:manage': 'Create and revoke API keys for integrations',
+  'settings:manage': 'Change company settings (currency, units, approval policy, notifications)',
+  'organization:manage': 'Onboard client organizations (operator organization only)',
+};
+
+export function isPermission(value: string): value is Permission {
+  return (ALL_PERMISSIONS as string[]).includes(value);
+}
+
+// ============================================================================
+// ROLES
+// ============================================================================
+
+export const ADMIN_ROLE = 'ADMIN';
+
+export const BUILT_IN_ROLES = ['ADMIN', 'MANAGER', 'USER', 'VIEWER', 'SUPPLIER'] as const;
+export type BuiltInRole = (typeof BUILT_IN_ROLES)[number];
+
+// Custom role names follow the built-in style: upper case, digits and underscores
+export const ROLE_NAME_PATTERN = /^[A-Z][A-Z0-9_]*$/;
+
+export const DEFAULT_ROLE_PERMISSIONS: Record<BuiltInRole, Permission[]> = {
+  ADMIN: ALL_PERMISSIONS,
+  MANAGER: [
+    'product:create',
+    'product:read',
+    'product:update',
+    'exhibition:create',
+    'exhibition:read',
+    'exhibition:update',
+    'approval:approve',
+    'approval:read',
+    'order:create',
+    'order:read',
+    'order:update',
+    'order:confirm',
+    'order:fulfil',
+    'order:cancel',
+    'audit:read',
+    'supplier:read',
+    'supplier:manage',
+  ],
+  USER: [
+    'product:create',
+    'product:read',
+    'exhibition:read',
+    'approval:read',
+    'order:create',
+    'order:read',
+    'order:fulfil',
+    'audit:read',
+    'supplier:read',
+  ],
+  VIEWER: ['product:read', 'exhibition:read', 'approval:read', 'order:read', 'supplier:read'],
+  // Meant for users linked to a supplier, who only reach their own supplier's data
+  SUPPLIER: ['product:read', 'exhibition:read', 'order:create', 'order:read', 'order:update', 'supplier:read'],
+};
+
+const DEFAULT_ROLE_DESCRIPTIONS: Record<BuiltInRole, string> = {
+  ADMIN: 'Full access, including user and role administration',
+  MANAGER: 'Manages products, exhibitions, approvals and orders',
+  USER: 'Operational staff: adds products and places orders',
+  VIEWER: 'Read-only access',
+  SUPPLIER: 'Supplier portal: submits and edits its own product lists',
+};
+
+/**
+ * Seed records for the built-in roles (ids are fixed so snapshots stay comparable)
+ */
+export function defaultRoles(): Role[] {
+  return BUILT_IN_ROLES.map((name) => ({
+    id: `rol_${name.toLowerCase()}`,
+    name,
+    description: DEFAULT_ROLE_DESCRIPTIONS[name],
+    permissions: [...DEFAULT_ROLE_PERMISSIONS[name]],
+    builtIn: true,
+    version: 1,
+  }));
+}
+
+// ============================================================================
+// EXHIBITION MEMBERSHIP
+// ============================================================================
+
+export const EXHIBITION_ROLES = ['LEAD', 'APPROVER', 'MEMBER', 'VIEWER'] as const;
+export type ExhibitionRole = (typeof EXHIBITION_ROLES)[number];
+
+/**
+ * What a member may do on their exhibition:
+ *   - view: see the exhibition, its products, product lists and orders
+ *   - edit: add products, create and change product lists, place orders
+ *   - approve: approve or reject exhibition products and product lists
+ *   - manage: add, change and remove team members
+ */
+export type ExhibitionAccess = 'view' | 'edit' | 'approve' | 'manage';
+
+export const EXHIBITION_ROLE_ACCESS: Record<ExhibitionRole, ExhibitionAccess[]> = {
+  LEAD: ['view', 'edit', 'approve', 'manage'],
+  APPROVER: ['view', 'edit', 'approve'],
+  MEMBER: ['view', 'edit'],
+  VIEWER: ['view'],
+};
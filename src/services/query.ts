@@ -0,0 +1,207 @@
+/**
+ * Collection Queries
+ * Filtering, multi-field sorting and pagination over MockDB collections.
+ * MockDB builds the typed filters into predicates (see the QUERIES section of
+ * ./mockDb) and hands them to runQuery().
+ *
+ * Two ways to page through results:
+ *   - offset/limit: random access, e.g. "page 3 of 10"
+ *   - cursor/limit: follow `nextCursor`; stable while records are added or
+ *     removed because the cursor holds the sort key of the last record returned
+ */
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface SortField<F extends string> {
+  field: F;
+  direction: SortDirection;
+}
+
+export interface Query<Filter, F extends string> {
+  filter?: Filter;
+  // Applied in order; the record id is always the final tie-breaker
+  sort?: SortField<F>[];
+  limit?: number;
+  offset?: number;
+  // nextCursor of a previous page; takes precedence over offset
+  cursor?: string;
+}
+
+export interface Page<T> {
+  items: T[];
+  // Number of records matching the filter, across all pages
+  total: number;
+  limit: number;
+  // Position of the first item within the filtered, sorted result
+  offset: number;
+  // Pass as `cursor` to fetch the next page; null on the last page
+  nextCursor: string | null;
+}
+
+/**
+ * Flat form of a Query as it arrives in a URL: filter fields next to
+ * sort/limit/offset/cursor (e.g. ?status=ACTIVE&sort=-startDate&limit=20)
+ */
+export type ListParams<Filter, F extends string> = Filter & Omit<Query<Filter, F>, 'filter'>;
+
+export function toQuery<Filter, F extends string>(params: ListParams<Filter, F>): Query<Filter, F> {
+  const { sort, limit, offset, cursor, ...filter } = params;
+  return { filter: filter as Filter, sort, limit, offset, cursor };
+}
+
+export const DEFAULT_PAGE_SIZE = 25;
+export const MAX_PAGE_SIZE = 100;
+
+export class InvalidQueryError extends Error {
+  constructor(
+    public readonly field: string,
+    message: string
+  ) {
+    super(message);
+    this.name = 'InvalidQueryError';
+  }
+}
+
+type SortValue = string | number | boolean | null;
+
+interface CursorPayload {
+  // Sort signature the cursor was issued for
+  s: string;
+  // Sort values of the last record, followed by its id
+  k: SortValue[];
+}
+
+function sortValue(record: object, field: string): SortValue {
+  const value = (record as Record<string, unknown>)[field];
+  if (value === undefined || value === null) return null;
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') return value;
+  return String(value);
+}
+
+// Missing values sort last in either direction
+function compareValues(a: SortValue, b: SortValue, direction: SortDirection): number {
+  if (a === b) return 0;
+  if (a === null) return 1;
+  if (b === null) return -1;
+  const result = typeof a === 'string' && typeof b === 'string' ? a.localeCompare(b) : a < b ? -1 : 1;
+  return direction === 'asc' ? result : -result;
+}
+
+function sortKey(record: { id: string }, sort: SortField<string>[]): SortValue[] {
+  return [...sort.map((s) => sortValue(record, s.field)), record.id];
+}
+
+function compareKeys(a: SortValue[], b: SortValue[], sort: SortField<string>[]): number {
+  for (let i = 0; i < sort.length; i++) {
+    const result = compareValues(a[i], b[i], sort[i].direction);
+    if (result !== 0) return result;
+  }
+  return compareValues(a[sort.length], b[sort.length], 'asc');
+}
+
+function sortSignature(sort: SortField<string>[]): string {
+  return sort.map((s) => `${s.direction === 'desc' ? '-' : ''}${s.field}`).join(',');
+}
+
+function encodeCursor(payload: CursorPayload): string {
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+function decodeCursor(cursor: string, signature: string): SortValue[] {
+  let payload: CursorPayload;
+  try {
+    payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new InvalidQueryError('cursor', 'Cursor is malformed');
+  }
+  if (!payload || !Array.isArray(payload.k) || typeof payload.s !== 'string') {
+    throw new InvalidQueryError('cursor', 'Cursor is malformed');
+  }
+  if (payload.s !== signature) {
+    throw new InvalidQueryError('cursor', 'Cursor was issued for a different sort order');
+  }
+  return payload.k;
+}
+
+/**
+ * Filter, sort and page a collection
+ */
+export function runQuery<T extends { id: string }, F extends string>(
+  records: T[],
+  predicates: ((record: T) => boolean)[],
+  query: Pick<Query<unknown, F>, 'sort' | 'limit' | 'offset' | 'cursor'>
+): Page<T> {
+  const sort = query.sort ?? [];
+  const limit = Math.min(Math.max(query.limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+  const keyed = records
+    .filter((record) => predicates.every((predicate) => predicate(record)))
+    .map((record) => ({ record, key: sortKey(record, sort) }))
+    .sort((a, b) => compareKeys(a.key, b.key, sort));
+
+  let offset = Math.max(query.offset ?? 0, 0);
+  if (query.cursor) {
+    const after = decodeCursor(query.cursor, sortSignature(sort));
+    const index = keyed.findIndex((entry) => compareKeys(entry.key, after, sort) > 0);
+    offset = index === -1 ? keyed.length : index;
+  }
+
+  const slice = keyed.slice(offset, offset + limit);
+  const hasMore = offset + slice.length < keyed.length;
+  const last = slice[slice.length - 1];
+
+  return {
+    items: slice.map((entry) => entry.record),
+    total: keyed.length,
+    limit,
+    offset,
+    nextCursor: hasMore && last ? encodeCursor({ s: sortSignature(sort), k: last.key }) : null,
+  };
+}
+
+// ============================================================================
+// PREDICATE HELPERS
+// ============================================================================
+
+/**
+ * Value is one of the allowed values (no restriction when the list is empty or missing)
+ */
+export function inSet<T, V>(get: (record: T) => V, values?: V[]): ((record: T) => boolean) | null {
+  if (!values || values.length === 0) return null;
+  return (record) => values.includes(get(record));
+}
+
+/**
+ * Date/ISO string within [from, to]; a date-only `to` includes the whole day
+ */
+export function inDateRange<T>(
+  get: (record: T) => string | undefined,
+  from?: string,
+  to?: string
+): ((record: T) => boolean) | null {
+  if (!from && !to) return null;
+  const fromTime = from ? Date.parse(from) : -Infinity;
+  const toTime = to ? Date.parse(to) + (/^\d{4}-\d{2}-\d{2}$/.test(to) ? 86_400_000 - 1 : 0) : Infinity;
+  return (record) => {
+    const value = get(record);
+    if (!value) return false;
+    const time = Date.parse(value);
+    return time >= fromTime && time <= toTime;
+  };
+}
+
+/**
+ * Case-insensitive substring match on any of the given fields
+ */
+export function matchesText<T>(getters: ((record: T) => string | undefined)[], text?: string): ((record: T) => boolean) | null {
+  const needle = text?.trim().toLowerCase();
+  if (!needle) return null;
+  return (record) => getters.some((get) => get(record)?.toLowerCase().includes(needle));
+}
+
+/**
+ * Drop the null entries produced by helpers whose filter was not set
+ */
+export function predicates<T>(...list: (((record: T) => boolean) | null)[]): ((record: T) => boolean)[] {
+  return list.filter((p): p is (record: T) => boolean => p !== null);
+}
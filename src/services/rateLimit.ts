@@ -0,0 +1,191 @@
+/**
+ * Rate Limiting
+ * API requests draw from token buckets, one per caller and limit class. A
+ * bucket holds up to `limit` tokens and refills at limit / windowSeconds per
+ * second; a request that finds it empty is refused (429) and told how long
+ * until the next token. apiHandler identifies callers by API key, else user,
+ * else client address, and picks the class from the route (see
+ * @/lib/apiHandler): uploads and writes get stricter limits than reads.
+ *
+ * Configuration (environment):
+ *   - RATE_LIMIT_ENABLED=false: turn limiting off (e.g. for load tests)
+ *   - RATE_LIMIT_READ, RATE_LIMIT_WRITE, RATE_LIMIT_UPLOAD: "<requests>/<seconds>"
+ *     (defaults 300/60, 60/60 and 10/60)
+ *   - RATE_LIMIT_STORE: memory (default) keeps the buckets in this process;
+ *     storage keeps them next to the MockDB snapshot through the storage
+ *     adapter (see ./storage), so processes sharing a data file share limits.
+ *     Concurrent processes may each spend the same token now and then; the
+ *     limit is approximate, not a quota.
+ */
+
+import { createStorageAdapter, StorageAdapter } from './storage';
+
+export const RATE_LIMIT_CLASSES = ['read', 'write', 'upload'] as const;
+export type RateLimitClass = (typeof RATE_LIMIT_CLASSES)[number];
+
+export interface RateLimitRule {
+  // Requests allowed in a burst; the bucket refills to it over windowSeconds
+  limit: number;
+  windowSeconds: number;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  limit: number;
+  // Whole tokens left after this request
+  remaining: number;
+  // Seconds until the next request is allowed (0 when allowed)
+  retryAfterSeconds: number;
+}
+
+interface Bucket {
+  tokens: number;
+  // Epoch milliseconds of the last refill
+  updatedAt: number;
+}
+
+type Buckets = Record<string, Bucket>;
+
+const DEFAULT_RULES: Record<RateLimitClass, string> = {
+  read: '300/60',
+  write: '60/60',
+  upload: '10/60',
+};
+
+const RULE_PATTERN = /^(\d+)\/(\d+)$/;
+
+// Buckets untouched for longer than their window are full again and can be dropped
+const PRUNE_INTERVAL_MS = 60 * 1000;
+
+// Name of the adapter state that holds the buckets (see StorageAdapter.saveState)
+const STATE_NAMESPACE = 'rate-limits';
+
+// ============================================================================
+// STORES
+// ============================================================================
+
+/**
+ * Where buckets are kept between requests. update() hands the whole map to
+ * the callback and saves whatever it changed.
+ */
+export interface RateLimitStore {
+  update<T>(fn: (buckets: Buckets) => T): T;
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly buckets: Buckets = {};
+
+  update<T>(fn: (buckets: Buckets) => T): T {
+    return fn(this.buckets);
+  }
+}
+
+/**
+ * Reads and writes the buckets through a storage adapter on every request
+ */
+export class AdapterRateLimitStore implements RateLimitStore {
+  constructor(private readonly adapter: StorageAdapter) {}
+
+  update<T>(fn: (buckets: Buckets) => T): T {
+    const buckets = (this.adapter.loadState(STATE_NAMESPACE) as Buckets | null) ?? {};
+    const result = fn(buckets);
+    this.adapter.saveState(STATE_NAMESPACE, buckets);
+    return result;
+  }
+}
+
+// ============================================================================
+// LIMITER
+// ============================================================================
+
+export class RateLimiter {
+  private lastPrunedAt = 0;
+
+  constructor(
+    private readonly rules: Record<RateLimitClass, RateLimitRule>,
+    private readonly store: RateLimitStore
+  ) {}
+
+  /**
+   * Take a token from the caller's bucket for the class
+   */
+  take(callerKey: string, limitClass: RateLimitClass, now: number = Date.now()): RateLimitDecision {
+    const { limit, windowSeconds } = this.rules[limitClass];
+    const refillPerMs = limit / (windowSeconds * 1000);
+    const key = `${limitClass}:${callerKey}`;
+
+    return this.store.update((buckets) => {
+      this.prune(buckets, now);
+
+      const bucket = buckets[key];
+      const elapsed = bucket ? Math.max(0, now - bucket.updatedAt) : 0;
+      const tokens = bucket ? Math.min(limit, bucket.tokens + elapsed * refillPerMs) : limit;
+
+      if (tokens < 1) {
+        buckets[key] = { tokens, updatedAt: now };
+        return { allowed: false, limit, remaining: 0, retryAfterSeconds: Math.ceil((1 - tokens) / refillPerMs / 1000) };
+      }
+
+      buckets[key] = { tokens: tokens - 1, updatedAt: now };
+      return { allowed: true, limit, remaining: Math.floor(tokens - 1), retryAfterSeconds: 0 };
+    });
+  }
+
+  private prune(buckets: Buckets, now: number): void {
+    if (now - this.lastPrunedAt < PRUNE_INTERVAL_MS) return;
+    this.lastPrunedAt = now;
+    for (const [key, bucket] of Object.entries(buckets)) {
+      const limitClass = key.slice(0, key.indexOf(':')) as RateLimitClass;
+      const windowMs = (this.rules[limitClass]?.windowSeconds ?? 0) * 1000;
+      if (now - bucket.updatedAt > windowMs) delete buckets[key];
+    }
+  }
+}
+
+/**
+ * Parse a "<requests>/<seconds>" rule
+ */
+export function parseRateLimitRule(value: string): RateLimitRule {
+  const match = RULE_PATTERN.exec(value.trim());
+  const limit = match ? Number(match[1]) : 0;
+  const windowSeconds = match ? Number(match[2]) : 0;
+  if (limit < 1 || windowSeconds < 1) {
+    throw new Error(`Invalid rate limit "${value}" (expected "<requests>/<seconds>", e.g. "60/60")`);
+  }
+  return { limit, windowSeconds };
+}
+
+/**
+ * Build the limiter configured through the environment; null when limiting is off
+ */
+export function createRateLimiter(env: NodeJS.ProcessEnv = process.env): RateLimiter | null {
+  if (env.RATE_LIMIT_ENABLED === 'false') return null;
+
+  const rules = {
+    read: parseRateLimitRule(env.RATE_LIMIT_READ || DEFAULT_RULES.read),
+    write: parseRateLimitRule(env.RATE_LIMIT_WRITE || DEFAULT_RULES.write),
+    upload: parseRateLimitRule(env.RATE_LIMIT_UPLOAD || DEFAULT_RULES.upload),
+  };
+
+  const kind = (env.RATE_LIMIT_STORE || 'memory').toLowerCase();
+  switch (kind) {
+    case 'memory':
+      return new RateLimiter(rules, new MemoryRateLimitStore());
+    case 'storage':
+      return new RateLimiter(rules, new AdapterRateLimitStore(createStorageAdapter(env)));
+    default:
+      throw new Error(`Unknown RATE_LIMIT_STORE "${kind}" (expected "memory" or "storage")`);
+  }
+}
+
+let limiter: RateLimiter | null | undefined;
+
+/**
+ * The process-wide limiter (created on first use); null when limiting is off
+ */
+export function getRateLimiter(): RateLimiter | null {
+  if (limiter === undefined) {
+    limiter = createRateLimiter();
+  }
+  return limiter;
+}
@@ -0,0 +1,78 @@
+/**
+ * Per-request context shared with the service layer
+ * API routes authenticate the caller before touching MockDB; the caller is
+ * stored here so MockDB can attribute every mutation without each route
+ * having to pass the user through explicitly. The caller's organization is
+ * stored the same way and decides which tenant's data MockDB serves.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+
+export interface RequestActor {
+  id: string;
+  username: string;
+}
+
+export interface RequestContext {
+  // Correlates log lines and error responses of one request
+  requestId?: string;
+  actor?: RequestActor;
+  // Tenant whose data set MockDB reads and writes during the request
+  organizationId?: string;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Run a function with its own request context
+ */
+export function runWithRequestContext<T>(context: RequestContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+/**
+ * Record the authenticated actor for the rest of the current request
+ */
+export function setRequestActor(actor: RequestActor): void {
+  const context = storage.getStore();
+  if (context) {
+    context.actor = actor;
+  } else {
+    storage.enterWith({ actor });
+  }
+}
+
+/**
+ * Select the organization (tenant) for the rest of the current request
+ */
+export function setRequestOrganization(organizationId: string): void {
+  const context = storage.getStore();
+  if (context) {
+    context.organizationId = organizationId;
+  } else {
+    storage.enterWith({ organizationId });
+  }
+}
+
+/**
+ * Id of the current request, or null outside a request
+ */
+export function getRequestId(): string | null {
+  return storage.getStore()?.requestId ?? null;
+}
+
+/**
+ * The actor of the current request, or null outside an authenticated request
+ * (e.g. seeding)
+ */
+export function getRequestActor(): RequestActor | null {
+  return storage.getStore()?.actor ?? null;
+}
+
+/**
+ * The organization selected for the current request, or null when the caller
+ * has not been resolved yet
+ */
+export function getRequestOrganization(): string | null {
+  return storage.getStore()?.organizationId ?? null;
+}
@@ -0,0 +1,59 @@
+/**
+ * Stock Reservations
+ * Product.quantity is the stock on hand. Confirming an order reserves the
+ * quantity of each of its lines, so stock promised to one exhibition is not
+ * offered to the next: what is left for new orders is the quantity on hand
+ * less everything still reserved.
+ *
+ * A reservation is held until its line ships, when the shipped quantity
+ * leaves Product.quantity, or until the order is cancelled. Confirming more
+ * than is available is refused or recorded as a shortfall, depending on
+ * Settings.overallocation.
+ */
+
+import type { OrderLine, Product, Reservation } from './mockDb';
+
+// Stock of a product: on hand, reserved for confirmed orders and what is left
+export interface StockAllocation {
+  productId: string;
+  quantity: number;
+  allocated: number;
+  // Negative when orders were confirmed beyond the stock (overallocation 'flag')
+  available: number;
+}
+
+export interface StockShortfall {
+  productId: string;
+  requested: number;
+  available: number;
+}
+
+/**
+ * Whether the reservation still holds stock
+ */
+export function isHeld(reservation: Reservation): boolean {
+  return !reservation.releasedAt;
+}
+
+/**
+ * Products the lines ask more of than is available; lines of the same product
+ * are counted together
+ */
+export function stockShortfalls(lines: OrderLine[], availableOf: (productId: string) => number): StockShortfall[] {
+  const requested = new Map<string, number>();
+  for (const line of lines) {
+    requested.set(line.productId, (requested.get(line.productId) ?? 0) + line.quantity);
+  }
+  return [...requested]
+    .map(([productId, quantity]) => ({ productId, requested: quantity, available: availableOf(productId) }))
+    .filter((shortfall) => shortfall.requested > shortfall.available);
+}
+
+/**
+ * Availability of a product holding the given stock: out at zero, low at or
+ * below its threshold
+ */
+export function stockAvailability(quantity: number, thresholdValue: number): Product['availability'] {
+  if (quantity <= 0) return 'Out of stock';
+  return quantity <= thresholdValue ? 'Low stock' : 'In-stock';
+}
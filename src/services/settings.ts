@@ -0,0 +1,64 @@
+/**
+ * Settings
+ * Company-wide configuration stored in MockDB (see MockDB.getSettings). Only
+ * administrators change it (settings:manage), but every module reads it
+ * instead of hard-coding its own constants: the currency prices are shown in,
+ * the units products are stocked in, the threshold new products start with,
+ * whether added products and submitted lists need a review, and whether
+ * orders may be confirmed beyond the available stock.
+ */
+
+import type { ApprovalMode, Settings } from './mockDb';
+
+export const SETTINGS_ID = 'settings';
+
+// ISO 4217 currency code
+export const CURRENCY_PATTERN = /^[A-Z]{3}$/;
+
+export const DEFAULT_UNITS_OF_MEASURE = ['Packets', 'Boxes', 'Bottles', 'Cans', 'Pieces', 'Kg'];
+
+/**
+ * Settings of a new installation; units already used by products are kept
+ */
+export function defaultSettings(unitsInUse: string[] = []): Settings {
+  return {
+    companyName: 'My Company',
+    currency: 'THB',
+    unitsOfMeasure: [...new Set([...DEFAULT_UNITS_OF_MEASURE, ...unitsInUse.filter(Boolean)])],
+    lowStockThreshold: 10,
+    approvalPolicy: {
+      exhibitionProducts: 'manual',
+      productLists: 'manual',
+    },
+    overallocation: 'block',
+    notifications: {
+      recipients: [],
+      lowStock: true,
+      productListSubmitted: true,
+      invitationAccepted: false,
+    },
+    version: 1,
+  };
+}
+
+/**
+ * The part of the settings every signed-in user needs to render pages
+ * (returned with the session by GET /api/auth/me)
+ */
+export function toDisplaySettings(settings: Settings) {
+  return {
+    companyName: settings.companyName,
+    currency: settings.currency,
+    unitsOfMeasure: settings.unitsOfMeasure,
+    lowStockThreshold: settings.lowStockThreshold,
+  };
+}
+
+export type DisplaySettings = ReturnType<typeof toDisplaySettings>;
+
+/**
+ * Review status a submitted exhibition product or product list starts in
+ */
+export function initialReviewStatus(mode: ApprovalMode): 'pending' | 'approved' {
+  return mode === 'auto' ? 'approved' : 'pending';
+}
@@ -0,0 +1,51 @@
+/**
+ * Storage Adapters
+ * MockDB keeps its working set in memory and hands every committed snapshot
+ * to a storage adapter. The adapter decides whether that snapshot survives a
+ * server restart.
+ *
+ * Select the adapter with the MOCKDB_STORAGE environment variable:
+ *   - memory (default): nothing is written, data resets on restart
+ *   - json: snapshot is written to MOCKDB_DATA_FILE (default .data/mockdb.json)
+ *
+ * Besides the snapshot, an adapter keeps small named state documents that are
+ * not part of the database (e.g. rate limit buckets, see @/services/rateLimit).
+ */
+
+import type { MockDataStore } from '@/services/mockDb';
+import { MemoryStorageAdapter } from './memoryAdapter';
+import { JsonFileStorageAdapter } from './jsonFileAdapter';
+
+export interface StorageAdapter {
+  readonly name: string;
+  /** Returns the persisted snapshot, or null when nothing has been stored yet */
+  load(): MockDataStore | null;
+  /** Replaces the persisted snapshot */
+  save(data: MockDataStore): void;
+  /** Returns the state stored under the namespace, or null when there is none */
+  loadState(namespace: string): unknown;
+  /** Replaces the state stored under the namespace */
+  saveState(namespace: string, value: unknown): void;
+}
+
+export type StorageKind = 'memory' | 'json';
+
+const DEFAULT_DATA_FILE = '.data/mockdb.json';
+
+/**
+ * Build the storage adapter configured through the environment
+ */
+export function createStorageAdapter(env: NodeJS.ProcessEnv = process.env): StorageAdapter {
+  const kind = (env.MOCKDB_STORAGE || 'memory').toLowerCase();
+
+  switch (kind) {
+    case 'memory':
+      return new MemoryStorageAdapter();
+    case 'json':
+      return new JsonFileStorageAdapter(env.MOCKDB_DATA_FILE || DEFAULT_DATA_FILE);
+    default:
+      throw new Error(`Unknown MOCKDB_STORAGE "${kind}" (expected "memory" or "json")`);
+  }
+}
+
+export { MemoryStorageAdapter, JsonFileStorageAdapter };
@@ -0,0 +1,63 @@
+import fs from 'fs';
+import path from 'path';
+import type { MockDataStore } from '@/services/mockDb';
+import type { StorageAdapter } from './index';
+
+/**
+ * Persists the snapshot to a JSON file.
+ * Writes go to a temporary file in the same directory which is then renamed
+ * over the target, so a crash mid-write never leaves a truncated file behind.
+ * Named state is kept in sibling files (mockdb.<namespace>.json).
+ */
+export class JsonFileStorageAdapter implements StorageAdapter {
+  readonly name = 'json';
+  private readonly filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = path.resolve(process.cwd(), filePath);
+  }
+
+  load(): MockDataStore | null {
+    if (!fs.existsSync(this.filePath)) {
+      return null;
+    }
+    const content = fs.readFileSync(this.filePath, 'utf-8');
+    return JSON.parse(content);
+  }
+
+  save(data: MockDataStore): void {
+    this.writeAtomically(this.filePath, JSON.stringify(data, null, 2));
+  }
+
+  loadState(namespace: string): unknown {
+    const statePath = this.statePath(namespace);
+    if (!fs.existsSync(statePath)) {
+      return null;
+    }
+    return JSON.parse(fs.readFileSync(statePath, 'utf-8'));
+  }
+
+  saveState(namespace: string, value: unknown): void {
+    this.writeAtomically(this.statePath(namespace), JSON.stringify(value));
+  }
+
+  private statePath(namespace: string): string {
+    const ext = path.extname(this.filePath);
+    return path.join(path.dirname(this.filePath), `${path.basename(this.filePath, ext)}.${namespace}${ext || '.json'}`);
+  }
+
+  private writeAtomically(filePath: string, content: string): void {
+    const dir = path.dirname(filePath);
+    fs.mkdirSync(dir, { recursive: true });
+
+    const tempPath = path.join(dir, `.${path.basename(filePath)}.${process.pid}.tmp`);
+    const fd = fs.openSync(tempPath, 'w');
+    try {
+      fs.writeFileSync(fd, content, 'utf-8');
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+    fs.renameSync(tempPath, filePath);
+  }
+}
@@ -0,0 +1,29 @@
+import type { MockDataStore } from '@/services/mockDb';
+import type { StorageAdapter } from './index';
+
+/**
+ * Keeps the last saved snapshot in process memory only.
+ * Data is lost whenever the server restarts.
+ */
+export class MemoryStorageAdapter implements StorageAdapter {
+  readonly name = 'memory';
+  private snapshot: string | null = null;
+  private readonly states = new Map<string, string>();
+
+  load(): MockDataStore | null {
+    return this.snapshot ? JSON.parse(this.snapshot) : null;
+  }
+
+  save(data: MockDataStore): void {
+    this.snapshot = JSON.stringify(data);
+  }
+
+  loadState(namespace: string): unknown {
+    const state = this.states.get(namespace);
+    return state ? JSON.parse(state) : null;
+  }
+
+  saveState(namespace: string, value: unknown): void {
+    this.states.set(namespace, JSON.stringify(value));
+  }
+}
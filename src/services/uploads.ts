@@ -0,0 +1,45 @@
+/**
+ * Image Uploads
+ * Product images arrive with the product form and are stored under
+ * public/uploads. Only raster images up to a size limit are accepted, and
+ * the stored file is named by a generated id: nothing the client sends ends
+ * up in the path.
+ *
+ * Configuration (environment):
+ *   - UPLOAD_MAX_BYTES: largest accepted image (default 5 MB)
+ */
+
+import { createUploadId } from './ids';
+
+const DEFAULT_UPLOAD_MAX_BYTES = 5 * 1024 * 1024;
+
+// Accepted content types and the extension they are stored with (no SVG: it can carry scripts)
+export const IMAGE_TYPES: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+};
+
+export function getUploadMaxBytes(env: NodeJS.ProcessEnv = process.env): number {
+  const bytes = Number(env.UPLOAD_MAX_BYTES);
+  return bytes > 0 ? Math.floor(bytes) : DEFAULT_UPLOAD_MAX_BYTES;
+}
+
+/**
+ * Why the file cannot be stored as an image, or null when it can
+ */
+export function imageUploadProblem(file: Pick<File, 'size' | 'type'>, env: NodeJS.ProcessEnv = process.env): string | null {
+  if (!IMAGE_TYPES[file.type]) {
+    return `Must be an image (${Object.keys(IMAGE_TYPES).join(', ')})`;
+  }
+  const maxBytes = getUploadMaxBytes(env);
+  return file.size > maxBytes ? `Must be at most ${maxBytes} bytes` : null;
+}
+
+/**
+ * Generated file name for an accepted image of the given content type
+ */
+export function imageFileName(type: string): string {
+  return `${createUploadId()}.${IMAGE_TYPES[type]}`;
+}
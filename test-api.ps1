@@ -2,18 +2,21 @@
 # Tests the complete Product -> Exhibition -> Approve -> Order flow
 
 $baseUrl = "http://localhost:3000"
+# Roles are switched with the x-user-id header, which the server only
+# accepts in demo mode: DEMO_MODE=true npm run dev
 $headers = @{
     "Content-Type" = "application/json"
+    "x-user-id" = "u3"
 }
 
 Write-Host "`n=== TranspoLogistic In-Memory Demo Mode Tests ===" -ForegroundColor Cyan
-Write-Host "Make sure the dev server is running: npm run dev`n" -ForegroundColor Yellow
+Write-Host "Make sure the dev server is running in demo mode: DEMO_MODE=true npm run dev`n" -ForegroundColor Yellow
 
 # Test 1: Get all products
 Write-Host "[TEST 1] Fetching all products..." -ForegroundColor Green
 try {
     $response = Invoke-RestMethod -Uri "$baseUrl/api/products" -Method GET -Headers $headers
-    Write-Host "✓ Products found: $($response.Count)" -ForegroundColor Green
+    Write-Host "✓ Products found: $($response.total)" -ForegroundColor Green
 } catch {
     Write-Host "✗ Failed to fetch products" -ForegroundColor Red
     Write-Host $_.Exception.Message